@@ -9,6 +9,58 @@ chrome.runtime.onInstalled.addListener(() => {
   console.log('Social Media Fact Checker extension installed');
 });
 
+/**
+ * Calls the backend with whichever credentials the user signed in with. The session cookie
+ * is always sent, and a stored app access token is added as a bearer token. If the request
+ * is rejected as unauthenticated, the access token is renewed once from the refresh cookie
+ * (set by the token login flow) and the request is retried.
+ * 
+ * @param {string} path - The API path, starting with a slash
+ * @param {Object} options - fetch options
+ * @returns {Promise<Response>} The response
+ */
+async function apiFetch(path, options = {}) {
+  const send = async () => {
+    const { accessToken } = await chrome.storage.local.get('accessToken');
+    const headers = { ...(options.headers || {}) };
+    if (accessToken) {
+      headers['Authorization'] = `Bearer ${accessToken}`;
+    }
+    return fetch(`${API_BASE_URL}${path}`, { ...options, headers, credentials: 'include' });
+  };
+
+  const response = await send();
+  if (response.status === 401 && await refreshAccessToken()) {
+    return send();
+  }
+  return response;
+}
+
+/**
+ * Exchanges the refresh cookie for a new app access token and stores it.
+ * Forgets the stored token if the refresh cookie is missing or no longer valid.
+ * 
+ * @returns {Promise<boolean>} True if a new access token was stored
+ */
+async function refreshAccessToken() {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/auth/refresh`, {
+      method: 'POST',
+      credentials: 'include'
+    });
+    if (!response.ok) {
+      await chrome.storage.local.remove('accessToken');
+      return false;
+    }
+    const { access } = await response.json();
+    await chrome.storage.local.set({ accessToken: access });
+    return true;
+  } catch (error) {
+    console.error('Error refreshing access token:', error);
+    return false;
+  }
+}
+
 /**
  * Main message handler that routes incoming messages from content scripts and popup
  * to appropriate handler functions based on the action type.
@@ -32,6 +84,9 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   } else if (request.action === 'getUserStatus') {
     getUserStatus(sendResponse);
     return true;
+  } else if (request.action === 'publishCheck') {
+    handlePublishCheck(request.historyId, sendResponse);
+    return true; // Keep message channel open for async response
   } else if (request.action === 'fetchImageAsBase64') {
     handleFetchImageAsBase64(request.imageUrl, sendResponse);
     return true; // Keep message channel open for async response
@@ -42,7 +97,7 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
  * Handles fact check requests from content scripts by forwarding them to the backend API.
  * Validates input data, checks user authentication, handles quota limits, and returns results.
  * 
- * @param {Object} data - The post data to fact check (text, claims, platform, url, postDate, timestamp)
+ * @param {Object} data - The post data to fact check (text, claims, platform, url, postDate, timestamp and the post context fields)
  * @param {Function} sendResponse - Callback function to send the response back to the content script
  */
 async function handleFactCheck(data, sendResponse) {
@@ -52,7 +107,7 @@ async function handleFactCheck(data, sendResponse) {
       throw new Error('Invalid data provided');
     }
     console.log(data);
-    const { text, claims, images, imageTexts, platform, postDate } = data;
+    const { text, claims, images, imageTexts, platform, url, postDate, author, quotedPost, parentPosts, links, mediaAltText } = data;
     
     // Validate required fields
     if (!text || typeof text !== 'string' || text.trim().length === 0) {
@@ -60,7 +115,7 @@ async function handleFactCheck(data, sendResponse) {
     }
     
     // Call backend API for fact checking
-    const response = await fetch(`${API_BASE_URL}/api/fact-check`, {
+    const response = await apiFetch('/api/fact-check', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -70,9 +125,15 @@ async function handleFactCheck(data, sendResponse) {
         claims: claims,
         images: images || [],
         imageTexts: imageTexts || [],
-        postDate: postDate
-      }),
-      credentials: 'include' // Send session cookie
+        postDate: postDate,
+        postUrl: url,
+        platform: platform,
+        author: author,
+        quotedPost: quotedPost,
+        parentPosts: parentPosts || [],
+        links: links || [],
+        mediaAltText: mediaAltText || []
+      })
     });
 
     if (response.status === 401) {
@@ -112,6 +173,45 @@ async function handleFactCheck(data, sendResponse) {
   }
 }
 
+/**
+ * Publishes a fact-check from the user's history as a public permalink.
+ * Publishing the same check twice returns the existing link.
+ * 
+ * @param {string} historyId - The history entry ID returned with the fact-check result
+ * @param {Function} sendResponse - Callback function to send the response back to the content script
+ */
+async function handlePublishCheck(historyId, sendResponse) {
+  try {
+    if (!historyId || typeof historyId !== 'string') {
+      throw new Error('This result cannot be shared');
+    }
+
+    const response = await apiFetch('/api/permalinks', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ historyId })
+    });
+
+    if (response.status === 401) {
+      chrome.tabs.create({ url: `${API_BASE_URL}/login?from=extension` });
+      throw new Error('Please sign in on the website to share results');
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to publish fact check');
+    }
+
+    const permalink = await response.json();
+    sendResponse({ success: true, url: permalink.url });
+  } catch (error) {
+    console.error('Publish error:', error);
+    sendResponse({ success: false, error: error.message || 'An unexpected error occurred' });
+  }
+}
+
 /**
  * Handles image text extraction requests by sending images to the backend API for OCR processing.
  * Validates input, checks authentication and quotas, and returns extracted text and claims.
@@ -127,7 +227,7 @@ async function handleImageExtraction(images, sendResponse) {
     }
 
     // Call backend API for image extraction
-    const response = await fetch(`${API_BASE_URL}/api/image-extraction`, {
+    const response = await apiFetch('/api/image-extraction', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -135,8 +235,7 @@ async function handleImageExtraction(images, sendResponse) {
       body: JSON.stringify({
         images: images,
         extractClaims: true // Automatically extract claims from images
-      }),
-      credentials: 'include' // Send session cookie
+      })
     });
 
     if (response.status === 401) {
@@ -226,9 +325,7 @@ async function handleFetchImageAsBase64(imageUrl, sendResponse) {
  */
 async function getUserStatus(sendResponse) {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/me`, {
-      credentials: 'include'
-    });
+    const response = await apiFetch('/api/me');
 
     if (response.ok) {
       const userData = await response.json();
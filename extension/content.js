@@ -304,10 +304,11 @@ class SocialMediaExtractor {
 
   /**
    * Extracts all relevant data from a social media post including text content,
-   * images, platform information, URL, and timestamp.
+   * images, platform information, URL, and timestamp, plus the context needed to
+   * understand it: author, quoted post, parent posts in a thread, linked URLs and image alt text.
    * 
    * @param {HTMLElement} post - The DOM element representing the social media post
-   * @returns {Object} An object containing extracted post data (text, images, platform, url, postDate, timestamp)
+   * @returns {Object} An object containing extracted post data (text, images, platform, url, postDate, timestamp, author, quotedPost, parentPosts, links, mediaAltText)
    * @throws {Error} If the post element is invalid or contains no extractable content
    */
   async extractPostData(post) {
@@ -330,10 +331,168 @@ class SocialMediaExtractor {
       platform: this.platform,
       url: window.location.href,
       postDate: postDate,
-      timestamp: new Date().toISOString()
+      timestamp: new Date().toISOString(),
+      author: this.extractAuthor(post),
+      quotedPost: this.extractQuotedPost(post),
+      parentPosts: this.extractParentPosts(post),
+      links: this.extractLinks(post),
+      mediaAltText: this.extractMediaAltText(post)
     };
   }
 
+  /**
+   * Extracts the author's handle from a post using platform-specific selectors.
+   * 
+   * @param {HTMLElement} post - The DOM element representing the social media post
+   * @returns {string|null} The handle without "@", or null if not found
+   */
+  extractAuthor(post) {
+    let link = null;
+    switch (this.platform) {
+      case 'twitter':
+        link = post.querySelector('[data-testid="User-Name"] a[href^="/"]');
+        break;
+      case 'instagram':
+        link = post.querySelector('header a[href^="/"]');
+        break;
+      case 'facebook':
+        link = post.querySelector('h2 a[href], h3 a[href], strong a[href]');
+        return link ? (link.innerText || '').trim() || null : null;
+      default:
+        return null;
+    }
+    if (!link) return null;
+    const handle = (link.getAttribute('href') || '').split('/').filter(Boolean)[0];
+    return handle || null;
+  }
+
+  /**
+   * Extracts the post quoted or shared inside a post (a quote tweet or a shared Facebook post).
+   * Instagram has no quoted posts.
+   * 
+   * @param {HTMLElement} post - The DOM element representing the social media post
+   * @returns {Object|null} The quoted post ({ author, text, url }), or null if there is none
+   */
+  extractQuotedPost(post) {
+    switch (this.platform) {
+      case 'twitter': {
+        // A quote tweet renders a second tweetText and User-Name block inside the tweet
+        const texts = post.querySelectorAll('[data-testid="tweetText"]');
+        if (texts.length < 2) return null;
+        const names = post.querySelectorAll('[data-testid="User-Name"]');
+        const handle = names.length > 1 ? (names[1].innerText.match(/@(\w+)/) || [])[1] : null;
+        const statusLink = texts[1].closest('[role="link"]')?.querySelector('a[href*="/status/"]');
+        return {
+          author: handle || null,
+          text: texts[1].innerText,
+          url: statusLink ? new URL(statusLink.getAttribute('href'), window.location.origin).href : null
+        };
+      }
+      case 'facebook': {
+        const messages = post.querySelectorAll('[data-ad-preview="message"], [data-testid="post_message"]');
+        return messages.length > 1 ? { author: null, text: messages[1].innerText, url: null } : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Extracts the earlier posts of a Twitter/X thread shown above a post on a
+   * conversation page. Other platforms do not show parents inline.
+   * 
+   * @param {HTMLElement} post - The DOM element representing the social media post
+   * @returns {Array} Parent posts ({ author, text, url }), oldest first, at most 5
+   */
+  extractParentPosts(post) {
+    if (this.platform !== 'twitter' || !window.location.pathname.includes('/status/')) return [];
+
+    const cell = post.closest('[data-testid="cellInnerDiv"]');
+    const parents = [];
+    let previous = cell ? cell.previousElementSibling : null;
+    while (previous && parents.length < 5) {
+      const tweet = previous.querySelector('[data-testid="tweet"]');
+      // Stop at the first cell that is not a tweet (e.g. a "Show more replies" divider)
+      if (!tweet) break;
+      const text = tweet.querySelector('[data-testid="tweetText"]');
+      const statusLink = tweet.querySelector('a[href*="/status/"]');
+      if (text) {
+        parents.unshift({
+          author: this.extractAuthor(tweet),
+          text: text.innerText,
+          url: statusLink ? new URL(statusLink.getAttribute('href'), window.location.origin).href : null
+        });
+      }
+      previous = previous.previousElementSibling;
+    }
+    return parents;
+  }
+
+  /**
+   * Extracts external links from a post, including link preview cards.
+   * Facebook's outbound redirect links are unwrapped to the target URL.
+   * 
+   * @param {HTMLElement} post - The DOM element representing the social media post
+   * @returns {Array} Links ({ url, title }), at most 3
+   */
+  extractLinks(post) {
+    let anchors = [];
+    switch (this.platform) {
+      case 'twitter':
+        anchors = post.querySelectorAll('[data-testid="tweetText"] a[href^="http"], [data-testid="card.wrapper"] a[href^="http"]');
+        break;
+      case 'instagram':
+        anchors = post.querySelectorAll('a[href^="https://l.instagram.com/"]');
+        break;
+      case 'facebook':
+        anchors = post.querySelectorAll('a[href*="l.facebook.com/l.php"], a[href^="http"][target="_blank"]');
+        break;
+      default:
+        return [];
+    }
+
+    const links = [];
+    const seen = new Set();
+    anchors.forEach(anchor => {
+      let url = anchor.href;
+      try {
+        const parsed = new URL(url);
+        // Facebook and Instagram wrap outbound links in a redirect with the target in "u"
+        if (/^l\.(facebook|instagram)\.com$/.test(parsed.hostname) && parsed.searchParams.get('u')) {
+          url = parsed.searchParams.get('u');
+        }
+      } catch {
+        return;
+      }
+      if (seen.has(url)) return;
+      seen.add(url);
+      const card = anchor.closest('[data-testid="card.wrapper"]');
+      // Cards show the domain on its own line; the title is the first line with words in it
+      const title = card ? (card.innerText || '').split('\n').find(line => line.trim().includes(' ')) : null;
+      links.push({ url, title: title || null });
+    });
+    return links.slice(0, 3);
+  }
+
+  /**
+   * Extracts the alt text of images in a post. Platform placeholders such as
+   * Twitter's generic "Image" are skipped.
+   * 
+   * @param {HTMLElement} post - The DOM element representing the social media post
+   * @returns {Array} Alt text strings, at most 5
+   */
+  extractMediaAltText(post) {
+    const placeholders = ['image', 'photo', 'may be an image', 'no photo description available.'];
+    const altText = [];
+    this.extractImages(post).forEach(img => {
+      const alt = (img.getAttribute('alt') || '').trim();
+      if (alt && !placeholders.includes(alt.toLowerCase()) && !altText.includes(alt)) {
+        altText.push(alt);
+      }
+    });
+    return altText.slice(0, 5);
+  }
+
   /**
    * Extracts text content from a social media post using platform-specific selectors.
    * Different platforms have different DOM structures for displaying post text.
@@ -630,7 +789,12 @@ class SocialMediaExtractor {
           platform: data.platform,
           url: data.url,
           postDate: data.postDate,
-          timestamp: data.timestamp
+          timestamp: data.timestamp,
+          author: data.author,
+          quotedPost: data.quotedPost,
+          parentPosts: data.parentPosts,
+          links: data.links,
+          mediaAltText: data.mediaAltText
         }
       }, (response) => {
         if (chrome.runtime.lastError) {
@@ -772,6 +936,48 @@ class SocialMediaExtractor {
       } 
     }
 
+    // Helper function to render the outlet badge from the server's source registry
+    function reputationBadge(reputation) {
+      if (!reputation) return '';
+      if (reputation.status !== 'known') {
+        return `<span class="source-badge source-badge-unknown" title="${reputation.domain} is not in the source registry">Unrated outlet</span>`;
+      }
+      const category = reputation.category.replace(/-/g, ' ');
+      return `<span class="source-badge source-badge-${reputation.category}" title="${reputation.outlet} (${category})">${reputation.outlet} · ${category}</span>`;
+    }
+
+    // Helper function to describe how a claim's accuracy changed since the post date
+    function temporalNote(claim) {
+      const notes = {
+        'outdated': 'Accurate when posted, but no longer accurate',
+        'since-confirmed': 'Not supported when posted, but has since been confirmed',
+        'prediction-pending': 'Prediction that has not resolved yet'
+      };
+      const note = notes[claim.temporalStatus];
+      if (!note) return '';
+      const atPostDate = claim.assessmentAtPostDate ? ` (at post date: ${claim.assessmentAtPostDate})` : '';
+      return `<div class="claim-temporal claim-temporal-${claim.temporalStatus}">🕒 ${note}${atPostDate}</div>`;
+    }
+
+    // Build linked articles HTML
+    let articlesHtml = '';
+    if (results.articles && results.articles.length > 0) {
+      articlesHtml = `
+        <div class="overall-articles">
+          <div class="overall-articles-title">📰 Linked articles read (${results.articles.length})</div>
+          ${results.articles.map(article => {
+            const meta = [article.siteName, article.byline, article.publishedAt ? article.publishedAt.slice(0, 10) : null].filter(Boolean).join(' · ');
+            return `
+              <div class="overall-article">
+                <a href="${article.resolvedUrl || article.url}" target="_blank" rel="noopener">${article.title || human(article.url) || article.url}</a>
+                ${meta ? `<div class="overall-article-meta">${meta}</div>` : ''}
+              </div>
+            `;
+          }).join('')}
+        </div>
+      `;
+    }
+
     // Build claims HTML
     let claimsHtml = '';
     if (results.claims && results.claims.length > 0) {
@@ -791,9 +997,11 @@ class SocialMediaExtractor {
                 const safeSource = {
                   url: source.url || "#",
                   title: source.title || human(source.url) || "Source",
-                  credibilityScore: source.credibilityScore || 5,
+                  credibilityScore: typeof source.credibilityScore === 'number' ? source.credibilityScore : null,
                   relevanceScore: source.relevanceScore || 5,
-                  summary: source.summary || ""
+                  summary: source.summary || "",
+                  reputation: source.reputation,
+                  publishedAfterPost: source.publishedAfterPost === true
                 };
                 return `
                   <div class="source-item" onclick="window.open('${safeSource.url}', '_blank')" title="Click to open source">
@@ -801,10 +1009,12 @@ class SocialMediaExtractor {
                       <a href="${safeSource.url}" target="_blank" rel="noopener" class="source-title-link" onclick="event.stopPropagation()">
                         <div class="source-title">${safeSource.title}</div>
                       </a>
+                      ${reputationBadge(safeSource.reputation)}
+                      ${safeSource.publishedAfterPost ? '<span class="source-badge source-badge-after-post" title="This source was published after the post">Published after post</span>' : ''}
                       <div class="source-scores">
                         <div class="source-score">
                           <span>📊</span>
-                          <span>${safeSource.credibilityScore}/10</span>
+                          <span>${safeSource.credibilityScore === null ? 'Unscored' : `${safeSource.credibilityScore}/10`}</span>
                         </div>
                         <div class="source-score">
                           <span>🎯</span>
@@ -834,9 +1044,11 @@ class SocialMediaExtractor {
               <div class="claim-expand-icon">▼</div>
             </div>
             <div class="claim-content">
+              ${claim.originalClaim ? `<div class="claim-original"><strong>Original:</strong> ${claim.originalClaim}</div>` : ''}
               <div class="claim-explanation">
                 <strong>Assessment:</strong> ${claimRating.explanation || "No assessment available"}
               </div>
+              ${temporalNote(claim)}
               ${sourcesHtml}
             </div>
           </div>
@@ -850,7 +1062,10 @@ class SocialMediaExtractor {
           <div class="fact-check-title">
             🔍 Fact Check Results
           </div>
-          <button class="fact-check-close" data-close="true">×</button>
+          <div class="fact-check-actions">
+            ${results.historyId ? `<button class="fact-check-share" data-share="${results.historyId}" title="Publish a public link to this result">🔗 Share</button>` : ''}
+            <button class="fact-check-close" data-close="true">×</button>
+          </div>
         </div>
         <div class="fact-check-content">
           <div class="overall-rating-section">
@@ -873,6 +1088,8 @@ class SocialMediaExtractor {
             <div class="overall-explanation">
               ${overallRating.explanation || "No explanation available"}
             </div>
+            ${results.language && results.language.code !== 'und' && results.language.code !== 'en' ? `<div class="overall-language">🌐 Post language: ${results.language.name}</div>` : ''}
+            ${articlesHtml}
           </div>
           
           <div class="claims-section">
@@ -910,6 +1127,33 @@ class SocialMediaExtractor {
       });
     }
 
+    // Share button: publish a permalink and copy it to the clipboard
+    const shareButton = overlay.querySelector('[data-share]');
+    if (shareButton) {
+      shareButton.addEventListener('click', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        shareButton.disabled = true;
+        shareButton.textContent = '⏳ Publishing...';
+        chrome.runtime.sendMessage({ action: 'publishCheck', historyId: shareButton.dataset.share }, async (resp) => {
+          if (chrome.runtime.lastError || !resp?.success) {
+            shareButton.textContent = '⚠️ Share failed';
+            shareButton.title = resp?.error || chrome.runtime.lastError?.message || '';
+            shareButton.disabled = false;
+            return;
+          }
+          try {
+            await navigator.clipboard.writeText(resp.url);
+            shareButton.textContent = '✅ Link copied';
+          } catch {
+            window.open(resp.url, '_blank');
+            shareButton.textContent = '🔗 Opened';
+          }
+          shareButton.title = resp.url;
+        });
+      });
+    }
+
     // Expandable claims functionality
     const claimHeaders = overlay.querySelectorAll('[data-expandable="true"]');
     console.log(`Found ${claimHeaders.length} expandable claim headers`);
@@ -1096,7 +1340,7 @@ class SocialMediaExtractor {
               </a>
               <br>
               <span style="color: #999;">
-                (Credibility: ${source.credibilityScore}/10, Relevance: ${source.relevanceScore}/10)
+                (Credibility: ${typeof source.credibilityScore === 'number' ? `${source.credibilityScore}/10` : 'unscored'}, Relevance: ${source.relevanceScore}/10)
               </span>
             </div>
           </li>
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getCorsHeaders, createSessionCookie, createSessionFromIdToken } from '@/lib/auth-helpers';
+import { createSession, describeDevice, setSessionCookie } from '@/lib/auth';
 
 export const runtime = 'nodejs';
 
@@ -12,27 +12,21 @@ export const runtime = 'nodejs';
  */
 export async function POST(request: NextRequest) {
   try {
-    const origin = request.headers.get('origin');
-    const headers = getCorsHeaders(origin);
-    
     const { idToken } = await request.json();
     
     if (!idToken) {
-      return NextResponse.json({ error: "ID token required" }, { status: 400, headers });
+      return NextResponse.json({ error: "ID token required" }, { status: 400 });
     }
 
-    // Create session cookie
-    const sessionCookie = await createSessionFromIdToken(idToken);
-    const response = NextResponse.json({ ok: true }, { headers });
-    
-    // Set session cookie
-    createSessionCookie(response, sessionCookie);
-
+    const { sessionCookie } = await createSession(idToken, describeDevice(request, 'website'));
+    const response = NextResponse.json({ ok: true });
+    setSessionCookie(response, sessionCookie);
     return response;
-  } catch (error) {
+  } catch (error: any) {
+    if (error?.message === 'NO_AUTH') {
+      return NextResponse.json({ error: "Invalid ID token" }, { status: 401 });
+    }
     console.error('Error creating session cookie:', error);
-    const origin = request.headers.get('origin');
-    const headers = getCorsHeaders(origin);
-    return NextResponse.json({ error: "Failed to create session" }, { status: 500, headers });
+    return NextResponse.json({ error: "Failed to create session" }, { status: 500 });
   }
 }
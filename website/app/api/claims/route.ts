@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { extractClaims } from "@/lib/claims";
+import { reserveQuota, QUOTA_UPGRADE_URL } from "@/lib/quota";
+
+// Force Node.js runtime
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_TEXT_LENGTH = 4000;
+
+/**
+ * Claim extraction endpoint, used when the on-device Prompt API is unavailable.
+ * Authenticates user, validates input, reserves quota and returns the claims found
+ * in the text, each with its character span in the submitted text (or null if the
+ * claim is paraphrased and could not be located). Quota is refunded if extraction fails.
+ *
+ * @param {NextRequest} req - The incoming request object
+ * @returns {Promise<NextResponse>} Response containing extracted claims or error
+ */
+async function handler(req: NextRequest) {
+  try {
+    // Check authentication
+    const user = await requireAuth(req, 'factCheck');
+
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid request body", success: false }, { status: 400 });
+    }
+    const { text, maxClaims } = body || {};
+
+    if (!text || typeof text !== "string" || text.trim().length < 10) {
+      return NextResponse.json({ error: "Invalid input", success: false }, { status: 400 });
+    }
+
+    if (text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json({ error: `Text must be at most ${MAX_TEXT_LENGTH} characters`, success: false }, { status: 400 });
+    }
+
+    const limit = typeof maxClaims === "number" && maxClaims >= 1 ? Math.min(Math.floor(maxClaims), 5) : undefined;
+
+    // Reserve a unit of quota only once the request is known to be valid
+    const reservation = await reserveQuota(user.uid, 'claimExtraction', { apiKeyId: user.apiKeyId });
+
+    let claims;
+    try {
+      claims = await extractClaims(text, { maxClaims: limit });
+    } catch (error) {
+      // Do not charge for extractions that failed upstream
+      await reservation.refund();
+      throw error;
+    }
+
+    await reservation.commit();
+
+    return NextResponse.json({
+      success: true,
+      claims
+    });
+  } catch (e: any) {
+    if (e?.message === "NO_AUTH") {
+      return NextResponse.json({ error: "Not signed in", success: false }, { status: 401 });
+    }
+    if (e?.message === "FORBIDDEN") {
+      return NextResponse.json({ error: "API key does not have the required scope", success: false }, { status: 403 });
+    }
+    if (e?.message === "QUOTA_EXCEEDED") {
+      return NextResponse.json({
+        error: "Quota exceeded",
+        upgradeUrl: QUOTA_UPGRADE_URL,
+        success: false
+      }, { status: 402 });
+    }
+    if (e?.message === "RATE_LIMITED") {
+      return NextResponse.json({ error: "Too many requests, please slow down", success: false }, { status: 429 });
+    }
+    console.error("Claim extraction error:", e?.response?.data || e?.message || e);
+    const msg = e?.message || "unknown";
+    const isBadReq = /400/i.test(msg);
+    return NextResponse.json({
+      error: `Claim extraction error: ${msg}`,
+      success: false
+    }, { status: isBadReq ? 400 : 500 });
+  }
+}
+
+export const POST = handler;
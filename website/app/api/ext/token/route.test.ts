@@ -0,0 +1,88 @@
+import { createHash, randomBytes } from 'crypto';
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeFirestore } from '@/test/fake-firestore';
+
+vi.mock('@/lib/firebaseAdmin', async () => {
+  const { FakeFirestore } = await import('@/test/fake-firestore');
+  return { db: new FakeFirestore(), adminAuth: {} };
+});
+
+import { db } from '@/lib/firebaseAdmin';
+import { createExtensionLoginCode, verifyAccessToken } from '@/lib/auth';
+import { POST } from './route';
+
+const REDIRECT_URI = 'https://abcdefghijklmnopabcdefghijklmnop.chromiumapp.org/';
+
+/**
+ * Issues a login code for a fresh PKCE pair.
+ *
+ * @returns {Promise<{ code: string, verifier: string }>} The code and its verifier
+ */
+async function issueCode(): Promise<{ code: string; verifier: string }> {
+  const verifier = randomBytes(32).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  const code = await createExtensionLoginCode({ uid: 'user123', method: 'session' }, REDIRECT_URI, challenge);
+  return { code, verifier };
+}
+
+/**
+ * Calls the token endpoint.
+ *
+ * @param {any} body - The JSON body, or a string to send as-is
+ * @returns {Promise<Response>} The response
+ */
+function exchange(body: any): Promise<Response> {
+  return POST(new NextRequest('http://localhost:3000/api/ext/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  }));
+}
+
+beforeEach(() => {
+  (db as unknown as FakeFirestore).clear();
+  process.env.APP_JWT_SECRET = 'test-secret';
+  process.env.EXTENSION_IDS = 'abcdefghijklmnopabcdefghijklmnop';
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+describe('POST /api/ext/token', () => {
+  it('exchanges a code for tokens without caching the response', async () => {
+    const { code, verifier } = await issueCode();
+    const response = await exchange({ code, code_verifier: verifier, redirect_uri: REDIRECT_URI });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    const tokens = await response.json();
+    expect(await verifyAccessToken(tokens.access)).toMatchObject({ uid: 'user123' });
+    expect(typeof tokens.refresh).toBe('string');
+  });
+
+  it('answers invalid_grant for a wrong code verifier', async () => {
+    const { code } = await issueCode();
+    const response = await exchange({ code, code_verifier: randomBytes(32).toString('base64url'), redirect_uri: REDIRECT_URI });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'invalid_grant' });
+  });
+
+  it('answers invalid_grant when the code is exchanged a second time', async () => {
+    const { code, verifier } = await issueCode();
+    const first = await exchange({ code, code_verifier: verifier, redirect_uri: REDIRECT_URI });
+    const { access } = await first.json();
+
+    const second = await exchange({ code, code_verifier: verifier, redirect_uri: REDIRECT_URI });
+    expect(second.status).toBe(400);
+    expect(await second.json()).toEqual({ error: 'invalid_grant' });
+    await expect(verifyAccessToken(access)).rejects.toThrow('NO_AUTH');
+  });
+
+  it('answers invalid_request for missing parameters or a malformed body', async () => {
+    const { code } = await issueCode();
+    for (const response of [await exchange({ code, redirect_uri: REDIRECT_URI }), await exchange('not json')]) {
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'invalid_request' });
+    }
+  });
+});
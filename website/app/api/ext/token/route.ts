@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { describeDevice, exchangeExtensionLoginCode } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+/**
+ * Handles POST requests to exchange a login code from `/ext/login` for tokens. Body:
+ * `{ code, code_verifier, redirect_uri }`, where `redirect_uri` is the one the code was sent
+ * to. Responds with `{ access, refresh }`; refresh the access token with the `refresh`
+ * action of `/api/auth/jwt`. A code works once, and presenting it again revokes the tokens
+ * it was exchanged for.
+ *
+ * @param {NextRequest} req - The incoming request object
+ * @returns {Promise<NextResponse>} Response with the tokens, or an OAuth-style error
+ */
+export async function POST(req: NextRequest) {
+  const headers = { 'Cache-Control': 'no-store' };
+  try {
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'invalid_request' }, { status: 400, headers });
+    }
+
+    const { code, code_verifier: codeVerifier, redirect_uri: redirectUri } = body || {};
+    if (typeof code !== 'string' || typeof codeVerifier !== 'string' || typeof redirectUri !== 'string') {
+      return NextResponse.json({ error: 'invalid_request' }, { status: 400, headers });
+    }
+
+    const tokens = await exchangeExtensionLoginCode(code, codeVerifier, redirectUri, describeDevice(req, 'extension'));
+    return NextResponse.json(tokens, { headers });
+  } catch (error: any) {
+    if (error?.message === 'INVALID_GRANT') {
+      return NextResponse.json({ error: 'invalid_grant' }, { status: 400, headers });
+    }
+    console.error('Extension token exchange error:', error);
+    return NextResponse.json({ error: 'Token exchange failed' }, { status: 500, headers });
+  }
+}
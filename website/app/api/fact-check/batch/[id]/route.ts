@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { getBatchJobWithItems } from "@/lib/batch";
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Returns a batch job of the signed-in user with every item in input order: pending and
+ * running items, results of succeeded items and the error envelope of failed ones.
+ *
+ * @param {NextRequest} req - The incoming request object
+ * @param {{ params: { id: string } }} context - Route parameters with the batch job ID
+ * @returns {Promise<NextResponse>} The job and its items, or an error
+ */
+async function handler(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireAuth(req, 'factCheck');
+    const id = params.id;
+    if (!id || id.includes('/')) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const job = await getBatchJobWithItems(user.uid, id);
+    if (!job) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json(job);
+  } catch (e: any) {
+    if (e?.message === "NO_AUTH") {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+    if (e?.message === "FORBIDDEN") {
+      return NextResponse.json({ error: "API key does not have the required scope" }, { status: 403 });
+    }
+    console.error('Error reading batch job:', e);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = handler;
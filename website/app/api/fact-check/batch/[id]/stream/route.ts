@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, Principal } from "@/lib/auth";
+import { getBatchJob, listFinishedBatchItems, BatchJob, BatchItem } from "@/lib/batch";
+
+// Force Node.js runtime so the stream is not buffered or cut short
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL_MS = 1000;
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+type BatchStreamEvent =
+  | { type: 'job'; job: BatchJob }
+  | { type: 'item'; item: BatchItem }
+  | { type: 'done'; job: BatchJob };
+
+/**
+ * Encodes one batch event as a server-sent event frame.
+ *
+ * @param {BatchStreamEvent} event - The event to send
+ * @returns {string} SSE frame with the event type and JSON payload
+ */
+function toSseFrame(event: BatchStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Streams the progress of a batch job as server-sent events: `job` with the current
+ * counts, one `item` per finished item (including items that finished before the stream
+ * was opened), then `done` with the final job. Streams end after five minutes; a job that
+ * is still running then gets a last `job` event and the client can reconnect or poll.
+ *
+ * @param {NextRequest} req - The incoming request object
+ * @param {{ params: { id: string } }} context - Route parameters with the batch job ID
+ * @returns {Promise<NextResponse>} An event-stream response, or a JSON error
+ */
+async function handler(req: NextRequest, { params }: { params: { id: string } }) {
+  let user: Principal;
+  try {
+    user = await requireAuth(req, 'factCheck');
+  } catch (e: any) {
+    if (e?.message === "FORBIDDEN") {
+      return NextResponse.json({ error: "API key does not have the required scope" }, { status: 403 });
+    }
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const id = params.id;
+  const initial = id && !id.includes('/') ? await getBatchJob(user.uid, id) : null;
+  if (!initial) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: BatchStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(toSseFrame(event)));
+        } catch {
+          closed = true;
+        }
+      };
+
+      const sent = new Set<number>();
+      let since = '';
+      const sendFinishedItems = async () => {
+        for (const item of await listFinishedBatchItems(user.uid, id, since)) {
+          if (sent.has(item.index)) continue;
+          sent.add(item.index);
+          if (item.finishedAt && item.finishedAt > since) since = item.finishedAt;
+          send({ type: 'item', item });
+        }
+      };
+
+      try {
+        send({ type: 'job', job: initial });
+        const deadline = Date.now() + MAX_STREAM_MS;
+        let job: BatchJob | null = initial;
+        while (!closed && job) {
+          if (job.succeeded + job.failed > sent.size || job.status !== 'running') {
+            await sendFinishedItems();
+          }
+          if (job.status !== 'running') {
+            send({ type: 'done', job });
+            break;
+          }
+          if (Date.now() >= deadline) {
+            send({ type: 'job', job });
+            break;
+          }
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+          job = await getBatchJob(user.uid, id);
+        }
+      } catch (error) {
+        console.error('Batch stream failed:', id, error);
+      }
+
+      if (!closed) {
+        closed = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      // Client went away; the batch keeps running and can be polled
+      closed = true;
+    }
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no"
+    }
+  });
+}
+
+export const GET = handler;
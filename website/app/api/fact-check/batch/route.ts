@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { factCheckFailure, factCheckFailureFromError } from "@/lib/fact-check-service";
+import { readBatchRequest, createBatchJob } from "@/lib/batch";
+import { queueBatchJob } from "@/lib/jobs";
+import { reserveBurst } from "@/lib/quota";
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Starts a batch fact-check. The body is `{ items: [...] }`, each item a `/api/fact-check`
+ * body, with optional top-level `responseLanguage` and `forceRefresh` defaults.
+ * The request counts once toward the burst limit. Responds with 202 and the job as soon as
+ * it is stored; items are checked by the job worker with bounded concurrency. Poll `/api/fact-check/batch/{id}` or stream
+ * `/api/fact-check/batch/{id}/stream` for per-item results.
+ *
+ * @param {NextRequest} req - The incoming request object
+ * @returns {Promise<NextResponse>} The new job with its status and stream URLs, or an error
+ */
+async function handler(req: NextRequest) {
+  try {
+    const user = await requireAuth(req, 'factCheck');
+
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      const failure = factCheckFailure(400, 'INVALID_INPUT', "Invalid request body");
+      return NextResponse.json(failure.error, { status: failure.status });
+    }
+
+    const request = readBatchRequest(body);
+    if (!request.ok) {
+      const failure = factCheckFailure(400, 'INVALID_INPUT', "Invalid batch", { details: request.errors });
+      return NextResponse.json(failure.error, { status: failure.status });
+    }
+
+    await reserveBurst(user.uid, 'factCheck');
+    const job = await createBatchJob(user.uid, request.items);
+    await queueBatchJob(user.uid, job.id, user.apiKeyId);
+
+    return NextResponse.json({
+      ...job,
+      statusUrl: `/api/fact-check/batch/${job.id}`,
+      streamUrl: `/api/fact-check/batch/${job.id}/stream`
+    }, { status: 202 });
+  } catch (e: any) {
+    const failure = factCheckFailureFromError(e);
+    return NextResponse.json(failure.error, { status: failure.status });
+  }
+}
+
+export const POST = handler;
@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/firebaseAdmin', async () => {
+  const { FakeFirestore } = await import('@/test/fake-firestore');
+  return { db: new FakeFirestore(), adminAuth: {} };
+});
+
+vi.mock('@/lib/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/auth')>()),
+  requireAuth: vi.fn(async () => ({ uid: 'user123', method: 'session' }))
+}));
+
+vi.mock('@/lib/fact-check-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/fact-check-service')>()),
+  executeFactCheck: vi.fn()
+}));
+
+import { executeFactCheck } from '@/lib/fact-check-service';
+import { POST } from './route';
+
+const check = vi.mocked(executeFactCheck);
+
+/**
+ * Calls the fact-check endpoint.
+ *
+ * @param {string} body - The raw request body
+ * @returns {Promise<Response>} The response
+ */
+function factCheck(body: string): Promise<Response> {
+  return POST(new NextRequest('http://localhost:3000/api/fact-check', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body
+  }));
+}
+
+beforeEach(() => {
+  check.mockReset();
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('POST /api/fact-check', () => {
+  it('rejects a malformed JSON body with 400 without checking anything', async () => {
+    const response = await factCheck('{"text": "The bridge closed"');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_INPUT', error: 'Invalid request body' });
+    expect(check).not.toHaveBeenCalled();
+  });
+
+  it('passes the parsed body on', async () => {
+    check.mockResolvedValue({ ok: true, result: { claims: [] } as any });
+    const response = await factCheck(JSON.stringify({ text: 'The bridge closed today' }));
+
+    expect(response.status).toBe(200);
+    expect(check).toHaveBeenCalledWith('user123', { text: 'The bridge closed today' }, { apiKeyId: undefined });
+  });
+
+  it('keeps 500 for upstream failures', async () => {
+    check.mockRejectedValue(new Error('model unavailable'));
+    const response = await factCheck(JSON.stringify({ text: 'The bridge closed today' }));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ code: 'UPSTREAM_ERROR' });
+  });
+});
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, Principal } from "@/lib/auth";
+import { FactCheckEvent } from "@/lib/fact-check";
+import { executeFactCheck, factCheckFailure, factCheckFailureFromError } from "@/lib/fact-check-service";
+
+// Force Node.js runtime so the stream is not buffered or cut short
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Encodes one fact-check event as a server-sent event frame.
+ *
+ * @param {FactCheckEvent} event - The event to send
+ * @returns {string} SSE frame with the event type and JSON payload
+ */
+function toSseFrame(event: FactCheckEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Streaming fact-check endpoint. Accepts the same body as `/api/fact-check` and applies
+ * the same authentication, cache and quota rules, but responds with server-sent events:
+ * `articles`, `claims`, `searching`, `sources`, `claim`, `claimFailed`, then a final `result` or `error`.
+ * Authentication and malformed-body failures are returned as plain JSON errors before streaming starts.
+ *
+ * @param {NextRequest} req - The incoming request object
+ * @returns {Promise<NextResponse>} An event-stream response, or a JSON error
+ */
+async function handler(req: NextRequest) {
+  let user: Principal;
+  let body: any;
+  try {
+    user = await requireAuth(req, 'factCheck');
+  } catch (e: any) {
+    const failure = factCheckFailureFromError(e);
+    return NextResponse.json(failure.error, { status: failure.status });
+  }
+  try {
+    body = await req.json();
+  } catch {
+    const failure = factCheckFailure(400, 'INVALID_INPUT', "Invalid request body");
+    return NextResponse.json(failure.error, { status: failure.status });
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: FactCheckEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(toSseFrame(event)));
+        } catch {
+          closed = true;
+        }
+      };
+
+      const outcome = await executeFactCheck(user.uid, body, { onEvent: send, apiKeyId: user.apiKeyId });
+      if (outcome.ok) {
+        send({ type: 'result', result: outcome.result });
+      } else {
+        send({ type: 'error', status: outcome.status, error: outcome.error });
+      }
+
+      if (!closed) {
+        closed = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      // Client went away; the check finishes and is still charged and cached
+      closed = true;
+    }
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no"
+    }
+  });
+}
+
+export const POST = handler;
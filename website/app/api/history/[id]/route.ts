@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { getHistoryEntry, deleteHistoryEntry } from "@/lib/history";
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Handles GET and DELETE for a single entry in the signed-in user's fact-check history.
+ * 
+ * @param {NextRequest} req - The incoming request object
+ * @param {{ params: { id: string } }} context - Route parameters with the entry ID
+ * @returns {Promise<NextResponse>} The entry, `{ deleted: true }`, or an error
+ */
+async function handler(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    // API keys may read history but not delete it
+    const user = await requireAuth(req, req.method === 'GET' ? 'historyRead' : undefined);
+    const id = params.id;
+    if (!id || id.includes('/')) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    if (req.method === 'DELETE') {
+      const deleted = await deleteHistoryEntry(user.uid, id);
+      if (!deleted) {
+        return NextResponse.json({ error: "Not found" }, { status: 404 });
+      }
+      return NextResponse.json({ deleted: true });
+    }
+
+    const entry = await getHistoryEntry(user.uid, id);
+    if (!entry) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json(entry);
+  } catch (e: any) {
+    if (e?.message === "NO_AUTH") {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+    if (e?.message === "FORBIDDEN") {
+      return NextResponse.json({ error: "API key does not have the required scope" }, { status: 403 });
+    }
+    console.error('Error accessing history entry:', e);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = handler;
+export const DELETE = handler;
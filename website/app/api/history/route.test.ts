@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeFirestore } from '@/test/fake-firestore';
+
+vi.mock('@/lib/firebaseAdmin', async () => {
+  const { FakeFirestore } = await import('@/test/fake-firestore');
+  return { db: new FakeFirestore(), adminAuth: {} };
+});
+
+vi.mock('@/lib/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/auth')>()),
+  requireAuth: vi.fn(async () => ({ uid: 'user123', method: 'session' }))
+}));
+
+import { db } from '@/lib/firebaseAdmin';
+import { GET } from './route';
+
+/**
+ * Lists history with the given query string.
+ *
+ * @param {string} query - The query string, without `?`
+ * @returns {Promise<Response>} The response
+ */
+function list(query: string): Promise<Response> {
+  return GET(new NextRequest(`http://localhost:3000/api/history?${query}`));
+}
+
+beforeEach(() => {
+  (db as unknown as FakeFirestore).clear();
+});
+
+describe('GET /api/history', () => {
+  it('accepts a limit between 1 and 100', async () => {
+    for (const limit of ['1', '20', '100']) {
+      const response = await list(`limit=${limit}`);
+      expect(response.status, limit).toBe(200);
+      expect(await response.json()).toEqual({ entries: [], nextCursor: null });
+    }
+  });
+
+  it('rejects a limit that is out of range or not a number', async () => {
+    for (const limit of ['0', '101', '-5', 'abc', '5abc', '2.5', '']) {
+      const response = await list(`limit=${limit}`);
+      expect(response.status, limit).toBe(400);
+      expect(await response.json()).toEqual({ error: 'limit must be between 1 and 100' });
+    }
+  });
+});
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { listHistory, isAssessment, HISTORY_PLATFORMS, HistoryPlatform, HistoryQuery, MAX_HISTORY_PAGE_SIZE } from "@/lib/history";
+import { ASSESSMENTS } from "@/lib/fact-check-result";
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Parses an optional date filter into an ISO timestamp.
+ * 
+ * @param {string | null} value - The raw query parameter
+ * @returns {string | null | undefined} ISO timestamp, undefined if absent, or null if invalid
+ */
+function parseDateParam(value: string | null): string | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Handles GET requests to list the signed-in user's fact-check history, newest first.
+ * Supports `limit` (1-100, default 20; anything else is rejected), `cursor` (the previous
+ * page's `nextCursor`), and filters `assessment`, `platform`, `from` and `to` (ISO dates;
+ * `from` inclusive, `to` exclusive).
+ * 
+ * @param {NextRequest} req - The incoming request object
+ * @returns {Promise<NextResponse>} Response with `{ entries, nextCursor }` or an error
+ */
+async function handler(req: NextRequest) {
+  try {
+    const user = await requireAuth(req, 'historyRead');
+    const { searchParams } = new URL(req.url);
+    const query: HistoryQuery = {};
+
+    const limit = searchParams.get('limit');
+    if (limit !== null) {
+      const n = /^\d+$/.test(limit) ? parseInt(limit, 10) : NaN;
+      if (!Number.isFinite(n) || n < 1 || n > MAX_HISTORY_PAGE_SIZE) {
+        return NextResponse.json({ error: `limit must be between 1 and ${MAX_HISTORY_PAGE_SIZE}` }, { status: 400 });
+      }
+      query.limit = n;
+    }
+
+    const cursor = searchParams.get('cursor');
+    if (cursor) query.cursor = cursor;
+
+    const assessment = searchParams.get('assessment');
+    if (assessment) {
+      if (!isAssessment(assessment)) {
+        return NextResponse.json({ error: `assessment must be one of ${ASSESSMENTS.join(', ')}` }, { status: 400 });
+      }
+      query.assessment = assessment;
+    }
+
+    const platform = searchParams.get('platform');
+    if (platform) {
+      if (!(HISTORY_PLATFORMS as readonly string[]).includes(platform)) {
+        return NextResponse.json({ error: `platform must be one of ${HISTORY_PLATFORMS.join(', ')}` }, { status: 400 });
+      }
+      query.platform = platform as HistoryPlatform;
+    }
+
+    const from = parseDateParam(searchParams.get('from'));
+    const to = parseDateParam(searchParams.get('to'));
+    if (from === null || to === null) {
+      return NextResponse.json({ error: "from and to must be valid dates" }, { status: 400 });
+    }
+    query.from = from;
+    query.to = to;
+
+    return NextResponse.json(await listHistory(user.uid, query));
+  } catch (e: any) {
+    if (e?.message === "NO_AUTH") {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+    if (e?.message === "FORBIDDEN") {
+      return NextResponse.json({ error: "API key does not have the required scope" }, { status: 403 });
+    }
+    if (e?.message === "INVALID_CURSOR") {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+    console.error('Error listing history:', e);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = handler;
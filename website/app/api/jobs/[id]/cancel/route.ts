@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { cancelJob } from "@/lib/jobs";
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cancels one of the signed-in user's jobs. Queued jobs are cancelled at once; a running
+ * job gets `cancelRequested` and is not retried after its current attempt.
+ *
+ * @param {NextRequest} req - The incoming request object
+ * @param {{ params: { id: string } }} context - Route parameters with the job ID
+ * @returns {Promise<NextResponse>} The updated job, or an error
+ */
+async function handler(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireAuth(req, ['factCheck', 'imageExtraction']);
+    const id = params.id;
+    if (!id || id.includes('/')) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const job = await cancelJob(user.uid, id);
+    if (!job) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json(job);
+  } catch (e: any) {
+    if (e?.message === "NO_AUTH") {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+    if (e?.message === "FORBIDDEN") {
+      return NextResponse.json({ error: "API key does not have the required scope" }, { status: 403 });
+    }
+    if (e?.message === "JOB_FINISHED") {
+      return NextResponse.json({ error: "Job already finished" }, { status: 409 });
+    }
+    console.error('Error cancelling job:', e);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = handler;
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { getJob } from "@/lib/jobs";
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Returns the status of one of the signed-in user's jobs, with the endpoint's response
+ * body in `result` once it succeeded or the last error in `error`.
+ *
+ * @param {NextRequest} req - The incoming request object
+ * @param {{ params: { id: string } }} context - Route parameters with the job ID
+ * @returns {Promise<NextResponse>} The job, or an error
+ */
+async function handler(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireAuth(req, ['factCheck', 'imageExtraction']);
+    const id = params.id;
+    if (!id || id.includes('/')) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const job = await getJob(user.uid, id);
+    if (!job) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json(job);
+  } catch (e: any) {
+    if (e?.message === "NO_AUTH") {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+    if (e?.message === "FORBIDDEN") {
+      return NextResponse.json({ error: "API key does not have the required scope" }, { status: 403 });
+    }
+    console.error('Error reading job:', e);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = handler;
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { createJob, isJobType, readIdempotencyKey, validateJobInput, JOB_TYPES } from "@/lib/jobs";
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Queues a long-running check. The body is `{ type, input }`, where `type` is `factCheck`
+ * or `imageExtraction` and `input` is the body of the matching endpoint. Send an
+ * `Idempotency-Key` header (or `idempotencyKey` in the body) to make retries safe:
+ * resubmitting with the same key returns the existing job with 200 instead of 202.
+ *
+ * @param {NextRequest} req - The incoming request object
+ * @returns {Promise<NextResponse>} The job, or an error
+ */
+async function handler(req: NextRequest) {
+  try {
+    const user = await requireAuth(req, ['factCheck', 'imageExtraction']);
+
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+
+    const { type, input } = body || {};
+    if (!isJobType(type)) {
+      return NextResponse.json({ error: `type must be one of ${JOB_TYPES.join(', ')}` }, { status: 400 });
+    }
+    if (user.scopes && !user.scopes.includes(type)) {
+      return NextResponse.json({ error: "API key does not have the required scope" }, { status: 403 });
+    }
+    const invalid = validateJobInput(type, input);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const idempotencyKey = readIdempotencyKey(req.headers.get('idempotency-key') ?? body.idempotencyKey);
+    if (idempotencyKey === null) {
+      return NextResponse.json({ error: "Idempotency key must be 1-255 printable ASCII characters" }, { status: 400 });
+    }
+
+    const { job, created } = await createJob(user.uid, type, input, { idempotencyKey, apiKeyId: user.apiKeyId });
+    return NextResponse.json({ ...job, statusUrl: `/api/jobs/${job.id}` }, { status: created ? 202 : 200 });
+  } catch (e: any) {
+    if (e?.message === "NO_AUTH") {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+    if (e?.message === "FORBIDDEN") {
+      return NextResponse.json({ error: "API key does not have the required scope" }, { status: 403 });
+    }
+    if (e?.message === "IDEMPOTENCY_CONFLICT") {
+      return NextResponse.json({ error: "Idempotency key was already used for a different job" }, { status: 409 });
+    }
+    console.error('Error creating job:', e);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = handler;
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { runJobWorker } from "@/lib/jobs";
+import { runWebhookWorker } from "@/lib/webhooks";
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Checks the `Authorization: Bearer <JOB_WORKER_SECRET>` header in constant time.
+ *
+ * @param {NextRequest} req - The incoming request object
+ * @param {string} secret - The configured worker secret
+ * @returns {boolean} True if the request carries the secret
+ */
+function isAuthorized(req: NextRequest, secret: string): boolean {
+  const provided = Buffer.from(req.headers.get('authorization') || '');
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Runs queued jobs and webhook deliveries outside any user request. Meant to be called by
+ * a scheduler (for example every minute) with `Authorization: Bearer <JOB_WORKER_SECRET>`;
+ * it claims and runs due jobs and deliveries for up to `JOB_WORKER_BUDGET_MS` (default 50 seconds).
+ * Not exposed through CORS: only server-side callers use it.
+ *
+ * @param {NextRequest} req - The incoming request object
+ * @returns {Promise<NextResponse>} `{ processed, delivered }`, or an error
+ */
+async function handler(req: NextRequest) {
+  const secret = process.env.JOB_WORKER_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "Job worker is not configured" }, { status: 503 });
+  }
+  if (!isAuthorized(req, secret)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const budget = parseInt(process.env.JOB_WORKER_BUDGET_MS || '50000', 10);
+    const budgetMs = Number.isFinite(budget) && budget > 0 ? budget : 50000;
+    const [jobs, webhooks] = await Promise.all([runJobWorker({ budgetMs }), runWebhookWorker({ budgetMs })]);
+    return NextResponse.json({ ...jobs, ...webhooks });
+  } catch (e: any) {
+    console.error('Job worker failed:', e);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = handler;
+export const POST = handler;
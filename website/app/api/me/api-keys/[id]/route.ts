@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, createAuthResponse } from '@/lib/auth';
+import { revokeApiKey } from '@/lib/api-keys';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Handles DELETE requests to revoke one of the user's API keys. Requests made with the
+ * key are rejected from then on; the key stays listed with `revokedAt`.
+ *
+ * @param {NextRequest} request - The incoming request object
+ * @param {{ params: { id: string } }} context - Route parameters with the API key ID
+ * @returns {Promise<NextResponse>} Response with the revoked key or an error
+ */
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { uid } = await requireAuth(request);
+    const id = params.id;
+    if (!id || id.includes('/')) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const revoked = await revokeApiKey(uid, id);
+    if (!revoked) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json(revoked);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'NO_AUTH') {
+      return createAuthResponse('Not signed in');
+    }
+    console.error('Error revoking API key:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
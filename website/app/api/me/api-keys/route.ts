@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, createAuthResponse } from '@/lib/auth';
+import { createApiKey, listApiKeys, readApiKeyRequest, MAX_ACTIVE_API_KEYS } from '@/lib/api-keys';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Handles GET requests to list the user's API keys, newest first, with per-key usage.
+ * Requires a signed-in user (session cookie or bearer token); API keys cannot manage keys.
+ *
+ * @param {NextRequest} request - The incoming request object
+ * @returns {Promise<NextResponse>} Response with `{ keys }` or an error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { uid } = await requireAuth(request);
+    return NextResponse.json({ keys: await listApiKeys(uid) });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'NO_AUTH') {
+      return createAuthResponse('Not signed in');
+    }
+    console.error('Error listing API keys:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Handles POST requests to create an API key from `{ name, scopes }`, where scopes are
+ * `factCheck`, `imageExtraction` and/or `historyRead`. The key is only returned here;
+ * only its hash is stored.
+ *
+ * @param {NextRequest} request - The incoming request object
+ * @returns {Promise<NextResponse>} Response with `{ key, apiKey }` or an error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { uid } = await requireAuth(request);
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const validation = readApiKeyRequest(body);
+    if (!validation.ok) {
+      return NextResponse.json({ error: 'Invalid API key request', details: validation.errors }, { status: 400 });
+    }
+
+    const created = await createApiKey(uid, validation.name, validation.scopes);
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'NO_AUTH') {
+      return createAuthResponse('Not signed in');
+    }
+    if (error instanceof Error && error.message === 'TOO_MANY_KEYS') {
+      return NextResponse.json({ error: `You can have at most ${MAX_ACTIVE_API_KEYS} active API keys` }, { status: 409 });
+    }
+    console.error('Error creating API key:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,13 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { requireAuth } from "@/lib/auth-utils";
-import { withCors } from "@/lib/cors";
-import { db } from "@/lib/firebaseAdmin";
+import { requireAuth } from "@/lib/auth";
+import { getQuotaStatus } from "@/lib/quota";
 
 export const runtime = 'nodejs';
 
 /**
  * Handles GET requests to retrieve current user information including plan and quota.
- * Requires authentication via session cookie.
+ * Requires a signed-in user (session cookie, Firebase ID token or app access token).
  * 
  * @param {NextRequest} req - The incoming request object
  * @returns {Promise<NextResponse>} Response with user data or 401 if not authenticated
@@ -15,29 +14,17 @@ export const runtime = 'nodejs';
 async function handler(req: NextRequest) {
   try {
     const user = await requireAuth(req);
-    const doc = await db.collection('users').doc(user.uid).get();
-    const data = doc.data() || { 
-      plan: "free", 
-      usage: { 
-        count: 0, 
-        date: new Date().toISOString().slice(0, 10)
-      } 
-    };
-    
-    const today = new Date().toISOString().slice(0, 10);
-    const remaining = data.plan === "pro"
-      ? null
-      : Math.max(0, 5 - (data.usage?.date === today ? (data.usage?.count || 0) : 0));
+    const quota = await getQuotaStatus(user.uid);
     
     return NextResponse.json({ 
       uid: user.uid, 
       email: user.email, 
-      plan: data.plan, 
-      remaining 
+      plan: quota.plan, 
+      remaining: quota.remaining 
     });
   } catch {
     return NextResponse.json({ error: "Not signed in" }, { status: 401 });
   }
 }
 
-export const GET = withCors(handler);
+export const GET = handler;
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, createAuthResponse, revokeSession } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Handles DELETE requests to sign out one of the user's sessions. Its session cookie,
+ * access token and refresh token are rejected from then on; ending the current session
+ * signs the caller out.
+ *
+ * @param {NextRequest} request - The incoming request object
+ * @param {{ params: { id: string } }} context - Route parameters with the session ID
+ * @returns {Promise<NextResponse>} 204 on success, or an error
+ */
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { uid } = await requireAuth(request);
+    const id = params.id;
+    if (!id || id.includes('/')) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const revoked = await revokeSession(uid, id, 'revoked');
+    if (!revoked) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'NO_AUTH') {
+      return createAuthResponse('Not signed in');
+    }
+    console.error('Error revoking session:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, createAuthResponse, currentSessionId, listSessions, revokeOtherSessions } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Handles GET requests to list where the user is signed in: website and extension
+ * session cookies and token sign-ins, most recently seen first. The session the request
+ * was made with is marked `current`.
+ *
+ * @param {NextRequest} request - The incoming request object
+ * @returns {Promise<NextResponse>} Response with `{ sessions }` or an error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const principal = await requireAuth(request);
+    const sessions = await listSessions(principal.uid, currentSessionId(request, principal));
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'NO_AUTH') {
+      return createAuthResponse('Not signed in');
+    }
+    console.error('Error listing sessions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Handles DELETE requests to sign out every other session, keeping the one the request
+ * was made with.
+ *
+ * @param {NextRequest} request - The incoming request object
+ * @returns {Promise<NextResponse>} Response with `{ revoked }`, the number of sessions ended, or an error
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const principal = await requireAuth(request);
+    const revoked = await revokeOtherSessions(principal.uid, 'revoked', currentSessionId(request, principal));
+    return NextResponse.json({ revoked });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'NO_AUTH') {
+      return createAuthResponse('Not signed in');
+    }
+    console.error('Error revoking sessions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
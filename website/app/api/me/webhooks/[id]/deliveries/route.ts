@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, createAuthResponse } from '@/lib/auth';
+import { listWebhookDeliveries } from '@/lib/webhooks';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Handles GET requests for the delivery log of one of the user's webhook endpoints:
+ * the 50 most recent deliveries, newest first, with every attempt's status code or error.
+ *
+ * @param {NextRequest} request - The incoming request object
+ * @param {{ params: { id: string } }} context - Route parameters with the webhook ID
+ * @returns {Promise<NextResponse>} Response with `{ deliveries }` or an error
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { uid } = await requireAuth(request);
+    const id = params.id;
+    if (!id || id.includes('/')) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const deliveries = await listWebhookDeliveries(uid, id);
+    if (!deliveries) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'NO_AUTH') {
+      return createAuthResponse('Not signed in');
+    }
+    console.error('Error listing webhook deliveries:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, createAuthResponse } from '@/lib/auth';
+import { deleteWebhook } from '@/lib/webhooks';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Handles DELETE requests to remove one of the user's webhook endpoints. Pending
+ * deliveries to it are not retried.
+ *
+ * @param {NextRequest} request - The incoming request object
+ * @param {{ params: { id: string } }} context - Route parameters with the webhook ID
+ * @returns {Promise<NextResponse>} Response with `{ success: true }` or an error
+ */
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { uid } = await requireAuth(request);
+    const id = params.id;
+    if (!id || id.includes('/')) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    if (!(await deleteWebhook(uid, id))) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'NO_AUTH') {
+      return createAuthResponse('Not signed in');
+    }
+    console.error('Error deleting webhook:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
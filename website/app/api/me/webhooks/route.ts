@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, createAuthResponse } from '@/lib/auth';
+import { createWebhook, listWebhooks, readWebhookRequest, MAX_WEBHOOKS } from '@/lib/webhooks';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Handles GET requests to list the user's webhook endpoints. Secrets are not included.
+ *
+ * @param {NextRequest} request - The incoming request object
+ * @returns {Promise<NextResponse>} Response with `{ webhooks }` or an error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { uid } = await requireAuth(request);
+    return NextResponse.json({ webhooks: await listWebhooks(uid) });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'NO_AUTH') {
+      return createAuthResponse('Not signed in');
+    }
+    console.error('Error listing webhooks:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Handles POST requests to register a webhook endpoint from `{ url, events, description? }`,
+ * where events are `check.completed`, `check.failed` and/or `quota.exhausted`. The signing
+ * secret is only returned here.
+ *
+ * @param {NextRequest} request - The incoming request object
+ * @returns {Promise<NextResponse>} Response with `{ secret, webhook }` or an error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { uid } = await requireAuth(request);
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const validation = readWebhookRequest(body);
+    if (!validation.ok) {
+      return NextResponse.json({ error: 'Invalid webhook request', details: validation.errors }, { status: 400 });
+    }
+
+    const created = await createWebhook(uid, validation.url, validation.events, validation.description);
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'NO_AUTH') {
+      return createAuthResponse('Not signed in');
+    }
+    if (error instanceof Error && error.message === 'PRIVATE_HOST') {
+      return NextResponse.json({ error: 'Invalid webhook request', details: ['url must not point to a private network'] }, { status: 400 });
+    }
+    if (error instanceof Error && error.message === 'TOO_MANY_WEBHOOKS') {
+      return NextResponse.json({ error: `You can have at most ${MAX_WEBHOOKS} webhooks` }, { status: 409 });
+    }
+    console.error('Error creating webhook:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { getPublicPermalink, revokePermalink } from "@/lib/permalinks";
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Handles a single permalink.
+ * GET returns the public snapshot to anyone with the slug; DELETE lets the owner revoke it.
+ * 
+ * @param {NextRequest} req - The incoming request object
+ * @param {{ params: { slug: string } }} context - Route parameters with the permalink slug
+ * @returns {Promise<NextResponse>} The public permalink, `{ revoked: true }`, or an error
+ */
+async function handler(req: NextRequest, { params }: { params: { slug: string } }) {
+  const slug = params.slug;
+  try {
+    if (req.method === 'DELETE') {
+      const user = await requireAuth(req);
+      const revoked = await revokePermalink(user.uid, slug);
+      if (!revoked) {
+        return NextResponse.json({ error: "Not found" }, { status: 404 });
+      }
+      return NextResponse.json({ revoked: true });
+    }
+
+    const permalink = await getPublicPermalink(slug);
+    if (!permalink) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json(permalink);
+  } catch (e: any) {
+    if (e?.message === "NO_AUTH") {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+    console.error('Error handling permalink:', e);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = handler;
+export const DELETE = handler;
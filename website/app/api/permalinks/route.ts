@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { publishCheck, listPermalinks } from "@/lib/permalinks";
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Handles the signed-in user's permalinks.
+ * GET lists them (including revoked ones); POST `{ historyId }` publishes a check from
+ * the user's history as an immutable public snapshot and returns its URL.
+ * 
+ * @param {NextRequest} req - The incoming request object
+ * @returns {Promise<NextResponse>} `{ permalinks }`, the published permalink, or an error
+ */
+async function handler(req: NextRequest) {
+  try {
+    const user = await requireAuth(req);
+
+    if (req.method === 'GET') {
+      return NextResponse.json({ permalinks: await listPermalinks(user.uid) });
+    }
+
+    const { historyId } = await req.json();
+    if (!historyId || typeof historyId !== "string" || historyId.includes('/')) {
+      return NextResponse.json({ error: "historyId is required" }, { status: 400 });
+    }
+
+    return NextResponse.json(await publishCheck(user.uid, historyId));
+  } catch (e: any) {
+    if (e?.message === "NO_AUTH") {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+    if (e?.message === "NOT_FOUND") {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    console.error('Error handling permalinks:', e);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = handler;
+export const POST = handler;
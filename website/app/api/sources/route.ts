@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SOURCE_REGISTRY, lookupSource } from "@/lib/source-registry";
+import { SOURCE_CATEGORIES } from "@/lib/fact-check-result";
+
+export const runtime = 'nodejs';
+
+const CACHE_CONTROL = "public, max-age=3600";
+
+/**
+ * Read-only access to the source credibility registry, used by the extension for outlet badges.
+ * `?url=` or `?domain=` looks up a single source (unknown domains are returned with
+ * `status: "unknown"`); otherwise the registry is listed, optionally filtered by `?category=`.
+ * The registry is public reference data, so no authentication is required.
+ *
+ * @param {NextRequest} req - The incoming request object
+ * @returns {Promise<NextResponse>} Response with a single reputation or the registry entries
+ */
+async function handler(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const target = searchParams.get('url') || searchParams.get('domain');
+
+  if (target) {
+    const reputation = lookupSource(target);
+    if (!reputation) {
+      return NextResponse.json({ error: "Invalid url or domain" }, { status: 400 });
+    }
+    return NextResponse.json({ reputation }, { headers: { "Cache-Control": CACHE_CONTROL } });
+  }
+
+  const category = searchParams.get('category');
+  if (category && !(SOURCE_CATEGORIES as readonly string[]).includes(category)) {
+    return NextResponse.json({ error: `category must be one of ${SOURCE_CATEGORIES.join(', ')}` }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    categories: SOURCE_CATEGORIES,
+    sources: category ? SOURCE_REGISTRY.filter((entry) => entry.category === category) : SOURCE_REGISTRY
+  }, { headers: { "Cache-Control": CACHE_CONTROL } });
+}
+
+export const GET = handler;
@@ -1,13 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/firebaseAdmin';
-import { requireAuth, createAuthResponse } from '@/lib/auth';
+import { requireAuth, createAuthResponse, ensureUserRecord } from '@/lib/auth';
 
 export const runtime = 'nodejs';
 
 /**
  * Handles POST requests to register a new user in Firestore.
  * Creates a user document with default pro plan if user doesn't already exist.
- * Requires authentication via Firebase ID token.
+ * Requires a signed-in user (Firebase ID token, app access token or session cookie).
  * 
  * @param {NextRequest} request - The incoming request object
  * @returns {Promise<NextResponse>} Response with success status and user data
@@ -23,32 +22,16 @@ export async function POST(request: NextRequest) {
     await new Promise(resolve => setTimeout(resolve, 2000)); // 2 seconds
     console.log('Proceeding with Firestore document creation...');
     
-    // Check if user already exists
-    const userDoc = await db.collection('users').doc(uid).get();
-    console.log(`User document exists: ${userDoc.exists}`);
-    
-    if (userDoc.exists) {
-      // User already exists, just return success
+    const { created, user } = await ensureUserRecord(uid, email);
+    if (!created) {
       console.log('User already registered in Firestore');
       return NextResponse.json({ 
         success: true, 
         message: 'User already registered',
-        user: userDoc.data()
+        user
       });
     }
     
-    // Create new user document - all users start as pro by default
-    const userData = {
-      uid,
-      email,
-      plan: 'pro',
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-    
-    console.log('Creating new user document in Firestore:', userData);
-    await db.collection('users').doc(uid).set(userData);
-    
     console.log(`Successfully created new user in Firestore: ${uid} (${email})`);
     
     return NextResponse.json({ 
@@ -56,14 +39,13 @@ export async function POST(request: NextRequest) {
       message: 'User registered successfully',
       user: {
         uid,
-        email,
-        plan: 'pro'
+        email: user.email,
+        plan: user.plan
       }
     });
   } catch (error) {
-    if (error instanceof Error && error.message.includes('authorization')) {
-      console.error('Authorization error:', error.message);
-      return createAuthResponse(error.message);
+    if (error instanceof Error && error.message === 'NO_AUTH') {
+      return createAuthResponse('Not signed in');
     }
     console.error('Error registering user:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -6,11 +6,326 @@ import { onAuthStateChanged, User } from 'firebase/auth';
 import { auth } from '@/lib/firebaseClient';
 import Link from 'next/link';
 
+interface UsageWindow {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+  resetsAt: string;
+}
+
+interface UsageMeter {
+  daily: UsageWindow;
+  monthly: UsageWindow;
+  burst: { limit: number; windowSeconds: number } | null;
+}
+
 interface UserLimits {
-  plan: 'free' | 'pro';
+  plan: 'free' | 'pro' | 'team' | 'enterprise';
+  planName: string;
   used: number;
   limit: number | null;
   resetsAt: string;
+  meters: {
+    factCheck: UsageMeter;
+    imageExtraction: UsageMeter;
+    claimExtraction: UsageMeter;
+  };
+}
+
+const METER_LABELS: Record<keyof UserLimits['meters'], string> = {
+  factCheck: 'Fact checks',
+  imageExtraction: 'Image extractions',
+  claimExtraction: 'Claim extractions'
+};
+
+type ApiKeyScope = 'factCheck' | 'imageExtraction' | 'historyRead';
+
+interface ApiKeySummary {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  prefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  usage: Record<keyof UserLimits['meters'], { daily: number; monthly: number }>;
+}
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  factCheck: 'Fact checks',
+  imageExtraction: 'Image extraction',
+  historyRead: 'Read history'
+};
+
+interface SessionSummary {
+  id: string;
+  kind: 'cookie' | 'token';
+  client: 'website' | 'extension';
+  userAgent: string | null;
+  region: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+const CLIENT_LABELS: Record<SessionSummary['client'], string> = {
+  website: 'Website',
+  extension: 'Browser extension'
+};
+
+/**
+ * Formats a usage window as "used / limit", or "used / Unlimited".
+ * 
+ * @param {UsageWindow} window - The usage window to format
+ * @returns {string} Human-readable usage string
+ */
+function formatUsage(window: UsageWindow) {
+  return `${window.used} / ${window.limit === null ? 'Unlimited' : window.limit}`;
+}
+
+/**
+ * Lists, creates and revokes the user's personal API keys. A new key is shown once,
+ * right after it is created.
+ * 
+ * @param {User} user - Firebase user object for authentication
+ * @returns {JSX.Element} The API keys section
+ */
+function ApiKeysSection({ user }: { user: User }) {
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['factCheck']);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Sends an authenticated request to the API key endpoints.
+   * 
+   * @param {string} path - Endpoint path
+   * @param {RequestInit} init - Fetch options
+   * @returns {Promise<Response>} The response
+   */
+  const request = async (path: string, init: RequestInit = {}) => {
+    const idToken = await user.getIdToken();
+    return fetch(path, {
+      ...init,
+      headers: { ...init.headers, 'Authorization': `Bearer ${idToken}`, 'Content-Type': 'application/json' }
+    });
+  };
+
+  /**
+   * Fetches the user's API keys, including revoked ones.
+   */
+  const loadKeys = async () => {
+    const response = await request('/api/me/api-keys');
+    if (response.ok) {
+      setKeys((await response.json()).keys);
+    }
+  };
+
+  /**
+   * Creates a key with the entered name and scopes and shows it once.
+   */
+  const createKey = async () => {
+    setError(null);
+    const response = await request('/api/me/api-keys', { method: 'POST', body: JSON.stringify({ name, scopes }) });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.details ? data.details.join('; ') : data.error);
+      return;
+    }
+    setNewKey(data.key);
+    setName('');
+    await loadKeys();
+  };
+
+  /**
+   * Revokes a key; requests made with it are rejected from then on.
+   * 
+   * @param {string} id - The key ID
+   */
+  const revokeKey = async (id: string) => {
+    setError(null);
+    const response = await request(`/api/me/api-keys/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    if (!response.ok) {
+      setError((await response.json()).error);
+      return;
+    }
+    await loadKeys();
+  };
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((current) => current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]);
+  };
+
+  useEffect(() => {
+    loadKeys().catch((err) => console.error('Error fetching API keys:', err));
+  }, [user]);
+
+  return (
+    <div style={{ marginBottom: '2rem', color: '#4a5568', fontSize: '0.875rem' }}>
+      <h3 style={{ color: '#2d3748', marginBottom: '0.5rem' }}>API Keys</h3>
+      <p style={{ color: '#718096', marginBottom: '1rem' }}>
+        Use a key with <code>Authorization: ApiKey &lt;key&gt;</code> to call the API from scripts. Usage counts against your plan.
+      </p>
+
+      {newKey && (
+        <div style={{ padding: '0.75rem', background: '#f0fff4', border: '1px solid #48bb78', borderRadius: '8px', marginBottom: '1rem', wordBreak: 'break-all' }}>
+          <strong>Copy your new key now; it will not be shown again:</strong>
+          <div style={{ fontFamily: 'monospace', marginTop: '0.5rem' }}>{newKey}</div>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', alignItems: 'center', marginBottom: '1rem' }}>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Key name"
+          maxLength={60}
+          style={{ flex: '1 1 10rem', padding: '0.5rem', border: '1px solid #e2e8f0', borderRadius: '6px' }}
+        />
+        {(Object.keys(SCOPE_LABELS) as ApiKeyScope[]).map((scope) => (
+          <label key={scope} style={{ whiteSpace: 'nowrap' }}>
+            <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} /> {SCOPE_LABELS[scope]}
+          </label>
+        ))}
+        <button className="btn btn-primary" onClick={createKey} disabled={!name.trim() || scopes.length === 0}>
+          Create key
+        </button>
+      </div>
+
+      {error && <p style={{ color: '#e53e3e', marginBottom: '1rem' }}>{error}</p>}
+
+      {keys.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ borderBottom: '1px solid #e2e8f0' }}>
+              <th style={{ textAlign: 'left', padding: '0.5rem' }}>Key</th>
+              <th style={{ textAlign: 'left', padding: '0.5rem' }}>Scopes</th>
+              <th style={{ textAlign: 'right', padding: '0.5rem' }}>Checks this month</th>
+              <th style={{ textAlign: 'right', padding: '0.5rem' }}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {keys.map((key) => (
+              <tr key={key.id} style={{ borderBottom: '1px solid #edf2f7', opacity: key.revokedAt ? 0.5 : 1 }}>
+                <td style={{ textAlign: 'left', padding: '0.5rem' }}>
+                  <div style={{ fontWeight: 600 }}>{key.name}</div>
+                  <div style={{ fontFamily: 'monospace', color: '#718096' }}>{key.prefix}…</div>
+                  <div style={{ color: '#718096', fontSize: '0.75rem' }}>
+                    {key.lastUsedAt ? `Last used ${new Date(key.lastUsedAt).toLocaleString()}` : 'Never used'}
+                  </div>
+                </td>
+                <td style={{ textAlign: 'left', padding: '0.5rem' }}>{key.scopes.map((scope) => SCOPE_LABELS[scope]).join(', ')}</td>
+                <td style={{ textAlign: 'right', padding: '0.5rem' }}>{key.usage.factCheck.monthly}</td>
+                <td style={{ textAlign: 'right', padding: '0.5rem' }}>
+                  {key.revokedAt ? 'Revoked' : (
+                    <button className="btn btn-secondary" onClick={() => revokeKey(key.id)}>Revoke</button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Lists where the user is signed in and lets them sign out individual sessions, or every
+ * session but the one they are using.
+ * 
+ * @param {User} user - Firebase user object for authentication
+ * @returns {JSX.Element} The sessions section
+ */
+function SessionsSection({ user }: { user: User }) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Sends an authenticated request to the session endpoints.
+   * 
+   * @param {string} path - Endpoint path
+   * @param {RequestInit} init - Fetch options
+   * @returns {Promise<Response>} The response
+   */
+  const request = async (path: string, init: RequestInit = {}) => {
+    const idToken = await user.getIdToken();
+    return fetch(path, { ...init, headers: { ...init.headers, 'Authorization': `Bearer ${idToken}` } });
+  };
+
+  /**
+   * Fetches the user's active sessions.
+   */
+  const loadSessions = async () => {
+    const response = await request('/api/me/sessions');
+    if (response.ok) {
+      setSessions((await response.json()).sessions);
+    }
+  };
+
+  /**
+   * Signs out one session, or all sessions but the current one when no ID is given.
+   * 
+   * @param {string} id - The session ID
+   */
+  const revoke = async (id?: string) => {
+    setError(null);
+    const path = id ? `/api/me/sessions/${encodeURIComponent(id)}` : '/api/me/sessions';
+    const response = await request(path, { method: 'DELETE' });
+    if (!response.ok) {
+      setError((await response.json()).error);
+      return;
+    }
+    await loadSessions();
+  };
+
+  useEffect(() => {
+    loadSessions().catch((err) => console.error('Error fetching sessions:', err));
+  }, [user]);
+
+  return (
+    <div style={{ marginBottom: '2rem', color: '#4a5568', fontSize: '0.875rem' }}>
+      <h3 style={{ color: '#2d3748', marginBottom: '0.5rem' }}>Sessions</h3>
+      <p style={{ color: '#718096', marginBottom: '1rem' }}>
+        Places where you are signed in. Sign out any you do not recognize.
+      </p>
+
+      {error && <p style={{ color: '#e53e3e', marginBottom: '1rem' }}>{error}</p>}
+
+      {sessions.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '1rem' }}>
+          <tbody>
+            {sessions.map((session) => (
+              <tr key={session.id} style={{ borderBottom: '1px solid #edf2f7' }}>
+                <td style={{ textAlign: 'left', padding: '0.5rem' }}>
+                  <div style={{ fontWeight: 600 }}>
+                    {CLIENT_LABELS[session.client]}{session.region ? ` · ${session.region}` : ''}
+                  </div>
+                  {session.userAgent && (
+                    <div style={{ color: '#718096', fontSize: '0.75rem', wordBreak: 'break-word' }}>{session.userAgent}</div>
+                  )}
+                  <div style={{ color: '#718096', fontSize: '0.75rem' }}>
+                    Signed in {new Date(session.createdAt).toLocaleString()} · Last active {new Date(session.lastSeenAt).toLocaleString()}
+                  </div>
+                </td>
+                <td style={{ textAlign: 'right', padding: '0.5rem', whiteSpace: 'nowrap' }}>
+                  {session.current ? 'This device' : (
+                    <button className="btn btn-secondary" onClick={() => revoke(session.id)}>Sign out</button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {sessions.some((session) => !session.current) && (
+        <button className="btn btn-secondary" onClick={() => revoke()}>Sign out all other sessions</button>
+      )}
+    </div>
+  );
 }
 
 /**
@@ -137,14 +452,49 @@ function BillingContent() {
                 </div>
               ) : (
                 <div>
-                  <h2 style={{ color: '#4a5568', marginBottom: '1rem' }}>Current Plan: Pro</h2>
-                  <p style={{ color: '#718096', marginBottom: '2rem' }}>
-                    You have unlimited access to all features.
-                  </p>
+                  <h2 style={{ color: '#4a5568', marginBottom: '1rem' }}>
+                    Current Plan: {userLimits?.planName || 'Free'}
+                  </h2>
+                  {userLimits?.meters && (
+                    <table style={{ width: '100%', borderCollapse: 'collapse', color: '#4a5568', fontSize: '0.875rem', marginBottom: '1rem' }}>
+                      <thead>
+                        <tr style={{ borderBottom: '1px solid #e2e8f0' }}>
+                          <th style={{ textAlign: 'left', padding: '0.5rem' }}>Meter</th>
+                          <th style={{ textAlign: 'right', padding: '0.5rem' }}>Today</th>
+                          <th style={{ textAlign: 'right', padding: '0.5rem' }}>This month</th>
+                          <th style={{ textAlign: 'right', padding: '0.5rem' }}>Burst</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {(Object.keys(METER_LABELS) as (keyof UserLimits['meters'])[]).map((key) => {
+                          const meter = userLimits.meters[key];
+                          return (
+                            <tr key={key} style={{ borderBottom: '1px solid #edf2f7' }}>
+                              <td style={{ textAlign: 'left', padding: '0.5rem' }}>{METER_LABELS[key]}</td>
+                              <td style={{ textAlign: 'right', padding: '0.5rem' }}>{formatUsage(meter.daily)}</td>
+                              <td style={{ textAlign: 'right', padding: '0.5rem' }}>{formatUsage(meter.monthly)}</td>
+                              <td style={{ textAlign: 'right', padding: '0.5rem' }}>
+                                {meter.burst ? `${meter.burst.limit} per ${meter.burst.windowSeconds}s` : 'None'}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+                  {userLimits?.resetsAt && (
+                    <p style={{ color: '#718096', fontSize: '0.75rem', marginBottom: '2rem' }}>
+                      Daily usage resets at {new Date(userLimits.resetsAt).toLocaleString()}
+                    </p>
+                  )}
                 </div>
               )}
             </div>
 
+            <ApiKeysSection user={user} />
+
+            <SessionsSection user={user} />
+
             <div style={{ 
               padding: '1.5rem', 
               border: '2px solid #48bb78', 
@@ -0,0 +1,193 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getPublicPermalink, getSiteUrl } from '@/lib/permalinks';
+import { Assessment, TemporalStatus } from '@/lib/fact-check-result';
+
+// Snapshots can be revoked at any time, so never serve a cached render
+export const dynamic = 'force-dynamic';
+
+interface PermalinkPageProps {
+  params: { slug: string };
+}
+
+const ASSESSMENT_COLORS: Record<Assessment, string> = {
+  'True': '#2f855a',
+  'Likely True': '#38a169',
+  'Mixed': '#d69e2e',
+  'Likely False': '#dd6b20',
+  'False': '#c53030',
+  'Unverifiable': '#718096'
+};
+
+const TEMPORAL_NOTES: Partial<Record<TemporalStatus, string>> = {
+  'outdated': 'Accurate when posted, but no longer accurate',
+  'since-confirmed': 'Not supported when posted, but has since been confirmed',
+  'prediction-pending': 'Prediction that has not resolved yet'
+};
+
+/**
+ * Shortens text for use in metadata descriptions.
+ *
+ * @param {string} text - The text to shorten
+ * @param {number} max - Maximum length
+ * @returns {string} The text, truncated with an ellipsis if needed
+ */
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Builds Open Graph and Twitter card metadata for a published fact-check.
+ * Unknown or revoked slugs get a generic, non-indexable title.
+ *
+ * @param {PermalinkPageProps} props - Route parameters
+ * @returns {Promise<Metadata>} Page metadata
+ */
+export async function generateMetadata({ params }: PermalinkPageProps): Promise<Metadata> {
+  const permalink = await getPublicPermalink(params.slug);
+  if (!permalink) {
+    return { title: 'Fact check not found', robots: { index: false } };
+  }
+
+  const { result, text } = permalink.snapshot;
+  const title = `Fact check: ${result.overallRating.assessment} (${result.overallRating.rating}/10)`;
+  const description = truncate(`${result.overallRating.explanation} — “${truncate(text, 140)}”`, 200);
+
+  return {
+    metadataBase: new URL(getSiteUrl()),
+    title,
+    description,
+    alternates: { canonical: permalink.url },
+    openGraph: {
+      type: 'article',
+      url: permalink.url,
+      title,
+      description,
+      siteName: 'Social Media Fact Checker',
+      publishedTime: permalink.publishedAt
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description
+    }
+  };
+}
+
+/**
+ * Public page for a published fact-check snapshot. Server-rendered from the
+ * immutable `publicChecks/{slug}` document; revoked or unknown slugs return 404.
+ *
+ * @param {PermalinkPageProps} props - Route parameters
+ * @returns {Promise<JSX.Element>} The permalink page
+ */
+export default async function PermalinkPage({ params }: PermalinkPageProps) {
+  const permalink = await getPublicPermalink(params.slug);
+  if (!permalink) {
+    notFound();
+  }
+
+  const { snapshot } = permalink;
+  const { overallRating, claims } = snapshot.result;
+
+  return (
+    <div>
+      <header className="header">
+        <div className="container">
+          <div className="header-content">
+            <Link href="/" className="logo">
+              🔍 Fact Checker
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main>
+        <div className="container">
+          <div className="card" style={{ maxWidth: '760px', margin: '2rem auto' }}>
+            <div style={{ textAlign: 'center', marginBottom: '1.5rem' }}>
+              <div style={{
+                display: 'inline-block',
+                padding: '0.5rem 1.25rem',
+                borderRadius: '999px',
+                background: ASSESSMENT_COLORS[overallRating.assessment],
+                color: 'white',
+                fontWeight: 700,
+                fontSize: '1.25rem'
+              }}>
+                {overallRating.assessment} · {overallRating.rating}/10
+              </div>
+              <p style={{ color: '#4a5568', marginTop: '1rem' }}>{overallRating.explanation}</p>
+              <p style={{ color: '#a0aec0', fontSize: '0.75rem', marginTop: '0.5rem' }}>
+                Confidence {Math.round(overallRating.confidence * 100)}% · Checked {new Date(snapshot.checkedAt).toUTCString()}
+              </p>
+            </div>
+
+            <blockquote style={{
+              borderLeft: '4px solid #e2e8f0',
+              padding: '0.75rem 1rem',
+              color: '#2d3748',
+              background: '#f7fafc',
+              borderRadius: '4px',
+              marginBottom: '1.5rem',
+              whiteSpace: 'pre-wrap'
+            }}>
+              {snapshot.text}
+              {snapshot.postUrl && (
+                <div style={{ marginTop: '0.5rem', fontSize: '0.75rem' }}>
+                  <a href={snapshot.postUrl} target="_blank" rel="noopener noreferrer nofollow" style={{ color: '#667eea' }}>
+                    View original post
+                  </a>
+                </div>
+              )}
+            </blockquote>
+
+            {claims.map((claim, index) => (
+              <section key={index} style={{ borderTop: '1px solid #edf2f7', padding: '1rem 0' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', alignItems: 'baseline' }}>
+                  <h2 style={{ fontSize: '1rem', color: '#2d3748' }}>{claim.claim}</h2>
+                  <span style={{ color: ASSESSMENT_COLORS[claim.assessment], fontWeight: 600, whiteSpace: 'nowrap' }}>
+                    {claim.assessment}
+                  </span>
+                </div>
+                {claim.temporalStatus && TEMPORAL_NOTES[claim.temporalStatus] && (
+                  <p style={{ color: '#718096', fontSize: '0.8125rem', marginTop: '0.5rem' }}>
+                    🕒 {TEMPORAL_NOTES[claim.temporalStatus]}
+                    {claim.assessmentAtPostDate && ` (at post date: ${claim.assessmentAtPostDate})`}
+                  </p>
+                )}
+                {claim.credibilityRating.explanation && (
+                  <p style={{ color: '#4a5568', fontSize: '0.875rem', marginTop: '0.5rem' }}>
+                    {claim.credibilityRating.explanation}
+                  </p>
+                )}
+                {claim.sources.length > 0 && (
+                  <ul style={{ marginTop: '0.5rem', paddingLeft: '1.25rem', fontSize: '0.875rem' }}>
+                    {claim.sources.map((source) => (
+                      <li key={source.url} style={{ marginBottom: '0.25rem' }}>
+                        <a href={source.url} target="_blank" rel="noopener noreferrer nofollow" style={{ color: '#667eea' }}>
+                          {source.title}
+                        </a>
+                        {source.reputation?.status === 'known' && (
+                          <span style={{ color: '#718096' }}> · {source.reputation.outlet}</span>
+                        )}
+                        {source.publishedAfterPost && (
+                          <span style={{ color: '#718096' }}> · published after post</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            ))}
+
+            <p style={{ color: '#a0aec0', fontSize: '0.75rem', textAlign: 'center', marginTop: '1rem' }}>
+              Published {new Date(permalink.publishedAt).toUTCString()}. This is a snapshot and is not updated.
+            </p>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
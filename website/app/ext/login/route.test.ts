@@ -0,0 +1,95 @@
+import { createHash, randomBytes } from 'crypto';
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeFirestore } from '@/test/fake-firestore';
+
+vi.mock('@/lib/firebaseAdmin', async () => {
+  const { FakeFirestore } = await import('@/test/fake-firestore');
+  return {
+    db: new FakeFirestore(),
+    adminAuth: {
+      verifyIdToken: async (token: string) => {
+        if (token !== 'valid-id-token') throw new Error('invalid');
+        return { uid: 'user123', email: 'user@example.com' };
+      }
+    }
+  };
+});
+
+import { db } from '@/lib/firebaseAdmin';
+import { exchangeExtensionLoginCode } from '@/lib/auth';
+import { GET } from './route';
+
+const REDIRECT_URI = 'https://abcdefghijklmnopabcdefghijklmnop.chromiumapp.org/';
+const DEVICE = { client: 'extension' as const, userAgent: null, region: null };
+
+/**
+ * Calls the login route.
+ *
+ * @param {Record<string, string>} params - Query parameters
+ * @param {boolean} signedIn - Whether to send a valid Firebase ID token
+ * @returns {Promise<Response>} The response
+ */
+function login(params: Record<string, string>, signedIn = true): Promise<Response> {
+  const url = new URL('http://localhost:3000/ext/login');
+  for (const [name, value] of Object.entries(params)) url.searchParams.set(name, value);
+  return GET(new NextRequest(url, { headers: signedIn ? { Authorization: 'Bearer valid-id-token' } : {} }));
+}
+
+/**
+ * Generates a PKCE code verifier and its S256 challenge.
+ *
+ * @returns {{ verifier: string, challenge: string }} The pair
+ */
+function pkcePair(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(32).toString('base64url');
+  return { verifier, challenge: createHash('sha256').update(verifier).digest('base64url') };
+}
+
+beforeEach(() => {
+  (db as unknown as FakeFirestore).clear();
+  process.env.APP_JWT_SECRET = 'test-secret';
+  process.env.EXTENSION_IDS = 'abcdefghijklmnopabcdefghijklmnop';
+});
+
+describe('GET /ext/login', () => {
+  it('sends a code that can be exchanged to the allow-listed redirect URI', async () => {
+    const { verifier, challenge } = pkcePair();
+    const response = await login({ redirect_uri: REDIRECT_URI, code_challenge: challenge, code_challenge_method: 'S256', state: 'xyz' });
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('referrer-policy')).toBe('no-referrer');
+    const location = new URL(response.headers.get('location')!);
+    expect(`${location.origin}${location.pathname}`).toBe(REDIRECT_URI);
+    expect(location.searchParams.get('state')).toBe('xyz');
+
+    const tokens = await exchangeExtensionLoginCode(location.searchParams.get('code')!, verifier, REDIRECT_URI, DEVICE);
+    expect(typeof tokens.access).toBe('string');
+  });
+
+  it('refuses a redirect URI that is not on the allow-list without redirecting', async () => {
+    const { challenge } = pkcePair();
+    for (const redirectUri of ['https://evil.example/callback', 'https://ponmlkjihgfedcbaponmlkjihgfedcba.chromiumapp.org/']) {
+      const response = await login({ redirect_uri: redirectUri, code_challenge: challenge, code_challenge_method: 'S256' });
+      expect(response.status).toBe(400);
+      expect(response.headers.get('location')).toBeNull();
+    }
+  });
+
+  it('reports a missing or plain code challenge to the extension', async () => {
+    const response = await login({ redirect_uri: REDIRECT_URI, code_challenge: 'plain', code_challenge_method: 'plain', state: 'xyz' });
+
+    const location = new URL(response.headers.get('location')!);
+    expect(location.searchParams.get('error')).toBe('invalid_request');
+    expect(location.searchParams.get('code')).toBeNull();
+  });
+
+  it('sends signed-out users to the login page first', async () => {
+    const { challenge } = pkcePair();
+    const response = await login({ redirect_uri: REDIRECT_URI, code_challenge: challenge, code_challenge_method: 'S256' }, false);
+
+    const location = new URL(response.headers.get('location')!);
+    expect(location.pathname).toBe('/login');
+    expect(location.searchParams.get('redirect_uri')).toMatch(/^\/ext\/login\?/);
+  });
+});
@@ -1,109 +1,66 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { adminAuth } from '@/lib/firebaseAdmin';
-import { signToken } from '@/lib/jwt';
+import { requireAuth, createExtensionLoginCode, isAllowedExtensionRedirect, isValidCodeChallenge, Principal } from '@/lib/auth';
 
 export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
 
 /**
- * Handles GET requests for extension login flow.
- * Verifies user authentication, creates app JWT token, and redirects to extension with token.
- * 
- * @param {NextRequest} request - The incoming request object with redirect_uri parameter
- * @returns {Promise<NextResponse>} Redirect response to extension with token in URL hash
+ * Redirects to the extension with query parameters added, e.g. the login code or an error.
+ * The response is not cached and sends no referrer, since the URL carries a code.
+ *
+ * @param {string} redirectUri - An allow-listed extension redirect URI
+ * @param {Record<string, string | null>} params - Parameters to add; null values are skipped
+ * @returns {NextResponse} The redirect response
+ */
+function redirectToExtension(redirectUri: string, params: Record<string, string | null>): NextResponse {
+  const redirectUrl = new URL(redirectUri);
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== null) redirectUrl.searchParams.set(name, value);
+  }
+  const response = NextResponse.redirect(redirectUrl.toString());
+  response.headers.set('Cache-Control', 'no-store');
+  response.headers.set('Referrer-Policy', 'no-referrer');
+  return response;
+}
+
+/**
+ * Handles GET requests for the extension login flow, an OAuth-style authorization code
+ * handoff with PKCE. Query: `redirect_uri` (must be allow-listed, see
+ * `isAllowedExtensionRedirect`), `code_challenge` with `code_challenge_method=S256`, and an
+ * optional `state` that is passed back. Signed-out users are sent to the login page first.
+ * The extension receives `?code=...&state=...` and exchanges the code at `/api/ext/token`.
+ *
+ * @param {NextRequest} request - The incoming request object
+ * @returns {Promise<NextResponse>} Redirect to the extension, to the login page, or a 400 for a bad redirect URI
  */
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
+    const { searchParams, pathname, search } = new URL(request.url);
     const redirectUri = searchParams.get('redirect_uri');
-    
-    if (!redirectUri) {
-      return NextResponse.json({ error: 'Missing redirect_uri parameter' }, { status: 400 });
+    const state = searchParams.get('state');
+
+    // Never redirect to a URI that is not allow-listed, not even with an error
+    if (!redirectUri || !isAllowedExtensionRedirect(redirectUri)) {
+      return NextResponse.json({ error: 'Invalid redirect_uri parameter' }, { status: 400 });
     }
 
-    // Get the Firebase session token from cookies or Authorization header
-    const authHeader = request.headers.get('authorization');
-    const sessionCookie = request.cookies.get('__session')?.value;
-    
-    let uid: string;
-    let email: string;
-    
-    if (authHeader?.startsWith('Bearer ')) {
-      // Handle Firebase ID token from Authorization header
-      const idToken = authHeader.substring(7);
-      try {
-        const decodedToken = await adminAuth.verifyIdToken(idToken);
-        uid = decodedToken.uid;
-        email = decodedToken.email || '';
-      } catch (error) {
-        console.error('Invalid ID token:', error);
-        return NextResponse.redirect(new URL(`/auth?redirect_uri=${encodeURIComponent(redirectUri)}`, request.url));
-      }
-    } else if (sessionCookie) {
-      // Handle Firebase session cookie
-      try {
-        const decodedToken = await adminAuth.verifySessionCookie(sessionCookie);
-        uid = decodedToken.uid;
-        email = decodedToken.email || '';
-      } catch (error) {
-        console.error('Invalid session cookie:', error);
-        return NextResponse.redirect(new URL(`/auth?redirect_uri=${encodeURIComponent(redirectUri)}`, request.url));
-      }
-    } else {
-      // No authentication found, redirect to login
-      return NextResponse.redirect(new URL(`/auth?redirect_uri=${encodeURIComponent(redirectUri)}`, request.url));
+    const codeChallenge = searchParams.get('code_challenge');
+    if (searchParams.get('code_challenge_method') !== 'S256' || !isValidCodeChallenge(codeChallenge)) {
+      return redirectToExtension(redirectUri, { error: 'invalid_request', state });
     }
 
-    // Create app JWT token
-    const appToken = signToken({ uid, email });
+    // Accept any signed-in credential: session cookie, Firebase ID token or app access token
+    let principal: Principal;
+    try {
+      principal = await requireAuth(request);
+    } catch {
+      return NextResponse.redirect(new URL(`/login?redirect_uri=${encodeURIComponent(pathname + search)}`, request.url));
+    }
 
-    // Redirect to extension with token
-    const redirectUrl = new URL(redirectUri);
-    redirectUrl.hash = `token=${appToken}`;
-    
-    const response = NextResponse.redirect(redirectUrl.toString());
-    
-    // Add CORS headers for extension compatibility
-    response.headers.set('Cross-Origin-Embedder-Policy', 'unsafe-none');
-    response.headers.set('Cross-Origin-Opener-Policy', 'unsafe-none');
-    response.headers.set('Cross-Origin-Resource-Policy', 'cross-origin');
-    response.headers.set('Access-Control-Allow-Origin', '*');
-    response.headers.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-    
-    return response;
-    
+    const code = await createExtensionLoginCode(principal, redirectUri, codeChallenge);
+    return redirectToExtension(redirectUri, { code, state });
   } catch (error) {
     console.error('Extension login error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
-
-/**
- * Handles POST requests for extension login (redirects to GET handler).
- * 
- * @param {NextRequest} request - The incoming request object
- * @returns {Promise<NextResponse>} Same as GET handler
- */
-export async function POST(request: NextRequest) {
-  return GET(request);
-}
-
-/**
- * Handles CORS preflight OPTIONS requests for the extension login endpoint.
- * 
- * @param {NextRequest} request - The incoming request object
- * @returns {NextResponse} Response with CORS headers
- */
-export async function OPTIONS(request: NextRequest) {
-  const response = new NextResponse(null, { status: 200 });
-  
-  // Add CORS headers
-  response.headers.set('Access-Control-Allow-Origin', '*');
-  response.headers.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  response.headers.set('Cross-Origin-Embedder-Policy', 'unsafe-none');
-  response.headers.set('Cross-Origin-Opener-Policy', 'unsafe-none');
-  response.headers.set('Cross-Origin-Resource-Policy', 'cross-origin');
-  
-  return response;
-}
@@ -6,6 +6,22 @@ import { signInWithPopup, onAuthStateChanged, User } from 'firebase/auth';
 import { auth, googleProvider } from '@/lib/firebaseClient';
 import Link from 'next/link';
 
+/**
+ * Resolves a `redirect_uri` against the current origin and keeps it only if it stays there.
+ *
+ * @param {string} redirectUri - The requested redirect target
+ * @returns {string | null} The path, query and hash to navigate to, or null if it leaves the site
+ */
+function localRedirectTarget(redirectUri: string): string | null {
+  try {
+    const target = new URL(redirectUri, window.location.origin);
+    if (target.origin !== window.location.origin) return null;
+    return `${target.pathname}${target.search}${target.hash}`;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Login form component that handles user authentication via Google Sign-In.
  * Manages authentication state, registration, and session creation.
@@ -86,16 +102,19 @@ function LoginForm() {
             
             // Check if this came from extension
             const fromExtension = searchParams.get('from') === 'extension';
+            // Only same-origin targets (e.g. back to /ext/login); anything else would be an open redirect.
+            // Resolve like the browser would, so tricks such as `/\t/evil.com` cannot slip past a prefix check.
             const redirectUri = searchParams.get('redirect_uri');
+            const redirectTarget = redirectUri ? localRedirectTarget(redirectUri) : null;
             
             if (fromExtension) {
               // Close the tab after a short delay for extension users
               setTimeout(() => {
                 window.close();
               }, 2000);
-            } else if (redirectUri) {
-              // Redirect to specified URI
-              window.location.href = redirectUri;
+            } else if (redirectTarget) {
+              // Redirect to specified path
+              window.location.href = redirectTarget;
             } else {
               // Default redirect to dashboard
               router.push('/');
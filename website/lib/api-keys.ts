@@ -0,0 +1,265 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from './firebaseAdmin';
+import { QUOTA_FEATURES, QuotaFeature } from './plans';
+import { apiKeyUsageStatus, ApiKeyUsageStatus } from './quota';
+
+/**
+ * What an API key may be used for. Keys never work on account management routes.
+ */
+export const API_KEY_SCOPES = ['factCheck', 'imageExtraction', 'historyRead'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+/**
+ * A personal API key, stored at apiKeys/{id}. Only the SHA-256 of the key is stored;
+ * the key itself is shown once at creation. Revoking keeps the document as a tombstone.
+ */
+export interface ApiKey {
+  id: string;
+  ownerUid: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  keyHash: string;
+  prefix: string; // First characters of the key, to recognize it in lists
+  createdAt: string; // ISO timestamp
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+/**
+ * What the owner sees when listing keys.
+ */
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  prefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  usage: Record<QuotaFeature, ApiKeyUsageStatus>;
+}
+
+/**
+ * The caller behind a request authenticated with an API key.
+ */
+export interface ApiKeyPrincipal {
+  uid: string;
+  apiKeyId: string;
+  scopes: ApiKeyScope[];
+}
+
+export type ApiKeyRequestValidation =
+  | { ok: true; name: string; scopes: ApiKeyScope[] }
+  | { ok: false; errors: string[] };
+
+export const API_KEY_COLLECTION = 'apiKeys';
+export const MAX_ACTIVE_API_KEYS = 10;
+
+const KEY_PREFIX = 'fck_';
+const MAX_NAME_LENGTH = 60;
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Returns the API key collection.
+ *
+ * @returns {FirebaseFirestore.CollectionReference} The apiKeys collection
+ */
+function apiKeysCollection() {
+  return db.collection(API_KEY_COLLECTION);
+}
+
+/**
+ * Hashes an API key for storage and lookup.
+ *
+ * @param {string} key - The plaintext key
+ * @returns {string} Hex SHA-256 digest
+ */
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generates a new key: a fixed prefix and 256 random bits, base64url-encoded.
+ *
+ * @returns {string} The plaintext key
+ */
+function generateKey(): string {
+  return KEY_PREFIX + randomBytes(32).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Checks whether a value is an API key scope (exact match).
+ *
+ * @param {unknown} value - The raw value
+ * @returns {boolean} True if the value is a scope
+ */
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * Converts a stored document into an API key.
+ *
+ * @param {FirebaseFirestore.DocumentSnapshot} doc - The apiKeys document
+ * @returns {ApiKey} The API key
+ */
+function toApiKey(doc: FirebaseFirestore.DocumentSnapshot): ApiKey {
+  const data = doc.data()!;
+  return {
+    id: doc.id,
+    ownerUid: data.ownerUid,
+    name: data.name,
+    scopes: (data.scopes || []).filter(isApiKeyScope),
+    keyHash: data.keyHash,
+    prefix: data.prefix,
+    createdAt: data.createdAt,
+    lastUsedAt: data.lastUsedAt || null,
+    revokedAt: data.revokedAt || null
+  };
+}
+
+/**
+ * Builds the owner's view of a key, with usage in the current day and month.
+ *
+ * @param {FirebaseFirestore.DocumentSnapshot} doc - The apiKeys document
+ * @returns {ApiKeySummary} The summary
+ */
+function toSummary(doc: FirebaseFirestore.DocumentSnapshot): ApiKeySummary {
+  const key = toApiKey(doc);
+  const stored = doc.data()!.usage || {};
+  const now = new Date();
+  const usage = {} as Record<QuotaFeature, ApiKeyUsageStatus>;
+  for (const feature of QUOTA_FEATURES) {
+    usage[feature] = apiKeyUsageStatus(stored[feature], now);
+  }
+  return {
+    id: key.id,
+    name: key.name,
+    scopes: key.scopes,
+    prefix: key.prefix,
+    createdAt: key.createdAt,
+    lastUsedAt: key.lastUsedAt,
+    revokedAt: key.revokedAt,
+    usage
+  };
+}
+
+/**
+ * Validates the body of a create-key request: `{ name, scopes }`.
+ *
+ * @param {any} body - The parsed request body
+ * @returns {ApiKeyRequestValidation} The name and scopes, or the validation errors
+ */
+export function readApiKeyRequest(body: any): ApiKeyRequestValidation {
+  const errors: string[] = [];
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (name.length === 0 || name.length > MAX_NAME_LENGTH) {
+    errors.push(`name must be 1-${MAX_NAME_LENGTH} characters`);
+  }
+
+  const scopes = body?.scopes;
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+    errors.push(`scopes must be a non-empty list of ${API_KEY_SCOPES.join(', ')}`);
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, name, scopes: Array.from(new Set(scopes as ApiKeyScope[])) };
+}
+
+/**
+ * Creates an API key for a user. The plaintext key is returned only here. The active
+ * key count is checked in the same transaction as the write, which also updates the
+ * user's `apiKeysUpdatedAt`, so parallel requests cannot create more keys than allowed.
+ *
+ * @param {string} uid - The owner's ID
+ * @param {string} name - A label chosen by the owner
+ * @param {ApiKeyScope[]} scopes - What the key may be used for
+ * @returns {Promise<{ key: string, apiKey: ApiKeySummary }>} The plaintext key and its summary
+ * @throws {Error} Throws error with message "TOO_MANY_KEYS" if the user already has the maximum number of active keys
+ */
+export async function createApiKey(uid: string, name: string, scopes: ApiKeyScope[]): Promise<{ key: string; apiKey: ApiKeySummary }> {
+  const key = generateKey();
+  const ref = apiKeysCollection().doc();
+  const userRef = db.collection('users').doc(uid);
+  const now = new Date().toISOString();
+  const stored: Omit<ApiKey, 'id'> = {
+    ownerUid: uid,
+    name,
+    scopes,
+    keyHash: hashKey(key),
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    createdAt: now,
+    lastUsedAt: null,
+    revokedAt: null
+  };
+
+  await db.runTransaction(async (tx) => {
+    // Reading and writing the user document makes concurrent creations conflict and retry
+    await tx.get(userRef);
+    const active = await tx.get(apiKeysCollection()
+      .where('ownerUid', '==', uid)
+      .where('revokedAt', '==', null));
+    if (active.size >= MAX_ACTIVE_API_KEYS) throw new Error("TOO_MANY_KEYS");
+
+    tx.set(ref, stored);
+    tx.set(userRef, { apiKeysUpdatedAt: now }, { merge: true });
+  });
+  return { key, apiKey: toSummary(await ref.get()) };
+}
+
+/**
+ * Lists a user's API keys, newest first, including revoked ones.
+ *
+ * @param {string} uid - The owner's ID
+ * @returns {Promise<ApiKeySummary[]>} The keys
+ */
+export async function listApiKeys(uid: string): Promise<ApiKeySummary[]> {
+  const snapshot = await apiKeysCollection().where('ownerUid', '==', uid).get();
+  return snapshot.docs
+    .map(toSummary)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Revokes one of a user's API keys. Requests with the key fail from then on.
+ *
+ * @param {string} uid - The owner's ID
+ * @param {string} id - The key ID
+ * @returns {Promise<ApiKeySummary | null>} The revoked key, or null if it does not exist or belongs to someone else
+ */
+export async function revokeApiKey(uid: string, id: string): Promise<ApiKeySummary | null> {
+  const ref = apiKeysCollection().doc(id);
+  const revoked = await db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (!doc.exists || doc.data()!.ownerUid !== uid) return false;
+    if (!doc.data()!.revokedAt) tx.update(ref, { revokedAt: new Date().toISOString() });
+    return true;
+  });
+  return revoked ? toSummary(await ref.get()) : null;
+}
+
+/**
+ * Resolves a plaintext API key to its owner. `lastUsedAt` is refreshed at most once a minute.
+ *
+ * @param {string} key - The plaintext key from the Authorization header
+ * @returns {Promise<ApiKeyPrincipal>} The key's owner, ID and scopes
+ * @throws {Error} Throws error with message "NO_AUTH" if the key is unknown or revoked
+ */
+export async function authenticateApiKey(key: string): Promise<ApiKeyPrincipal> {
+  if (!key.startsWith(KEY_PREFIX)) throw new Error("NO_AUTH");
+  const snapshot = await apiKeysCollection().where('keyHash', '==', hashKey(key)).limit(1).get();
+  if (snapshot.empty) throw new Error("NO_AUTH");
+
+  const apiKey = toApiKey(snapshot.docs[0]);
+  if (apiKey.revokedAt) throw new Error("NO_AUTH");
+
+  const now = Date.now();
+  if (!apiKey.lastUsedAt || now - new Date(apiKey.lastUsedAt).getTime() > LAST_USED_RESOLUTION_MS) {
+    snapshot.docs[0].ref.update({ lastUsedAt: new Date(now).toISOString() }).catch((error) => {
+      console.warn('API key lastUsedAt update failed:', error);
+    });
+  }
+
+  return { uid: apiKey.ownerUid, apiKeyId: apiKey.id, scopes: apiKey.scopes };
+}
@@ -0,0 +1,312 @@
+import { safeFetch } from './safe-fetch';
+import { canonicalizeUrl, decodeHtmlText, extractHtmlPublishedAt, extractHtmlTitle, sourceDedupeKey } from './source-resolver';
+import { truncateText } from './language';
+import { isValidUrl } from './url';
+import { LinkedArticle } from './fact-check-result';
+import { LinkedContent, PostContext, MAX_LINKS } from './post-context';
+
+/**
+ * The readable parts of an article page.
+ */
+export interface ExtractedArticle {
+  title: string | null;
+  byline: string | null;
+  siteName: string | null;
+  publishedAt: string | null;
+  text: string; // Main text, paragraphs separated by blank lines
+}
+
+/**
+ * A fetched article: metadata for the result and a digest of its text for prompts.
+ */
+export interface FetchedArticle {
+  article: LinkedArticle;
+  digest: string;
+}
+
+export interface ArticleFetcherOptions {
+  timeoutMs?: number;
+  maxBytes?: number;
+  digestLength?: number; // Characters of article text passed to prompts
+  allowPrivateHosts?: boolean; // Allow localhost and private IPs, e.g. for a local HTTP stand-in
+  cacheTtlMs?: number;
+  maxCacheEntries?: number;
+}
+
+export interface ArticleFetcher {
+  fetchArticles(urls: string[]): Promise<FetchedArticle[]>;
+}
+
+const FAILED_FETCH_TTL_MS = 5 * 60 * 1000;
+const MIN_PARAGRAPH_LENGTH = 30;
+
+/**
+ * Elements that never hold article text.
+ */
+const BOILERPLATE_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'nav', 'header', 'footer', 'aside', 'form', 'iframe', 'button', 'select'];
+
+/**
+ * Removes elements (with their content) and comments from HTML.
+ *
+ * @param {string} html - The HTML
+ * @returns {string} The HTML without boilerplate elements
+ */
+function stripBoilerplate(html: string): string {
+  let stripped = html.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of BOILERPLATE_ELEMENTS) {
+    stripped = stripped.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, 'gi'), ' ');
+  }
+  return stripped;
+}
+
+/**
+ * Converts an HTML fragment to plain text.
+ *
+ * @param {string} html - The fragment
+ * @returns {string} Decoded text with tags removed
+ */
+function htmlToText(html: string): string {
+  return decodeHtmlText(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, ' '));
+}
+
+/**
+ * Picks the part of the page most likely to hold the article: the longest `<article>`,
+ * then `<main>`, then `<body>`.
+ *
+ * @param {string} html - The page without boilerplate
+ * @returns {string} The region's HTML
+ */
+function findMainRegion(html: string): string {
+  const articles = html.match(/<article\b[\s\S]*?<\/article>/gi);
+  if (articles && articles.length > 0) {
+    return articles.reduce((a, b) => (b.length > a.length ? b : a));
+  }
+  const main = html.match(/<main\b[\s\S]*?<\/main>/i);
+  if (main) return main[0];
+  const body = html.match(/<body\b[\s\S]*<\/body>/i);
+  return body ? body[0] : html;
+}
+
+/**
+ * Reads a meta tag's content by `property`, `name` or `itemprop`, in either attribute order.
+ *
+ * @param {string} html - The page HTML
+ * @param {string} key - The meta key, e.g. "og:site_name"
+ * @returns {string | null} The decoded content, or null if absent
+ */
+function metaContent(html: string, key: string): string | null {
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = html.match(new RegExp(`<meta[^>]+(?:property|name|itemprop)=["']${escaped}["'][^>]*content=["']([^"']+)["']`, 'i')) ||
+    html.match(new RegExp(`<meta[^>]+content=["']([^"']+)["'][^>]*(?:property|name|itemprop)=["']${escaped}["']`, 'i'));
+  const value = match ? decodeHtmlText(match[1]) : '';
+  return value.length > 0 ? value : null;
+}
+
+/**
+ * Finds the article's author from meta tags, schema.org data, `rel="author"` links
+ * or a byline element. Profile URLs are not accepted as names.
+ *
+ * @param {string} html - The page HTML
+ * @returns {string | null} The byline, or null if none was found
+ */
+function extractByline(html: string): string | null {
+  const candidates = [
+    metaContent(html, 'author'),
+    metaContent(html, 'article:author'),
+    html.match(/"author"\s*:\s*(?:\[\s*)?\{[^}]*?"name"\s*:\s*"([^"]+)"/)?.[1],
+    html.match(/"author"\s*:\s*"([^"]+)"/)?.[1],
+    html.match(/<a[^>]+rel=["']author["'][^>]*>([\s\S]*?)<\/a>/i)?.[1],
+    html.match(/<[a-z]+[^>]+class=["'][^"']*byline[^"']*["'][^>]*>([\s\S]*?)<\/[a-z]+>/i)?.[1]
+  ];
+  for (const candidate of candidates) {
+    const text = candidate ? htmlToText(candidate).replace(/^by\s+/i, '') : '';
+    if (text.length > 0 && text.length <= 200 && !/^https?:\/\//i.test(text)) return text;
+  }
+  return null;
+}
+
+/**
+ * Extracts the title, byline, site name, publication time and main text of an article page.
+ * Main text is the page's paragraphs inside its article region, skipping navigation,
+ * footers, scripts and other boilerplate; pages without paragraphs fall back to the region's text.
+ *
+ * @param {string} html - The page HTML
+ * @returns {ExtractedArticle} The extracted article
+ */
+export function extractArticle(html: string): ExtractedArticle {
+  const region = findMainRegion(stripBoilerplate(html));
+  const paragraphs = (region.match(/<p\b[^>]*>[\s\S]*?<\/p>/gi) || [])
+    .map(htmlToText)
+    .filter((p) => p.length >= MIN_PARAGRAPH_LENGTH);
+
+  return {
+    title: extractHtmlTitle(html),
+    byline: extractByline(html),
+    siteName: metaContent(html, 'og:site_name'),
+    publishedAt: extractHtmlPublishedAt(html),
+    text: paragraphs.length > 0 ? paragraphs.join('\n\n') : htmlToText(region)
+  };
+}
+
+/**
+ * Finds http(s) URLs in free text, without trailing punctuation.
+ *
+ * @param {string} text - The text to scan
+ * @returns {string[]} Valid URLs in order of appearance
+ */
+export function findUrls(text: string): string[] {
+  return (text.match(/https?:\/\/[^\s<>"']+/gi) || [])
+    .map((url) => url.replace(/[.,;:!?)\]]+$/, ''))
+    .filter((url) => isValidUrl(url));
+}
+
+/**
+ * Counts the words in article text.
+ *
+ * @param {string} text - The article text
+ * @returns {number} Number of whitespace-separated words
+ */
+function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed.length > 0 ? trimmed.split(/\s+/).length : 0;
+}
+
+/**
+ * Creates a fetcher that reads linked articles through the SSRF-safe fetch: every hop is
+ * checked against private networks, each article gets a time budget and a byte cap, and
+ * only HTML is read. Results (including failures, briefly) are cached per instance.
+ *
+ * @param {ArticleFetcherOptions} options - Time, size, digest and cache settings
+ * @returns {ArticleFetcher} The fetcher
+ */
+export function createArticleFetcher(options: ArticleFetcherOptions = {}): ArticleFetcher {
+  const timeoutMs = options.timeoutMs ?? 5000;
+  const maxBytes = options.maxBytes ?? 1024 * 1024;
+  const digestLength = options.digestLength ?? 3000;
+  const cacheTtlMs = options.cacheTtlMs ?? 60 * 60 * 1000;
+  const maxCacheEntries = options.maxCacheEntries ?? 500;
+  const cache = new Map<string, { fetched: FetchedArticle | null; expiresAt: number }>();
+
+  function remember(key: string, fetched: FetchedArticle | null, ttlMs: number) {
+    if (cache.size >= maxCacheEntries) {
+      // Map iterates in insertion order, so the first key is the oldest entry
+      const oldest = cache.keys().next().value;
+      if (oldest !== undefined) cache.delete(oldest);
+    }
+    cache.set(key, { fetched, expiresAt: Date.now() + ttlMs });
+  }
+
+  async function fetchOne(url: string): Promise<FetchedArticle | null> {
+    const cached = cache.get(url);
+    if (cached && cached.expiresAt > Date.now()) return cached.fetched;
+
+    try {
+      const page = await safeFetch(url, { timeoutMs, maxBytes, readTypes: ['html'], allowPrivateHosts: options.allowPrivateHosts });
+      if (!page.body) {
+        console.warn('Linked article not readable:', url, { status: page.status, contentType: page.contentType });
+        remember(url, null, FAILED_FETCH_TTL_MS);
+        return null;
+      }
+
+      const extracted = extractArticle(page.body);
+      const fetched: FetchedArticle = {
+        article: {
+          url,
+          resolvedUrl: canonicalizeUrl(page.url),
+          title: extracted.title,
+          byline: extracted.byline,
+          siteName: extracted.siteName,
+          publishedAt: extracted.publishedAt,
+          wordCount: countWords(extracted.text)
+        },
+        digest: truncateText(extracted.text, digestLength)
+      };
+      remember(url, fetched, cacheTtlMs);
+      return fetched;
+    } catch (error: any) {
+      console.warn('Linked article fetch failed:', url, error?.message || error);
+      remember(url, null, FAILED_FETCH_TTL_MS);
+      return null;
+    }
+  }
+
+  return {
+    async fetchArticles(urls: string[]) {
+      const fetched = await Promise.all(urls.map(fetchOne));
+      return fetched.filter((f): f is FetchedArticle => f !== null);
+    }
+  };
+}
+
+let cachedFetcher: ArticleFetcher | null = null;
+
+/**
+ * Returns the fetcher configured from the environment: ARTICLE_FETCH_TIMEOUT_MS (default 5000),
+ * ARTICLE_FETCH_MAX_BYTES (default 1 MiB) and ARTICLE_FETCH_ALLOW_PRIVATE_HOSTS.
+ * Created once per server instance.
+ *
+ * @returns {ArticleFetcher} The configured fetcher
+ */
+export function getArticleFetcher(): ArticleFetcher {
+  if (!cachedFetcher) {
+    const timeoutMs = parseInt(process.env.ARTICLE_FETCH_TIMEOUT_MS || '5000', 10);
+    const maxBytes = parseInt(process.env.ARTICLE_FETCH_MAX_BYTES || String(1024 * 1024), 10);
+    cachedFetcher = createArticleFetcher({
+      timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : 5000,
+      maxBytes: Number.isFinite(maxBytes) && maxBytes > 0 ? maxBytes : 1024 * 1024,
+      allowPrivateHosts: process.env.ARTICLE_FETCH_ALLOW_PRIVATE_HOSTS === 'true'
+    });
+  }
+  return cachedFetcher;
+}
+
+/**
+ * Fetches the articles linked from a post (its `links` and any URLs in its text, up to
+ * MAX_LINKS) and folds their title, byline, date and a digest of their text into the
+ * post context. Links that cannot be fetched keep whatever the client sent.
+ * Never throws: article reading only adds context.
+ *
+ * @param {PostContext} context - The validated post context
+ * @param {string} text - The sanitized post text
+ * @param {ArticleFetcher} fetcher - The fetcher to use (defaults to the configured one)
+ * @returns {Promise<{ context: PostContext, articles: LinkedArticle[] }>} The enriched context and the fetched articles' metadata
+ */
+export async function readLinkedArticles(
+  context: PostContext,
+  text: string,
+  fetcher: ArticleFetcher = getArticleFetcher()
+): Promise<{ context: PostContext; articles: LinkedArticle[] }> {
+  const seen = new Set(context.links.map((link) => sourceDedupeKey(link.url)));
+  const links: LinkedContent[] = [...context.links];
+  for (const url of findUrls(text)) {
+    const key = sourceDedupeKey(url);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    links.push({ url, title: null, text: null });
+  }
+  const selected = links.slice(0, MAX_LINKS);
+  if (selected.length === 0) return { context, articles: [] };
+
+  const fetched = await fetcher.fetchArticles(selected.map((link) => link.url)).catch((error) => {
+    console.warn('Linked article fetching failed:', error);
+    return [] as FetchedArticle[];
+  });
+  const byUrl = new Map(fetched.map((f) => [f.article.url, f]));
+
+  const enrichedLinks = selected.map((link): LinkedContent => {
+    const found = byUrl.get(link.url);
+    if (!found) return link;
+    return {
+      url: link.url,
+      title: found.article.title || link.title,
+      text: found.digest || link.text,
+      byline: found.article.byline,
+      publishedAt: found.article.publishedAt
+    };
+  });
+
+  return {
+    context: { ...context, links: enrichedLinks },
+    articles: fetched.map((f) => f.article)
+  };
+}
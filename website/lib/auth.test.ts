@@ -0,0 +1,144 @@
+import { createHash, randomBytes } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeFirestore } from '@/test/fake-firestore';
+
+vi.mock('./firebaseAdmin', async () => {
+  const { FakeFirestore } = await import('@/test/fake-firestore');
+  return { db: new FakeFirestore(), adminAuth: {} };
+});
+
+import { db } from './firebaseAdmin';
+import {
+  createExtensionLoginCode,
+  exchangeExtensionLoginCode,
+  isAllowedExtensionRedirect,
+  isValidCodeChallenge,
+  listSessions,
+  SessionDevice,
+  verifyAccessToken
+} from './auth';
+
+const EXTENSION_ID = 'abcdefghijklmnopabcdefghijklmnop';
+const REDIRECT_URI = `https://${EXTENSION_ID}.chromiumapp.org/`;
+const DEVICE: SessionDevice = { client: 'extension', userAgent: 'test', region: null };
+const PRINCIPAL = { uid: 'user123', email: 'user@example.com', method: 'session' as const };
+
+/**
+ * Generates a PKCE code verifier and its S256 challenge.
+ *
+ * @returns {{ verifier: string, challenge: string }} The pair
+ */
+function pkcePair(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(32).toString('base64url');
+  return { verifier, challenge: createHash('sha256').update(verifier).digest('base64url') };
+}
+
+beforeEach(() => {
+  (db as unknown as FakeFirestore).clear();
+  process.env.APP_JWT_SECRET = 'test-secret';
+  process.env.EXTENSION_IDS = EXTENSION_ID;
+  process.env.EXTENSION_REDIRECT_URIS = 'https://login.example.com/extension/callback';
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('isAllowedExtensionRedirect', () => {
+  it('accepts the chromiumapp.org URL of an allow-listed extension', () => {
+    expect(isAllowedExtensionRedirect(REDIRECT_URI)).toBe(true);
+    expect(isAllowedExtensionRedirect(`${REDIRECT_URI}callback`)).toBe(true);
+  });
+
+  it('accepts exact EXTENSION_REDIRECT_URIS entries only', () => {
+    expect(isAllowedExtensionRedirect('https://login.example.com/extension/callback')).toBe(true);
+    expect(isAllowedExtensionRedirect('https://login.example.com/extension/callback/../other')).toBe(false);
+    expect(isAllowedExtensionRedirect('https://login.example.com/extension')).toBe(false);
+  });
+
+  it('rejects redirect URIs that are not on the allow-list', () => {
+    expect(isAllowedExtensionRedirect('https://ponmlkjihgfedcbaponmlkjihgfedcba.chromiumapp.org/')).toBe(false);
+    expect(isAllowedExtensionRedirect(`https://${EXTENSION_ID}.chromiumapp.org.evil.example/`)).toBe(false);
+    expect(isAllowedExtensionRedirect(`http://${EXTENSION_ID}.chromiumapp.org/`)).toBe(false);
+    expect(isAllowedExtensionRedirect(`https://${EXTENSION_ID}.chromiumapp.org:8443/`)).toBe(false);
+    expect(isAllowedExtensionRedirect(`https://user@${EXTENSION_ID}.chromiumapp.org/`)).toBe(false);
+    expect(isAllowedExtensionRedirect(`${REDIRECT_URI}?next=https://evil.example`)).toBe(false);
+    expect(isAllowedExtensionRedirect(`${REDIRECT_URI}#fragment`)).toBe(false);
+    expect(isAllowedExtensionRedirect('https://evil.example/')).toBe(false);
+    expect(isAllowedExtensionRedirect('not a url')).toBe(false);
+  });
+
+  it('rejects every extension when EXTENSION_IDS is empty', () => {
+    process.env.EXTENSION_IDS = '';
+    expect(isAllowedExtensionRedirect(REDIRECT_URI)).toBe(false);
+  });
+});
+
+describe('isValidCodeChallenge', () => {
+  it('accepts S256 challenges only', () => {
+    expect(isValidCodeChallenge(pkcePair().challenge)).toBe(true);
+    expect(isValidCodeChallenge('plain-verifier')).toBe(false);
+    expect(isValidCodeChallenge(null)).toBe(false);
+  });
+});
+
+describe('exchangeExtensionLoginCode', () => {
+  it('issues tokens for a new token session', async () => {
+    const { verifier, challenge } = pkcePair();
+    const code = await createExtensionLoginCode(PRINCIPAL, REDIRECT_URI, challenge);
+
+    const tokens = await exchangeExtensionLoginCode(code, verifier, REDIRECT_URI, DEVICE);
+    const principal = await verifyAccessToken(tokens.access);
+
+    expect(principal).toMatchObject({ uid: 'user123', email: 'user@example.com', method: 'accessToken' });
+    const sessions = await listSessions('user123');
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({ id: principal.sessionId, kind: 'token', client: 'extension' });
+  });
+
+  it('rejects a wrong code verifier and uses the code up', async () => {
+    const { verifier, challenge } = pkcePair();
+    const code = await createExtensionLoginCode(PRINCIPAL, REDIRECT_URI, challenge);
+
+    await expect(exchangeExtensionLoginCode(code, pkcePair().verifier, REDIRECT_URI, DEVICE)).rejects.toThrow('INVALID_GRANT');
+    await expect(exchangeExtensionLoginCode(code, verifier, REDIRECT_URI, DEVICE)).rejects.toThrow('INVALID_GRANT');
+    expect(await listSessions('user123')).toHaveLength(0);
+  });
+
+  it('rejects a malformed code verifier', async () => {
+    const { challenge } = pkcePair();
+    const code = await createExtensionLoginCode(PRINCIPAL, REDIRECT_URI, challenge);
+    await expect(exchangeExtensionLoginCode(code, 'short', REDIRECT_URI, DEVICE)).rejects.toThrow('INVALID_GRANT');
+  });
+
+  it('rejects a different redirect URI than the code was sent to', async () => {
+    const { verifier, challenge } = pkcePair();
+    const code = await createExtensionLoginCode(PRINCIPAL, REDIRECT_URI, challenge);
+    await expect(exchangeExtensionLoginCode(code, verifier, `${REDIRECT_URI}other`, DEVICE)).rejects.toThrow('INVALID_GRANT');
+  });
+
+  it('rejects an expired code', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { verifier, challenge } = pkcePair();
+    const code = await createExtensionLoginCode(PRINCIPAL, REDIRECT_URI, challenge);
+
+    vi.setSystemTime(Date.now() + 61 * 1000);
+    await expect(exchangeExtensionLoginCode(code, verifier, REDIRECT_URI, DEVICE)).rejects.toThrow('INVALID_GRANT');
+    expect(await listSessions('user123')).toHaveLength(0);
+  });
+
+  it('rejects an unknown code', async () => {
+    await expect(exchangeExtensionLoginCode('unknown', pkcePair().verifier, REDIRECT_URI, DEVICE)).rejects.toThrow('INVALID_GRANT');
+  });
+
+  it('fails a second exchange of the same code and revokes the session it started', async () => {
+    const { verifier, challenge } = pkcePair();
+    const code = await createExtensionLoginCode(PRINCIPAL, REDIRECT_URI, challenge);
+    const tokens = await exchangeExtensionLoginCode(code, verifier, REDIRECT_URI, DEVICE);
+
+    await expect(exchangeExtensionLoginCode(code, verifier, REDIRECT_URI, DEVICE)).rejects.toThrow('INVALID_GRANT');
+    await expect(verifyAccessToken(tokens.access)).rejects.toThrow('NO_AUTH');
+    expect(await listSessions('user123')).toHaveLength(0);
+  });
+});
@@ -1,43 +1,437 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken, JWTPayload } from './jwt';
-import { adminAuth } from './firebaseAdmin';
+import { NextResponse } from 'next/server';
+import jwt from 'jsonwebtoken';
+import { createHash, randomBytes } from 'crypto';
+import { adminAuth, db } from './firebaseAdmin';
+import { authenticateApiKey, ApiKeyScope } from './api-keys';
 
 /**
- * Requires authentication by verifying either a Firebase ID token or custom JWT from the request.
- * First attempts Firebase token verification, then falls back to custom JWT verification.
- * 
- * @param {NextRequest} request - The incoming Next.js request object
- * @returns {Promise<JWTPayload>} Object containing uid and email from the verified token
- * @throws {Error} Throws error if authorization header is missing, invalid, or token verification fails
+ * How a request proved who it is from.
  */
-export async function requireAuth(request: NextRequest): Promise<JWTPayload> {
-  const authHeader = request.headers.get('authorization');
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    throw new Error('Missing or invalid authorization header');
+export type AuthMethod = 'session' | 'idToken' | 'accessToken' | 'apiKey';
+
+/**
+ * The caller of a request, whatever credential it used. `apiKeyId` and `scopes` are set
+ * for API keys only; `email` is unknown for API keys. `sessionId` is set for session
+ * cookies and app access tokens, the credentials listed in the sessions registry.
+ */
+export interface Principal {
+  uid: string;
+  email?: string;
+  method: AuthMethod;
+  apiKeyId?: string;
+  scopes?: ApiKeyScope[]; // Scopes of the API key, if one was used
+  sessionId?: string;
+}
+
+/**
+ * Access and refresh tokens issued to clients that cannot use the session cookie.
+ */
+export interface TokenPair {
+  access: string;
+  refresh: string;
+}
+
+/**
+ * Which client a session was signed in from.
+ */
+export type SessionClient = 'website' | 'extension';
+
+/**
+ * Why a session stopped working. `revoked` means the user ended it from the sessions list.
+ */
+export type SessionRevocationReason = 'logout' | 'reuse' | 'signOutEverywhere' | 'revoked';
+
+/**
+ * Where a sign-in came from, as recorded on its session.
+ */
+export interface SessionDevice {
+  client: SessionClient;
+  userAgent: string | null;
+  region: string | null; // e.g. "Lisbon, 11, PT", from the hosting platform's IP geolocation headers
+}
+
+/**
+ * A signed-in session, stored at users/{uid}/sessions/{id}. Session cookies are keyed by
+ * the SHA-256 of the cookie. Token sessions are refresh token families: every token sign-in
+ * starts one and every refresh replaces `currentJti`, so only the newest refresh token of a
+ * session works. Access tokens name their session and stop working with it.
+ */
+interface StoredSession extends SessionDevice {
+  kind: 'cookie' | 'token';
+  currentJti: string | null; // Token sessions only
+  previousJti: string | null; // Accepted for a few seconds after rotation, for concurrent refreshes
+  createdAt: string; // ISO timestamp
+  lastSeenAt: string;
+  rotatedAt: string | null;
+  revokedAt: string | null;
+  revokedReason: SessionRevocationReason | null;
+  expireAt: Date; // Firestore TTL field; moved forward on every refresh for token sessions
+}
+
+/**
+ * What the user sees when listing their sessions. `current` marks the session the
+ * listing request was made with.
+ */
+export interface SessionSummary extends SessionDevice {
+  id: string;
+  kind: 'cookie' | 'token';
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+/**
+ * A single-use extension login code, stored at extensionLoginCodes/{sha256 of the code}.
+ * `/ext/login` hands the code to an allow-listed extension redirect URI, and the extension
+ * exchanges it with the PKCE code verifier for tokens. Every exchange attempt uses the
+ * code up; `sessionId` names the token session it started, which is revoked if the code
+ * is presented again.
+ */
+interface ExtensionLoginCode {
+  uid: string;
+  email: string | null;
+  redirectUri: string;
+  codeChallenge: string; // base64url SHA-256 of the code verifier (PKCE S256)
+  createdAt: string; // ISO timestamp
+  usedAt: string | null;
+  sessionId: string | null;
+  expireAt: Date; // Firestore TTL field; the code is rejected after this
+}
+
+export const SESSION_COOKIE = '__session';
+export const REFRESH_COOKIE = 'rt';
+
+const SESSION_MAX_AGE_SECONDS = 14 * 24 * 60 * 60;
+const REFRESH_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+const ACCESS_TOKEN_TTL = '45m';
+const REFRESH_REUSE_GRACE_MS = 10 * 1000;
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+const MAX_USER_AGENT_LENGTH = 300;
+const EXTENSION_LOGIN_CODE_TTL_MS = 60 * 1000;
+const CODE_CHALLENGE_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9._~-]{43,128}$/;
+
+/**
+ * Returns the secret app tokens are signed with.
+ *
+ * @returns {string} The APP_JWT_SECRET value
+ * @throws {Error} Throws error if APP_JWT_SECRET environment variable is not set
+ */
+function jwtSecret(): string {
+  const secret = process.env.APP_JWT_SECRET;
+  if (!secret) {
+    throw new Error('APP_JWT_SECRET environment variable is required');
   }
+  return secret;
+}
+
+/**
+ * Reads one cookie from a request's Cookie header.
+ *
+ * @param {Request} request - The incoming request object
+ * @param {string} name - The cookie name
+ * @returns {string | null} The decoded cookie value, or null if it is not set
+ */
+export function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('cookie') || '';
+  for (const part of header.split(/; */)) {
+    const index = part.indexOf('=');
+    if (index > 0 && part.slice(0, index) === name) {
+      try {
+        return decodeURIComponent(part.slice(index + 1));
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
 
-  const token = authHeader.substring(7);
-  
+/**
+ * Returns the user's sessions collection.
+ *
+ * @param {string} uid - The user's ID
+ * @returns {FirebaseFirestore.CollectionReference} The users/{uid}/sessions collection
+ */
+function sessions(uid: string) {
+  return db.collection('users').doc(uid).collection('sessions');
+}
+
+/**
+ * Returns the registry ID of a session cookie. Only the hash is stored, so the registry
+ * cannot be used to impersonate a session.
+ *
+ * @param {string} sessionCookie - The `__session` cookie value
+ * @returns {string} Hex SHA-256 digest of the cookie
+ */
+function cookieSessionId(sessionCookie: string): string {
+  return createHash('sha256').update(sessionCookie).digest('hex');
+}
+
+/**
+ * Describes the device a request comes from. Requests from a browser extension origin
+ * are attributed to the extension whatever the route says.
+ *
+ * @param {Request} request - The incoming request object
+ * @param {SessionClient} client - The client the signing-in route serves
+ * @returns {SessionDevice} Client, user agent and approximate region
+ */
+export function describeDevice(request: Request, client: SessionClient): SessionDevice {
+  const origin = request.headers.get('origin') || '';
+  const city = request.headers.get('x-vercel-ip-city');
+  let decodedCity: string | null = null;
   try {
-    // First try to verify as Firebase ID token
-    const decodedToken = await adminAuth.verifyIdToken(token);
-    return {
-      uid: decodedToken.uid,
-      email: decodedToken.email || ''
-    };
-  } catch (firebaseError) {
-    // If Firebase verification fails, try as custom JWT
+    decodedCity = city ? decodeURIComponent(city) : null;
+  } catch {
+    decodedCity = city;
+  }
+  const region = [decodedCity, request.headers.get('x-vercel-ip-country-region'), request.headers.get('x-vercel-ip-country')]
+    .filter(Boolean)
+    .join(', ');
+  return {
+    client: origin.startsWith('chrome-extension://') ? 'extension' : client,
+    userAgent: request.headers.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH) || null,
+    region: region || null
+  };
+}
+
+/**
+ * Builds a new session record.
+ *
+ * @param {'cookie' | 'token'} kind - Session cookie or token session
+ * @param {SessionDevice} device - Where the sign-in came from
+ * @param {Date} expiresAt - When the session's credential expires
+ * @returns {StoredSession} The session record
+ */
+function newSession(kind: 'cookie' | 'token', device: SessionDevice, expiresAt: Date): StoredSession {
+  const now = new Date().toISOString();
+  return {
+    kind,
+    client: device.client,
+    userAgent: device.userAgent,
+    region: device.region,
+    currentJti: null,
+    previousJti: null,
+    createdAt: now,
+    lastSeenAt: now,
+    rotatedAt: null,
+    revokedAt: null,
+    revokedReason: null,
+    expireAt: expiresAt
+  };
+}
+
+/**
+ * Checks that a session was not revoked and refreshes its `lastSeenAt`, at most once
+ * every five minutes.
+ *
+ * @param {string} uid - The user's ID
+ * @param {string} id - The session ID
+ * @param {() => StoredSession} register - Builds the record if the session is not registered yet
+ * @returns {Promise<void>}
+ * @throws {Error} Throws error with message "NO_AUTH" if the session is revoked, or unknown and cannot be registered
+ */
+async function checkSession(uid: string, id: string, register?: () => StoredSession): Promise<void> {
+  const ref = sessions(uid).doc(id);
+  const doc = await ref.get();
+  if (!doc.exists) {
+    if (!register) throw new Error("NO_AUTH");
+    await ref.create(register()).catch((error) => {
+      // ALREADY_EXISTS: a concurrent request registered it first
+      if (error?.code !== 6) throw error;
+    });
+    return;
+  }
+
+  const stored = doc.data() as StoredSession;
+  if (stored.revokedAt) throw new Error("NO_AUTH");
+  const now = Date.now();
+  if (now - new Date(stored.lastSeenAt).getTime() > LAST_SEEN_RESOLUTION_MS) {
+    ref.update({ lastSeenAt: new Date(now).toISOString() }).catch((error) => {
+      console.warn('Session lastSeenAt update failed:', error);
+    });
+  }
+}
+
+/**
+ * Generates a token ID.
+ *
+ * @returns {string} 32 random hex characters
+ */
+function newTokenId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Signs a short-lived app access token (45 minutes) bound to a token session.
+ *
+ * @param {string} uid - The user's ID
+ * @param {string | undefined} email - The user's email, if known
+ * @param {string} family - The token session ID
+ * @returns {string} Signed access token
+ */
+function signAccessToken(uid: string, email: string | undefined, family: string): string {
+  return jwt.sign({ sub: uid, email, typ: 'access', fam: family }, jwtSecret(), {
+    algorithm: 'HS256',
+    expiresIn: ACCESS_TOKEN_TTL
+  });
+}
+
+/**
+ * Signs a refresh token (30 days) for one generation of a token session.
+ *
+ * @param {string} uid - The user's ID
+ * @param {string | undefined} email - The user's email, if known
+ * @param {string} family - The token session ID
+ * @param {string} jti - The token ID, matched against the session's `currentJti`
+ * @returns {string} Signed refresh token
+ */
+function signRefreshToken(uid: string, email: string | undefined, family: string, jti: string): string {
+  return jwt.sign({ sub: uid, email, typ: 'refresh', fam: family }, jwtSecret(), {
+    algorithm: 'HS256',
+    expiresIn: REFRESH_MAX_AGE_SECONDS,
+    jwtid: jti
+  });
+}
+
+/**
+ * Verifies an app token's signature and reads its claims.
+ *
+ * @param {string} token - The token
+ * @param {'access' | 'refresh'} type - The expected token type
+ * @param {boolean} ignoreExpiration - Accept expired tokens, e.g. to revoke them on logout
+ * @returns {{ uid: string, email?: string, family: string, jti?: string }} The token's claims
+ * @throws {Error} Throws error with message "NO_AUTH" if the token is invalid, expired or of another type
+ */
+function readAppToken(
+  token: string,
+  type: 'access' | 'refresh',
+  ignoreExpiration = false
+): { uid: string; email?: string; family: string; jti?: string } {
+  let payload: any;
+  try {
+    payload = jwt.verify(token, jwtSecret(), { algorithms: ['HS256'], ignoreExpiration });
+  } catch {
+    throw new Error("NO_AUTH");
+  }
+  if (payload?.typ !== type || typeof payload.sub !== 'string' || typeof payload.fam !== 'string') {
+    throw new Error("NO_AUTH");
+  }
+  return { uid: payload.sub, email: payload.email || undefined, family: payload.fam, jti: payload.jti };
+}
+
+/**
+ * Verifies an app access token and checks that its session was not revoked.
+ * This costs one Firestore read per request, which is what makes logout effective
+ * before the token expires.
+ *
+ * @param {string} token - The access token
+ * @returns {Promise<Principal>} The token's user
+ * @throws {Error} Throws error with message "NO_AUTH" if the token is invalid, expired or revoked
+ */
+export async function verifyAccessToken(token: string): Promise<Principal> {
+  const { uid, email, family } = readAppToken(token, 'access');
+  await checkSession(uid, family);
+  return { uid, email, method: 'accessToken', sessionId: family };
+}
+
+/**
+ * Verifies a Firebase ID token, including whether the user signed out everywhere since.
+ *
+ * @param {string} idToken - The Firebase ID token
+ * @returns {Promise<Principal>} The token's user
+ * @throws {Error} Throws error with message "NO_AUTH" if the token is invalid or expired
+ */
+export async function verifyIdToken(idToken: string): Promise<Principal> {
+  try {
+    const decoded = await adminAuth.verifyIdToken(idToken, true);
+    return { uid: decoded.uid, email: decoded.email || undefined, method: 'idToken' };
+  } catch {
+    throw new Error("NO_AUTH");
+  }
+}
+
+/**
+ * Verifies a Firebase session cookie, including whether it was revoked in Firebase or in
+ * the sessions registry. Cookies created before the registry existed are registered on
+ * first use.
+ *
+ * @param {string} sessionCookie - The `__session` cookie value
+ * @param {Request} request - The request the cookie came with
+ * @returns {Promise<Principal>} The session's user
+ * @throws {Error} Throws error with message "NO_AUTH" if the cookie is invalid, expired or revoked
+ */
+export async function verifySession(sessionCookie: string, request: Request): Promise<Principal> {
+  let decoded;
+  try {
+    decoded = await adminAuth.verifySessionCookie(sessionCookie, true);
+  } catch {
+    throw new Error("NO_AUTH");
+  }
+  const sessionId = cookieSessionId(sessionCookie);
+  await checkSession(decoded.uid, sessionId, () =>
+    newSession('cookie', describeDevice(request, 'website'), new Date(decoded.exp * 1000))
+  );
+  return { uid: decoded.uid, email: decoded.email || undefined, method: 'session', sessionId };
+}
+
+/**
+ * Verifies a bearer token, which is either an app access token (HS256) or a Firebase
+ * ID token (RS256), told apart by the token's algorithm.
+ *
+ * @param {string} token - The bearer token
+ * @returns {Promise<Principal>} The token's user
+ * @throws {Error} Throws error with message "NO_AUTH" if the token is invalid or expired
+ */
+async function verifyBearerToken(token: string): Promise<Principal> {
+  const decoded = jwt.decode(token, { complete: true });
+  if (decoded?.header?.alg === 'HS256') return verifyAccessToken(token);
+  return verifyIdToken(token);
+}
+
+/**
+ * Requires an authenticated caller. Every protected route uses this, and all of them accept
+ * the same credentials: an `Authorization: Bearer` app access token or Firebase ID token,
+ * or the `__session` cookie. If both a bearer token and the cookie are sent, the first that
+ * verifies wins, so a stale token does not hide a valid session.
+ *
+ * Routes that name the scopes they accept also take an `Authorization: ApiKey <key>`
+ * header; the key must have one of those scopes. Routes without scopes reject API keys.
+ *
+ * @param {Request} request - The incoming request object
+ * @param {ApiKeyScope | ApiKeyScope[]} scope - Scopes that allow API key access to the route
+ * @returns {Promise<Principal>} The caller
+ * @throws {Error} Throws error with message "NO_AUTH" if no credential verifies,
+ *   or "FORBIDDEN" if the API key lacks the required scope
+ */
+export async function requireAuth(request: Request, scope?: ApiKeyScope | ApiKeyScope[]): Promise<Principal> {
+  const authHeader = request.headers.get('authorization') || '';
+  if (/^ApiKey /i.test(authHeader)) {
+    if (!scope) throw new Error("NO_AUTH");
+    const principal = await authenticateApiKey(authHeader.slice(7).trim()).catch(() => {
+      throw new Error("NO_AUTH");
+    });
+    const accepted = Array.isArray(scope) ? scope : [scope];
+    if (!accepted.some((s) => principal.scopes.includes(s))) throw new Error("FORBIDDEN");
+    return { uid: principal.uid, method: 'apiKey', apiKeyId: principal.apiKeyId, scopes: principal.scopes };
+  }
+
+  if (/^Bearer /i.test(authHeader)) {
     try {
-      return verifyToken(token);
-    } catch (jwtError) {
-      throw new Error('Invalid token format');
+      return await verifyBearerToken(authHeader.slice(7).trim());
+    } catch {
+      // Fall through to the session cookie
     }
   }
+
+  const sessionCookie = readCookie(request, SESSION_COOKIE);
+  if (sessionCookie) return verifySession(sessionCookie, request);
+  throw new Error("NO_AUTH");
 }
 
 /**
  * Creates a standardized authentication error response.
- * 
+ *
  * @param {string} error - The error message to include in the response
  * @param {number} status - HTTP status code (defaults to 401 Unauthorized)
  * @returns {NextResponse} Next.js response object with error JSON
@@ -45,3 +439,451 @@ export async function requireAuth(request: NextRequest): Promise<JWTPayload> {
 export function createAuthResponse(error: string, status: number = 401) {
   return NextResponse.json({ error }, { status });
 }
+
+/**
+ * Creates a Firebase session cookie (14 days) from a Firebase ID token and registers it
+ * in the sessions registry.
+ *
+ * @param {string} idToken - Firebase ID token to convert to a session cookie
+ * @param {SessionDevice} device - Where the sign-in came from
+ * @returns {Promise<{ principal: Principal, sessionCookie: string }>} The user and the session cookie value
+ * @throws {Error} Throws error with message "NO_AUTH" if the ID token is invalid
+ */
+export async function createSession(idToken: string, device: SessionDevice): Promise<{ principal: Principal; sessionCookie: string }> {
+  const principal = await verifyIdToken(idToken);
+  const sessionCookie = await adminAuth.createSessionCookie(idToken, { expiresIn: SESSION_MAX_AGE_SECONDS * 1000 });
+  const sessionId = cookieSessionId(sessionCookie);
+  await sessions(principal.uid).doc(sessionId).set(
+    newSession('cookie', device, new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000))
+  );
+  return { principal: { ...principal, method: 'session', sessionId }, sessionCookie };
+}
+
+/**
+ * Starts a token session and issues its first access and refresh tokens.
+ *
+ * @param {string} uid - The user's ID
+ * @param {string} email - The user's email, if known
+ * @param {SessionDevice} device - Where the sign-in came from
+ * @returns {Promise<TokenPair>} The new tokens
+ */
+export async function issueTokens(uid: string, email: string | undefined, device: SessionDevice): Promise<TokenPair> {
+  const ref = sessions(uid).doc();
+  const jti = newTokenId();
+  await ref.set(newTokenSession(device, jti));
+  return { access: signAccessToken(uid, email, ref.id), refresh: signRefreshToken(uid, email, ref.id, jti) };
+}
+
+/**
+ * Builds the record of a new token session.
+ *
+ * @param {SessionDevice} device - Where the sign-in came from
+ * @param {string} jti - The ID of the session's first refresh token
+ * @returns {StoredSession} The session record
+ */
+function newTokenSession(device: SessionDevice, jti: string): StoredSession {
+  const session = newSession('token', device, new Date(Date.now() + REFRESH_MAX_AGE_SECONDS * 1000));
+  return { ...session, currentJti: jti };
+}
+
+/**
+ * Exchanges a refresh token for a new access token and a new refresh token, which
+ * replaces the old one. Presenting a refresh token that was already exchanged means it
+ * was copied, so the whole session is revoked and its holder must sign in again. The
+ * previous token is still honoured for a few seconds after rotation, so two refreshes
+ * racing from the same client do not sign it out.
+ *
+ * @param {string} refreshToken - The refresh token
+ * @returns {Promise<TokenPair>} The new tokens
+ * @throws {Error} Throws error with message "NO_AUTH" if the refresh token is invalid, expired, revoked or reused
+ */
+export async function rotateRefreshToken(refreshToken: string): Promise<TokenPair> {
+  const { uid, email, family, jti } = readAppToken(refreshToken, 'refresh');
+  if (!jti) throw new Error("NO_AUTH");
+  const ref = sessions(uid).doc(family);
+
+  const outcome = await db.runTransaction(async (tx): Promise<{ jti: string } | { reused: boolean }> => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) return { reused: false };
+    const stored = doc.data() as StoredSession;
+    if (stored.revokedAt || !stored.currentJti) return { reused: false };
+
+    const now = new Date();
+    if (jti === stored.currentJti) {
+      const next = newTokenId();
+      tx.update(ref, {
+        currentJti: next,
+        previousJti: jti,
+        rotatedAt: now.toISOString(),
+        lastSeenAt: now.toISOString(),
+        expireAt: new Date(now.getTime() + REFRESH_MAX_AGE_SECONDS * 1000)
+      });
+      return { jti: next };
+    }
+    const withinGrace = jti === stored.previousJti && !!stored.rotatedAt &&
+      now.getTime() - new Date(stored.rotatedAt).getTime() < REFRESH_REUSE_GRACE_MS;
+    if (withinGrace) return { jti: stored.currentJti };
+
+    tx.update(ref, { revokedAt: now.toISOString(), revokedReason: 'reuse' });
+    return { reused: true };
+  });
+
+  if (!('jti' in outcome)) {
+    if (outcome.reused) console.warn(`Refresh token reuse detected; revoked token session ${family} of user ${uid}`);
+    throw new Error("NO_AUTH");
+  }
+  return { access: signAccessToken(uid, email, family), refresh: signRefreshToken(uid, email, family, outcome.jti) };
+}
+
+/**
+ * Returns the extension login code collection.
+ *
+ * @returns {FirebaseFirestore.CollectionReference} The extensionLoginCodes collection
+ */
+function extensionLoginCodes() {
+  return db.collection('extensionLoginCodes');
+}
+
+/**
+ * Reads a comma-separated list from an environment variable.
+ *
+ * @param {string} name - The environment variable
+ * @returns {string[]} The trimmed, non-empty entries
+ */
+function envList(name: string): string[] {
+  return (process.env[name] || '').split(',').map((entry) => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Checks an extension login redirect URI against the allow-list: the
+ * `https://<id>.chromiumapp.org/` URLs of the extensions in `EXTENSION_IDS` (what
+ * `chrome.identity.getRedirectURL()` returns), or an exact entry of `EXTENSION_REDIRECT_URIS`.
+ * Redirect URIs with a query string or fragment are rejected.
+ *
+ * @param {string} redirectUri - The requested redirect URI
+ * @returns {boolean} True if login codes may be sent there
+ */
+export function isAllowedExtensionRedirect(redirectUri: string): boolean {
+  if (envList('EXTENSION_REDIRECT_URIS').includes(redirectUri)) return true;
+
+  let url: URL;
+  try {
+    url = new URL(redirectUri);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.username || url.password || url.port || url.search || url.hash) return false;
+  const match = /^([a-p]{32})\.chromiumapp\.org$/.exec(url.hostname);
+  return !!match && envList('EXTENSION_IDS').includes(match[1]);
+}
+
+/**
+ * Checks a PKCE code challenge: a base64url SHA-256 digest, as the S256 method requires.
+ *
+ * @param {unknown} codeChallenge - The `code_challenge` parameter
+ * @returns {boolean} True if it is well formed
+ */
+export function isValidCodeChallenge(codeChallenge: unknown): codeChallenge is string {
+  return typeof codeChallenge === 'string' && CODE_CHALLENGE_PATTERN.test(codeChallenge);
+}
+
+/**
+ * Issues a single-use login code for the extension (valid for 60 seconds), bound to the
+ * redirect URI it is sent to and to the extension's PKCE code challenge.
+ *
+ * @param {Principal} principal - The signed-in user
+ * @param {string} redirectUri - An allow-listed extension redirect URI
+ * @param {string} codeChallenge - The PKCE S256 code challenge
+ * @returns {Promise<string>} The code
+ */
+export async function createExtensionLoginCode(principal: Principal, redirectUri: string, codeChallenge: string): Promise<string> {
+  const code = randomBytes(32).toString('base64url');
+  const now = new Date();
+  const record: ExtensionLoginCode = {
+    uid: principal.uid,
+    email: principal.email || null,
+    redirectUri,
+    codeChallenge,
+    createdAt: now.toISOString(),
+    usedAt: null,
+    sessionId: null,
+    expireAt: new Date(now.getTime() + EXTENSION_LOGIN_CODE_TTL_MS)
+  };
+  await extensionLoginCodes().doc(createHash('sha256').update(code).digest('hex')).set(record);
+  return code;
+}
+
+/**
+ * Exchanges an extension login code for an access and refresh token, starting a token
+ * session. The redirect URI must be the one the code was issued for and the code verifier
+ * must hash to its code challenge. A code works once: presenting it again fails and
+ * revokes the session it started, since the code must have been intercepted.
+ *
+ * @param {string} code - The login code
+ * @param {string} codeVerifier - The PKCE code verifier
+ * @param {string} redirectUri - The redirect URI the code was sent to
+ * @param {SessionDevice} device - Where the exchange comes from
+ * @returns {Promise<TokenPair>} The new tokens
+ * @throws {Error} Throws error with message "INVALID_GRANT" if the code is unknown, expired,
+ *   already used, or does not match the redirect URI or code verifier
+ */
+export async function exchangeExtensionLoginCode(
+  code: string,
+  codeVerifier: string,
+  redirectUri: string,
+  device: SessionDevice
+): Promise<TokenPair> {
+  if (!CODE_VERIFIER_PATTERN.test(codeVerifier)) throw new Error("INVALID_GRANT");
+  const ref = extensionLoginCodes().doc(createHash('sha256').update(code).digest('hex'));
+  const challenge = createHash('sha256').update(codeVerifier).digest('base64url');
+
+  const outcome = await db.runTransaction(async (tx): Promise<
+    { issued: { uid: string; email?: string; sessionId: string; jti: string } } | { replayed: { uid: string; sessionId: string } | null }
+  > => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) return { replayed: null };
+    const stored = doc.data() as ExtensionLoginCode;
+    if (stored.usedAt) {
+      return { replayed: stored.sessionId ? { uid: stored.uid, sessionId: stored.sessionId } : null };
+    }
+
+    const now = new Date();
+    const valid = toDate(stored.expireAt).getTime() > now.getTime() &&
+      stored.redirectUri === redirectUri &&
+      stored.codeChallenge === challenge;
+    if (!valid) {
+      tx.update(ref, { usedAt: now.toISOString() });
+      return { replayed: null };
+    }
+
+    const sessionRef = sessions(stored.uid).doc();
+    const jti = newTokenId();
+    tx.set(sessionRef, newTokenSession(device, jti));
+    tx.update(ref, { usedAt: now.toISOString(), sessionId: sessionRef.id });
+    return { issued: { uid: stored.uid, email: stored.email || undefined, sessionId: sessionRef.id, jti } };
+  });
+
+  if (!('issued' in outcome)) {
+    if (outcome.replayed) {
+      console.warn(`Extension login code replayed; revoked token session ${outcome.replayed.sessionId} of user ${outcome.replayed.uid}`);
+      await revokeSession(outcome.replayed.uid, outcome.replayed.sessionId, 'reuse');
+    }
+    throw new Error("INVALID_GRANT");
+  }
+  const { uid, email, sessionId, jti } = outcome.issued;
+  return { access: signAccessToken(uid, email, sessionId), refresh: signRefreshToken(uid, email, sessionId, jti) };
+}
+
+/**
+ * Converts a Firestore timestamp, as read back from a `Date` field, to a `Date`.
+ *
+ * @param {any} value - A Firestore Timestamp or Date
+ * @returns {Date} The date
+ */
+function toDate(value: any): Date {
+  return typeof value?.toDate === 'function' ? value.toDate() : new Date(value);
+}
+
+/**
+ * Lists the user's active sessions, most recently seen first.
+ *
+ * @param {string} uid - The user's ID
+ * @param {string} currentId - The session the listing request was made with, if any
+ * @returns {Promise<SessionSummary[]>} The sessions that are neither revoked nor expired
+ */
+export async function listSessions(uid: string, currentId?: string): Promise<SessionSummary[]> {
+  const snapshot = await sessions(uid).where('revokedAt', '==', null).get();
+  const now = Date.now();
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, stored: doc.data() as StoredSession }))
+    .filter(({ stored }) => toDate(stored.expireAt).getTime() > now)
+    .map(({ id, stored }) => ({
+      id,
+      kind: stored.kind,
+      client: stored.client,
+      userAgent: stored.userAgent,
+      region: stored.region,
+      createdAt: stored.createdAt,
+      lastSeenAt: stored.lastSeenAt,
+      current: id === currentId
+    }))
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+}
+
+/**
+ * Returns the session a request is made with. Pages that call the API with a Firebase ID
+ * token also send the session cookie, which identifies their session.
+ *
+ * @param {Request} request - The incoming request object
+ * @param {Principal} principal - The caller, as returned by `requireAuth`
+ * @returns {string | undefined} The session ID, if the request carries a session credential
+ */
+export function currentSessionId(request: Request, principal: Principal): string | undefined {
+  if (principal.sessionId) return principal.sessionId;
+  const sessionCookie = readCookie(request, SESSION_COOKIE);
+  return sessionCookie ? cookieSessionId(sessionCookie) : undefined;
+}
+
+/**
+ * Revokes one session. Revoking an already revoked session keeps the first reason.
+ *
+ * @param {string} uid - The user's ID
+ * @param {string} id - The session ID
+ * @param {SessionRevocationReason} reason - Why the session is revoked
+ * @returns {Promise<boolean>} False if the session does not exist
+ */
+export async function revokeSession(uid: string, id: string, reason: SessionRevocationReason): Promise<boolean> {
+  const ref = sessions(uid).doc(id);
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) return false;
+    if (!(doc.data() as StoredSession).revokedAt) {
+      tx.update(ref, { revokedAt: new Date().toISOString(), revokedReason: reason });
+    }
+    return true;
+  });
+}
+
+/**
+ * Revokes all of the user's sessions except one, e.g. the one the request came from.
+ *
+ * @param {string} uid - The user's ID
+ * @param {SessionRevocationReason} reason - Why the sessions are revoked
+ * @param {string} exceptId - A session to keep, if any
+ * @returns {Promise<number>} How many sessions were revoked
+ */
+export async function revokeOtherSessions(uid: string, reason: SessionRevocationReason, exceptId?: string): Promise<number> {
+  const active = await sessions(uid).where('revokedAt', '==', null).get();
+  const now = new Date().toISOString();
+  const batch = db.batch();
+  const revoked = active.docs.filter((doc) => doc.id !== exceptId);
+  revoked.forEach((doc) => batch.update(doc.ref, { revokedAt: now, revokedReason: reason }));
+  await batch.commit();
+  return revoked.length;
+}
+
+/**
+ * Signs a user out of every device: revokes all sessions and Firebase refresh tokens,
+ * which also invalidates every Firebase ID token issued so far.
+ *
+ * @param {string} uid - The user's ID
+ * @returns {Promise<void>}
+ */
+export async function signOutEverywhere(uid: string): Promise<void> {
+  await Promise.all([revokeOtherSessions(uid, 'signOutEverywhere'), adminAuth.revokeRefreshTokens(uid)]);
+}
+
+/**
+ * Signs the caller out: revokes the sessions of the session cookie, the refresh cookie,
+ * the refresh token passed in and the bearer access token, whichever are present, even if
+ * expired. With `everywhere`, the caller must be signed in and every credential of the
+ * user is revoked.
+ *
+ * @param {Request} request - The incoming request object
+ * @param {{ everywhere?: boolean, refreshToken?: string }} options - Sign out of all devices, and a refresh token sent in the body
+ * @returns {Promise<void>}
+ * @throws {Error} Throws error with message "NO_AUTH" if `everywhere` is set and the caller is not signed in
+ */
+export async function signOut(request: Request, options: { everywhere?: boolean; refreshToken?: string } = {}): Promise<void> {
+  if (options.everywhere) {
+    const principal = await requireAuth(request);
+    await signOutEverywhere(principal.uid);
+    return;
+  }
+
+  const sessionCookie = readCookie(request, SESSION_COOKIE);
+  if (sessionCookie) {
+    try {
+      const decoded = await adminAuth.verifySessionCookie(sessionCookie);
+      await revokeSession(decoded.uid, cookieSessionId(sessionCookie), 'logout');
+    } catch {
+      // Invalid or expired: nothing to revoke
+    }
+  }
+
+  const authHeader = request.headers.get('authorization') || '';
+  const candidates: Array<[string | null | undefined, 'access' | 'refresh']> = [
+    [readCookie(request, REFRESH_COOKIE), 'refresh'],
+    [options.refreshToken, 'refresh'],
+    [/^Bearer /i.test(authHeader) ? authHeader.slice(7).trim() : null, 'access']
+  ];
+  for (const [token, type] of candidates) {
+    if (!token) continue;
+    try {
+      const { uid, family } = readAppToken(token, type, true);
+      await revokeSession(uid, family, 'logout');
+    } catch {
+      // Not one of our tokens (e.g. a Firebase ID token): nothing to revoke
+    }
+  }
+}
+
+/**
+ * Sets the session cookie on a response. The cookie is sent cross-site so the extension
+ * can use it.
+ *
+ * @param {NextResponse} response - The response to set the cookie on
+ * @param {string} sessionCookie - The Firebase session cookie value
+ */
+export function setSessionCookie(response: NextResponse, sessionCookie: string) {
+  response.cookies.set(SESSION_COOKIE, sessionCookie, {
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+    secure: process.env.NODE_ENV === 'production',
+    httpOnly: true,
+    sameSite: 'none', // Required for cross-origin requests from extension
+    domain: process.env.NODE_ENV === 'production' ? '.fact-checker-website.vercel.app' : undefined
+  });
+}
+
+/**
+ * Sets the refresh token cookie on a response.
+ *
+ * @param {NextResponse} response - The response to set the cookie on
+ * @param {string} refreshToken - The refresh token
+ */
+export function setRefreshCookie(response: NextResponse, refreshToken: string) {
+  response.cookies.set(REFRESH_COOKIE, refreshToken, {
+    path: '/',
+    maxAge: REFRESH_MAX_AGE_SECONDS,
+    secure: true,
+    httpOnly: true,
+    sameSite: 'none'
+  });
+}
+
+/**
+ * Clears the session and refresh cookies on a response.
+ *
+ * @param {NextResponse} response - The response to clear the cookies on
+ */
+export function clearAuthCookies(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', {
+    path: '/',
+    maxAge: 0,
+    secure: process.env.NODE_ENV === 'production',
+    httpOnly: true,
+    sameSite: 'none',
+    domain: process.env.NODE_ENV === 'production' ? '.fact-checker-website.vercel.app' : undefined
+  });
+  response.cookies.set(REFRESH_COOKIE, '', { path: '/', maxAge: 0, secure: true, httpOnly: true, sameSite: 'none' });
+}
+
+/**
+ * Creates the user's Firestore document on first sign-in. New users start on the pro plan.
+ *
+ * @param {string} uid - The user's ID
+ * @param {string} email - The user's email, if known
+ * @returns {Promise<{ created: boolean, user: any }>} The user document, and whether it was created by this call
+ */
+export async function ensureUserRecord(uid: string, email?: string): Promise<{ created: boolean; user: any }> {
+  const ref = db.collection('users').doc(uid);
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (doc.exists) return { created: false, user: doc.data() };
+
+    const user = { uid, email: email || '', plan: 'pro', createdAt: new Date(), updatedAt: new Date() };
+    tx.set(ref, user);
+    return { created: true, user };
+  });
+}
@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeFirestore } from '@/test/fake-firestore';
+
+vi.mock('./firebaseAdmin', async () => {
+  const { FakeFirestore } = await import('@/test/fake-firestore');
+  return { db: new FakeFirestore(), adminAuth: {} };
+});
+
+vi.mock('./fact-check-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./fact-check-service')>()),
+  executeFactCheck: vi.fn()
+}));
+
+vi.mock('./webhooks', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./webhooks')>()),
+  notifyWebhooks: vi.fn()
+}));
+
+import { db } from './firebaseAdmin';
+import { executeFactCheck } from './fact-check-service';
+import { notifyWebhooks } from './webhooks';
+import { createBatchJob, getBatchJobWithItems, processBatchJob, readBatchRequest } from './batch';
+import { queueBatchJob, runJobWorker } from './jobs';
+
+const UID = 'user123';
+const check = vi.mocked(executeFactCheck);
+
+/**
+ * Builds batch items with distinct texts.
+ *
+ * @param {number} count - Number of items
+ * @returns {any[]} The item bodies
+ */
+function items(count: number): any[] {
+  return Array.from({ length: count }, (_, i) => ({ text: `Post number ${i}` }));
+}
+
+beforeEach(() => {
+  (db as unknown as FakeFirestore).clear();
+  check.mockReset();
+  check.mockImplementation(async (uid, body) => ({ ok: true, result: { text: body.text } as any }));
+  vi.mocked(notifyWebhooks).mockReset();
+  process.env.JOB_INLINE_WORKER = 'false';
+  process.env.BATCH_CONCURRENCY = '1';
+});
+
+describe('batch processing on the job queue', () => {
+  it('checks every item on the worker and announces the finished batch', async () => {
+    const job = await createBatchJob(UID, items(3));
+    await queueBatchJob(UID, job.id, 'key1');
+
+    expect(await runJobWorker({ budgetMs: 5000, concurrency: 1 })).toEqual({ processed: 1, resumable: 0 });
+
+    const batch = await getBatchJobWithItems(UID, job.id);
+    expect(batch).toMatchObject({ status: 'completed', succeeded: 3, failed: 0 });
+    expect(batch!.items.map((item) => item.result)).toEqual([{ text: 'Post number 0' }, { text: 'Post number 1' }, { text: 'Post number 2' }]);
+    expect(batch!.items[0]).not.toHaveProperty('input');
+    expect(check).toHaveBeenCalledWith(UID, { text: 'Post number 0' }, { countBurst: false, apiKeyId: 'key1' });
+    expect(notifyWebhooks).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(notifyWebhooks).mock.calls[0][1]).toBe('check.completed');
+  });
+
+  it('fails the remaining items without running them once quota runs out', async () => {
+    check.mockImplementationOnce(async () => ({ ok: true, result: {} as any }))
+      .mockImplementationOnce(async () => ({ ok: false, status: 429, error: { error: 'Quota exceeded', code: 'QUOTA_EXCEEDED' } }));
+    const job = await createBatchJob(UID, items(3));
+
+    const progress = await processBatchJob(UID, job.id);
+
+    expect(progress).toMatchObject({ finished: true, job: { status: 'partial', succeeded: 1, failed: 2 } });
+    expect(check).toHaveBeenCalledTimes(2);
+    const batch = await getBatchJobWithItems(UID, job.id);
+    expect(batch!.items.map((item) => item.error?.code ?? null)).toEqual([null, 'QUOTA_EXCEEDED', 'QUOTA_EXCEEDED']);
+  });
+
+  it('pauses at the deadline and resumes without checking items twice', async () => {
+    check.mockImplementation(async (uid, body) => {
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      return { ok: true, result: { text: body.text } as any };
+    });
+    const job = await createBatchJob(UID, items(5));
+    await queueBatchJob(UID, job.id);
+
+    const first = await runJobWorker({ budgetMs: 50, concurrency: 1 });
+    expect(first).toEqual({ processed: 1, resumable: 1 });
+    const paused = await getBatchJobWithItems(UID, job.id);
+    expect(paused!.status).toBe('running');
+    expect(paused!.succeeded).toBeLessThan(5);
+    const jobs = await db.collection('jobs').get();
+    expect(jobs.docs[0].data()).toMatchObject({ type: 'factCheckBatch', status: 'queued', attempts: 0 });
+
+    await runJobWorker({ budgetMs: 5000, concurrency: 1 });
+    expect(await getBatchJobWithItems(UID, job.id)).toMatchObject({ status: 'completed', succeeded: 5 });
+    expect(check).toHaveBeenCalledTimes(5);
+    expect((await db.collection('jobs').get()).docs[0].data()).toMatchObject({ status: 'succeeded' });
+  });
+
+  it('checks again an item whose worker died mid-check', async () => {
+    const job = await createBatchJob(UID, items(2));
+    const itemRef = db.collection('users').doc(UID).collection('batches').doc(job.id).collection('items').doc('0000');
+    await itemRef.update({ status: 'running', claimId: 'dead', startedAt: new Date(Date.now() - 10 * 60 * 1000).toISOString() });
+
+    const progress = await processBatchJob(UID, job.id);
+
+    expect(progress).toMatchObject({ finished: true, job: { status: 'completed', succeeded: 2 } });
+    expect(check).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('readBatchRequest', () => {
+  it('rejects batches whose items together exceed the commit size limit', () => {
+    const text = 'x'.repeat(800 * 1024);
+    const tooLarge = readBatchRequest({ items: Array.from({ length: 11 }, () => ({ text })) });
+    expect(tooLarge).toEqual({ ok: false, errors: [`items must be at most ${8 * 1024 * 1024} bytes in total`] });
+
+    const fits = readBatchRequest({ items: Array.from({ length: 10 }, () => ({ text })) });
+    expect(fits.ok).toBe(true);
+  });
+
+  it('rejects a single item over the document size limit', () => {
+    const result = readBatchRequest({ items: [{ text: 'ok post' }, { text: 'x'.repeat(901 * 1024) }] });
+    expect(result).toEqual({ ok: false, errors: [`items[1] must be at most ${900 * 1024} bytes`] });
+  });
+});
@@ -0,0 +1,483 @@
+import { randomBytes } from 'crypto';
+import { db } from './firebaseAdmin';
+import { mapWithConcurrency } from './concurrency';
+import { isValidUrl } from './url';
+import { executeFactCheck, FactCheckOutcome } from './fact-check-service';
+import { FactCheckErrorResponse, FactCheckResult } from './fact-check-result';
+import { notifyWebhooks } from './webhooks';
+
+export type BatchJobStatus = 'running' | 'completed' | 'partial' | 'failed';
+
+export type BatchItemStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * A batch of fact-checks, stored at users/{uid}/batches/{id}. Finished jobs are
+ * `completed` when every item succeeded, `failed` when none did and `partial` otherwise.
+ */
+export interface BatchJob {
+  id: string;
+  status: BatchJobStatus;
+  total: number;
+  succeeded: number;
+  failed: number;
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+/**
+ * One post in a batch, stored at users/{uid}/batches/{id}/items/{index}.
+ * `status` is the HTTP status the item would have had as a single `/api/fact-check` request.
+ */
+export interface BatchItem {
+  index: number;
+  status: BatchItemStatus;
+  postUrl: string | null;
+  result: FactCheckResult | null;
+  error: (FactCheckErrorResponse & { status: number }) | null;
+  finishedAt: string | null; // ISO timestamp
+}
+
+export interface BatchJobWithItems extends BatchJob {
+  items: BatchItem[];
+}
+
+/**
+ * An item as stored. The item's request body is kept so any worker can pick the batch
+ * up; `claimId` and `startedAt` mark the worker checking it.
+ */
+interface StoredBatchItem extends BatchItem {
+  input: any;
+  claimId: string | null;
+  startedAt: string | null; // ISO timestamp
+}
+
+/**
+ * How far `processBatchJob` got: the finished job, or `paused` if items are left, either
+ * because the deadline passed or because another worker is still checking them.
+ */
+export type BatchProgress =
+  | { finished: true; job: BatchJob }
+  | { finished: false; claimable: boolean };
+
+export type BatchRequestValidation =
+  | { ok: true; items: any[] }
+  | { ok: false; errors: string[] };
+
+/**
+ * Request fields that apply to every item unless the item sets them itself.
+ */
+const SHARED_ITEM_FIELDS = ['responseLanguage', 'forceRefresh'];
+
+/**
+ * Webhook payloads above this size leave out item results; receivers fetch them from
+ * `/api/fact-check/batch/{id}` instead.
+ */
+const MAX_WEBHOOK_BATCH_BYTES = 512 * 1024;
+
+/**
+ * Each item body is stored in its own document, which Firestore caps at 1 MiB.
+ */
+const MAX_BATCH_ITEM_BYTES = 900 * 1024;
+
+/**
+ * All items are written in one commit, which Firestore caps at 10 MiB; this leaves room
+ * for the job document and field overhead.
+ */
+const MAX_BATCH_TOTAL_BYTES = 8 * 1024 * 1024;
+
+/**
+ * A running item not finished after this long was abandoned by a worker that died,
+ * and is checked again. Single checks finish well within it.
+ */
+const BATCH_ITEM_STALE_MS = 5 * 60 * 1000;
+
+/**
+ * Returns the maximum number of posts per batch from BATCH_MAX_ITEMS (default 50).
+ *
+ * @returns {number} Maximum batch size
+ */
+export function batchMaxItems(): number {
+  const n = parseInt(process.env.BATCH_MAX_ITEMS || '50', 10);
+  return Number.isFinite(n) && n > 0 ? n : 50;
+}
+
+/**
+ * Returns how many posts of one batch are checked at once from BATCH_CONCURRENCY (default 3).
+ *
+ * @returns {number} Maximum concurrent item checks
+ */
+function batchConcurrency(): number {
+  const n = parseInt(process.env.BATCH_CONCURRENCY || '3', 10);
+  return Number.isFinite(n) && n > 0 ? n : 3;
+}
+
+/**
+ * Returns the batch collection for a user.
+ *
+ * @param {string} uid - The user's ID
+ * @returns {FirebaseFirestore.CollectionReference} The users/{uid}/batches collection
+ */
+function batchesCollection(uid: string) {
+  return db.collection('users').doc(uid).collection('batches');
+}
+
+/**
+ * Builds the document ID of an item, zero-padded so IDs sort in input order.
+ *
+ * @param {number} index - The item's position in the batch
+ * @returns {string} The item document ID
+ */
+function itemId(index: number): string {
+  return String(index).padStart(4, '0');
+}
+
+/**
+ * Converts a stored document into a batch job.
+ *
+ * @param {FirebaseFirestore.DocumentSnapshot} doc - The users/{uid}/batches document
+ * @returns {BatchJob} The batch job
+ */
+function toJob(doc: FirebaseFirestore.DocumentSnapshot): BatchJob {
+  const data = doc.data()!;
+  return {
+    id: doc.id,
+    status: data.status,
+    total: data.total,
+    succeeded: data.succeeded || 0,
+    failed: data.failed || 0,
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+    completedAt: data.completedAt || null
+  };
+}
+
+/**
+ * Converts a stored document into a batch item.
+ *
+ * @param {FirebaseFirestore.DocumentSnapshot} doc - The items document
+ * @returns {BatchItem} The batch item
+ */
+function toItem(doc: FirebaseFirestore.DocumentSnapshot): BatchItem {
+  const data = doc.data()!;
+  return {
+    index: data.index,
+    status: data.status,
+    postUrl: data.postUrl || null,
+    result: data.result || null,
+    error: data.error || null,
+    finishedAt: data.finishedAt || null
+  };
+}
+
+/**
+ * Validates the body of a batch request: `{ items: [...] }` where each item is a
+ * `/api/fact-check` body. Top-level `responseLanguage` and `forceRefresh` apply to
+ * items that do not set them. Each item is limited to `MAX_BATCH_ITEM_BYTES` and all of
+ * them together to `MAX_BATCH_TOTAL_BYTES`. Item contents are validated when each item
+ * runs, so one bad post fails on its own instead of rejecting the batch.
+ *
+ * @param {any} body - The parsed request body
+ * @returns {BatchRequestValidation} The item bodies, or the validation errors
+ */
+export function readBatchRequest(body: any): BatchRequestValidation {
+  const items = body?.items;
+  if (!Array.isArray(items) || items.length === 0) {
+    return { ok: false, errors: ['items must be a non-empty array'] };
+  }
+  const maxItems = batchMaxItems();
+  if (items.length > maxItems) {
+    return { ok: false, errors: [`items must contain at most ${maxItems} posts`] };
+  }
+
+  const errors: string[] = [];
+  let totalBytes = 0;
+  items.forEach((item, i) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push(`items[${i}] must be an object`);
+      return;
+    }
+    const bytes = Buffer.byteLength(JSON.stringify(item));
+    totalBytes += bytes;
+    if (bytes > MAX_BATCH_ITEM_BYTES) errors.push(`items[${i}] must be at most ${MAX_BATCH_ITEM_BYTES} bytes`);
+  });
+  if (errors.length === 0 && totalBytes > MAX_BATCH_TOTAL_BYTES) {
+    errors.push(`items must be at most ${MAX_BATCH_TOTAL_BYTES} bytes in total`);
+  }
+  if (errors.length > 0) return { ok: false, errors };
+
+  const shared: Record<string, unknown> = {};
+  SHARED_ITEM_FIELDS.forEach((field) => {
+    if (body[field] !== undefined) shared[field] = body[field];
+  });
+  return { ok: true, items: items.map((item) => ({ ...shared, ...item })) };
+}
+
+/**
+ * Creates a running batch job with one pending item per post. Item bodies are stored
+ * with the items, so the batch can be processed, and resumed, by the job worker.
+ *
+ * @param {string} uid - The user's ID
+ * @param {any[]} items - Validated item bodies from `readBatchRequest`
+ * @returns {Promise<BatchJob>} The new job
+ */
+export async function createBatchJob(uid: string, items: any[]): Promise<BatchJob> {
+  const ref = batchesCollection(uid).doc();
+  const now = new Date().toISOString();
+  const job: Omit<BatchJob, 'id'> = {
+    status: 'running',
+    total: items.length,
+    succeeded: 0,
+    failed: 0,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null
+  };
+
+  const batch = db.batch();
+  batch.set(ref, job);
+  items.forEach((item, index) => {
+    const pending: StoredBatchItem = {
+      index,
+      status: 'pending',
+      postUrl: typeof item.postUrl === 'string' && isValidUrl(item.postUrl) ? item.postUrl : null,
+      result: null,
+      error: null,
+      finishedAt: null,
+      input: item,
+      claimId: null,
+      startedAt: null
+    };
+    batch.set(ref.collection('items').doc(itemId(index)), pending);
+  });
+  await batch.commit();
+
+  return { id: ref.id, ...job };
+}
+
+/**
+ * Sends the `check.completed` webhook for a finished batch, or `check.failed` if no item
+ * succeeded, with every item's result unless that would make the payload too large.
+ *
+ * @param {string} uid - The user's ID
+ * @param {BatchJob} job - The finished job
+ * @returns {Promise<void>}
+ */
+async function notifyBatchFinished(uid: string, job: BatchJob): Promise<void> {
+  const withItems = await getBatchJobWithItems(uid, job.id);
+  let batch: BatchJobWithItems = { ...job, items: withItems?.items || [] };
+  const resultsOmitted = Buffer.byteLength(JSON.stringify(batch)) > MAX_WEBHOOK_BATCH_BYTES;
+  if (resultsOmitted) {
+    batch = { ...batch, items: batch.items.map((item) => ({ ...item, result: null })) };
+  }
+  const event = job.status === 'failed' ? 'check.failed' : 'check.completed';
+  await notifyWebhooks(uid, event, `batch_${job.id}`, { source: 'batch', batch, resultsOmitted });
+}
+
+/**
+ * Claims an item for this worker: pending items, and running items abandoned by a worker
+ * that died. Claiming in a transaction keeps two workers from checking the same item.
+ *
+ * @param {FirebaseFirestore.DocumentReference} itemRef - The item
+ * @returns {Promise<{ claimId: string, input: any } | null>} The claim and the item body, or null if it is taken or finished
+ */
+async function claimBatchItem(itemRef: FirebaseFirestore.DocumentReference): Promise<{ claimId: string; input: any } | null> {
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(itemRef);
+    const item = doc.data() as StoredBatchItem | undefined;
+    if (!item) return null;
+    const now = Date.now();
+    const abandoned = item.status === 'running' &&
+      (!item.startedAt || now - new Date(item.startedAt).getTime() > BATCH_ITEM_STALE_MS);
+    if (item.status !== 'pending' && !abandoned) return null;
+
+    const claimId = randomBytes(8).toString('hex');
+    tx.update(itemRef, { status: 'running', claimId, startedAt: new Date(now).toISOString() });
+    return { claimId, input: item.input };
+  });
+}
+
+/**
+ * Records an item's outcome and counts it on the job, unless another worker took the
+ * item over in the meantime.
+ *
+ * @param {FirebaseFirestore.DocumentReference} jobRef - The batch job
+ * @param {FirebaseFirestore.DocumentReference} itemRef - The item
+ * @param {string | null} claimId - The claim the outcome belongs to; null to finish an unclaimed item
+ * @param {FactCheckOutcome} outcome - The item's outcome
+ * @returns {Promise<void>}
+ */
+async function recordItemOutcome(
+  jobRef: FirebaseFirestore.DocumentReference,
+  itemRef: FirebaseFirestore.DocumentReference,
+  claimId: string | null,
+  outcome: FactCheckOutcome
+): Promise<void> {
+  const finishedAt = new Date().toISOString();
+  await db.runTransaction(async (tx) => {
+    const [jobDoc, itemDoc] = await Promise.all([tx.get(jobRef), tx.get(itemRef)]);
+    const item = itemDoc.data() as StoredBatchItem | undefined;
+    if (!item || item.status === 'succeeded' || item.status === 'failed') return;
+    if (claimId !== null && item.claimId !== claimId) return;
+
+    const job = toJob(jobDoc);
+    tx.update(itemRef, outcome.ok
+      ? { status: 'succeeded', result: outcome.result, finishedAt, input: null }
+      : { status: 'failed', error: { ...outcome.error, status: outcome.status }, finishedAt, input: null });
+    tx.update(jobRef, outcome.ok
+      ? { succeeded: job.succeeded + 1, updatedAt: finishedAt }
+      : { failed: job.failed + 1, updatedAt: finishedAt });
+  });
+}
+
+/**
+ * Marks a job finished once every item has an outcome. Only one caller wins; it sends
+ * the webhook.
+ *
+ * @param {string} uid - The user's ID
+ * @param {FirebaseFirestore.DocumentReference} jobRef - The batch job
+ * @returns {Promise<BatchJob | null>} The finished job, or null if items are left or it was already finished
+ */
+async function finishBatchJob(uid: string, jobRef: FirebaseFirestore.DocumentReference): Promise<BatchJob | null> {
+  const finished = await db.runTransaction(async (tx) => {
+    const job = toJob(await tx.get(jobRef));
+    if (job.status !== 'running' || job.succeeded + job.failed < job.total) return null;
+
+    const completedAt = new Date().toISOString();
+    const status: BatchJobStatus = job.failed === 0 ? 'completed' : job.succeeded === 0 ? 'failed' : 'partial';
+    tx.update(jobRef, { status, completedAt, updatedAt: completedAt });
+    return { ...job, status, completedAt, updatedAt: completedAt };
+  });
+
+  if (finished) await notifyBatchFinished(uid, finished);
+  return finished;
+}
+
+/**
+ * Checks the unfinished items of a batch with bounded concurrency, recording each outcome
+ * as it finishes. Runs on the job worker and can be run again after it stops or its
+ * process dies: only items without an outcome are checked. Each item is charged one unit
+ * of fact-check quota like a single request (cache hits stay free), but items do not count
+ * toward the burst limit; the batch request itself does. Once quota runs out, items that
+ * have not started yet fail with `QUOTA_EXCEEDED` without being run. An item whose worker
+ * died mid-check is checked, and charged, again. The finished batch is announced to the
+ * user's webhooks.
+ *
+ * @param {string} uid - The user's ID
+ * @param {string} jobId - The batch job ID
+ * @param {{ apiKeyId?: string, deadline?: number }} options - The API key the batch was submitted with, and when (epoch ms) to stop starting items
+ * @returns {Promise<BatchProgress>} The finished job, or whether items are left to claim
+ */
+export async function processBatchJob(
+  uid: string,
+  jobId: string,
+  options: { apiKeyId?: string; deadline?: number } = {}
+): Promise<BatchProgress> {
+  const jobRef = batchesCollection(uid).doc(jobId);
+  const jobDoc = await jobRef.get();
+  if (!jobDoc.exists) throw new Error(`Batch ${jobId} not found`);
+  const job = toJob(jobDoc);
+  if (job.status !== 'running') return { finished: true, job };
+
+  const items = await jobRef.collection('items').orderBy('index').get();
+  const unfinished = items.docs.filter((doc) => {
+    const status = (doc.data() as StoredBatchItem).status;
+    return status === 'pending' || status === 'running';
+  });
+
+  let quotaExhausted: FactCheckOutcome | null = null;
+  let deadlinePassed = false;
+
+  await mapWithConcurrency(unfinished, batchConcurrency(), async (doc) => {
+    if (options.deadline !== undefined && Date.now() >= options.deadline) {
+      deadlinePassed = true;
+      return;
+    }
+    const claim = await claimBatchItem(doc.ref);
+    if (!claim) return;
+
+    let outcome: FactCheckOutcome;
+    if (quotaExhausted) {
+      outcome = quotaExhausted;
+    } else {
+      outcome = await executeFactCheck(uid, claim.input, { countBurst: false, apiKeyId: options.apiKeyId });
+      if (!outcome.ok && outcome.error.code === 'QUOTA_EXCEEDED') quotaExhausted = outcome;
+    }
+    await recordItemOutcome(jobRef, doc.ref, claim.claimId, outcome);
+  });
+
+  const finished = await finishBatchJob(uid, jobRef);
+  if (finished) return { finished: true, job: finished };
+  const current = toJob(await jobRef.get());
+  if (current.status !== 'running') return { finished: true, job: current };
+  return { finished: false, claimable: deadlinePassed };
+}
+
+/**
+ * Fails every item of a batch that has no outcome yet and finishes the job. Used when
+ * the job worker gives up on the batch.
+ *
+ * @param {string} uid - The user's ID
+ * @param {string} jobId - The batch job ID
+ * @param {FactCheckErrorResponse & { status: number }} error - The error to record on the items
+ * @returns {Promise<BatchJob | null>} The finished job, or null if it does not exist or was already finished
+ */
+export async function failBatchJob(
+  uid: string,
+  jobId: string,
+  error: FactCheckErrorResponse & { status: number }
+): Promise<BatchJob | null> {
+  const jobRef = batchesCollection(uid).doc(jobId);
+  const items = await jobRef.collection('items').get();
+  const { status, ...body } = error;
+  for (const doc of items.docs) {
+    const item = doc.data() as StoredBatchItem;
+    if (item.status === 'pending' || item.status === 'running') {
+      await recordItemOutcome(jobRef, doc.ref, null, { ok: false, status, error: body });
+    }
+  }
+  return finishBatchJob(uid, jobRef);
+}
+
+/**
+ * Reads a batch job without its items.
+ *
+ * @param {string} uid - The user's ID
+ * @param {string} id - The batch job ID
+ * @returns {Promise<BatchJob | null>} The job, or null if it does not exist
+ */
+export async function getBatchJob(uid: string, id: string): Promise<BatchJob | null> {
+  const doc = await batchesCollection(uid).doc(id).get();
+  return doc.exists ? toJob(doc) : null;
+}
+
+/**
+ * Reads a batch job with all of its items in input order.
+ *
+ * @param {string} uid - The user's ID
+ * @param {string} id - The batch job ID
+ * @returns {Promise<BatchJobWithItems | null>} The job and its items, or null if it does not exist
+ */
+export async function getBatchJobWithItems(uid: string, id: string): Promise<BatchJobWithItems | null> {
+  const ref = batchesCollection(uid).doc(id);
+  const [doc, items] = await Promise.all([ref.get(), ref.collection('items').orderBy('index').get()]);
+  if (!doc.exists) return null;
+  return { ...toJob(doc), items: items.docs.map(toItem) };
+}
+
+/**
+ * Lists the items of a batch that finished at or after a given time, oldest first.
+ * Used by the stream endpoint to pick up newly finished items.
+ *
+ * @param {string} uid - The user's ID
+ * @param {string} id - The batch job ID
+ * @param {string} since - ISO timestamp, inclusive
+ * @returns {Promise<BatchItem[]>} The finished items
+ */
+export async function listFinishedBatchItems(uid: string, id: string, since: string): Promise<BatchItem[]> {
+  const snapshot = await batchesCollection(uid).doc(id).collection('items')
+    .where('finishedAt', '>=', since)
+    .orderBy('finishedAt')
+    .get();
+  return snapshot.docs.map(toItem);
+}
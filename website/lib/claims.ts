@@ -0,0 +1,161 @@
+import { getLLMProvider } from './llm';
+
+/**
+ * Character range of a claim within the original text (`end` is exclusive).
+ */
+export interface ClaimSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * A claim extracted from post text. `span` points at the passage the claim was
+ * taken from, or is null if it could not be located (e.g. the claim was paraphrased).
+ */
+export interface ExtractedClaim {
+  text: string;
+  span: ClaimSpan | null;
+}
+
+export interface ClaimExtractionOptions {
+  maxClaims?: number;
+  sourceLabel?: string; // Describes where the text came from, e.g. "a social media post"
+  context?: string; // Surrounding posts and links, as formatted by formatPostContext
+}
+
+const DEFAULT_MAX_CLAIMS = 3;
+const MIN_SPAN_OVERLAP = 0.6;
+
+/**
+ * Splits text into word tokens for overlap scoring.
+ *
+ * @param {string} value - Text to tokenize
+ * @returns {string[]} Lowercase word tokens
+ */
+function tokenize(value: string): string[] {
+  return value.toLowerCase().match(/[^\s.,;:!?"()\[\]{}]+/g) || [];
+}
+
+/**
+ * Splits text into sentence ranges so paraphrased claims can be mapped back to the sentence they came from.
+ *
+ * @param {string} text - The original text
+ * @returns {ClaimSpan[]} Sentence ranges, trimmed of surrounding whitespace
+ */
+function sentenceSpans(text: string): ClaimSpan[] {
+  const spans: ClaimSpan[] = [];
+  const pattern = /[^.!?\n]+[.!?]*/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const leading = match[0].length - match[0].replace(/^\s+/, '').length;
+    const trimmed = match[0].trim();
+    if (trimmed.length === 0) continue;
+    const start = match.index + leading;
+    spans.push({ start, end: start + trimmed.length });
+  }
+  return spans;
+}
+
+/**
+ * Locates a claim in the original text: first as a case-insensitive verbatim quote,
+ * then as the sentence sharing the most words with it.
+ *
+ * @param {string} text - The original text
+ * @param {string} claim - The extracted claim
+ * @returns {ClaimSpan | null} The claim's span, or null if no passage matches closely enough
+ */
+export function findClaimSpan(text: string, claim: string): ClaimSpan | null {
+  const needle = claim.replace(/[.!?]+$/, '').trim().toLowerCase();
+  if (needle.length === 0) return null;
+
+  const exact = text.toLowerCase().indexOf(needle);
+  if (exact !== -1) {
+    return { start: exact, end: exact + needle.length };
+  }
+
+  const claimWords = new Set(tokenize(claim));
+  if (claimWords.size === 0) return null;
+
+  let best: { span: ClaimSpan; score: number } | null = null;
+  for (const span of sentenceSpans(text)) {
+    const sentenceWords = new Set(tokenize(text.slice(span.start, span.end)));
+    let shared = 0;
+    claimWords.forEach((word) => {
+      if (sentenceWords.has(word)) shared++;
+    });
+    const score = shared / claimWords.size;
+    if (!best || score > best.score) best = { span, score };
+  }
+
+  return best && best.score >= MIN_SPAN_OVERLAP ? best.span : null;
+}
+
+/**
+ * Parses a "- " bullet list returned by the model into claim strings.
+ *
+ * @param {string} raw - Raw model output
+ * @returns {string[]} Claims without bullets, empty lines or duplicates
+ */
+function parseClaimBullets(raw: string): string[] {
+  const seen = new Set<string>();
+  return raw
+    .split('\n')
+    .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+    .filter((line) => {
+      const key = line.toLowerCase();
+      if (line.length === 0 || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Extracts verifiable claims from text using the configured LLM provider and
+ * maps each claim back to its span in the original text.
+ * Server-side counterpart of the extension's on-device (Prompt API) claim extraction.
+ *
+ * @param {string} text - The text to analyze
+ * @param {ClaimExtractionOptions} options - Maximum number of claims, a description of the text's origin and optional context
+ * @returns {Promise<ExtractedClaim[]>} Extracted claims; empty if the text is too short
+ */
+export async function extractClaims(text: string, options: ClaimExtractionOptions = {}): Promise<ExtractedClaim[]> {
+  if (!text || text.length < 10) {
+    return [];
+  }
+
+  const maxClaims = options.maxClaims || DEFAULT_MAX_CLAIMS;
+  const sourceLabel = options.sourceLabel || 'a social media post';
+  const source = text.slice(0, 4000);
+
+  const contextSection = options.context
+    ? `\n\nUse the context below to resolve what the text refers to (for example "this", a name, or a quoted post it agrees with), and write each claim so it stands on its own. Only extract claims the text itself makes or endorses.\n\n${options.context}`
+    : '';
+
+  const prompt = `Extract up to ${maxClaims} verifiable claims from the following text from ${sourceLabel}. Each claim should be a single statement that can be verified or denied. Quote the original wording where possible.${contextSection}
+
+Text:
+${source}
+
+Write each claim in the same language as the text; do not translate.
+
+Return ONLY short bullet points, each starting with '- '. Do not include any analysis, commentary, emojis, or extra text. Just the claims.`;
+
+  const response = await getLLMProvider().generateText(prompt, {
+    maxOutputTokens: 1024,
+    temperature: 0.0
+  });
+
+  return parseClaimBullets(response.text)
+    .slice(0, maxClaims)
+    .map((claim) => ({ text: claim, span: findClaimSpan(source, claim) }));
+}
+
+/**
+ * Formats claims as the "- " bullet list accepted by the fact-check pipeline.
+ *
+ * @param {ExtractedClaim[]} claims - Extracted claims
+ * @returns {string} Bullet list, one claim per line
+ */
+export function formatClaimBullets(claims: ExtractedClaim[]): string {
+  return claims.map((claim) => `- ${claim.text}`).join('\n');
+}
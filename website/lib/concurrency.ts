@@ -0,0 +1,55 @@
+/**
+ * Rejects with an Error whose message is `message` if the promise does not settle within `ms`.
+ * The underlying work is not cancelled; its eventual result is ignored.
+ * 
+ * @param {Promise<T>} promise - The promise to race against the timer
+ * @param {number} ms - Timeout in milliseconds
+ * @param {string} message - Error message used on timeout (defaults to "TIMEOUT")
+ * @returns {Promise<T>} The promise's result if it settles in time
+ * @throws {Error} Throws error with the given message on timeout
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string = "TIMEOUT"): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), ms);
+    promise.then(
+      (value) => { clearTimeout(timer); resolve(value); },
+      (error) => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+/**
+ * Runs `fn` over every item with at most `limit` calls in flight, preserving input order.
+ * Failures are captured per item instead of rejecting the whole batch.
+ * 
+ * @param {T[]} items - Items to process
+ * @param {number} limit - Maximum number of concurrent calls
+ * @param {Function} fn - Async function applied to each item and its index
+ * @returns {Promise<PromiseSettledResult<R>[]>} Settled result for each item, in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  }
+
+  const workers = [];
+  for (let i = 0; i < Math.max(1, Math.min(limit, items.length)); i++) {
+    workers.push(worker());
+  }
+  await Promise.all(workers);
+  return results;
+}
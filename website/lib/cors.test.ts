@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { corsRuleFor, preflightResponse } from './cors';
+
+const EXTENSION_ORIGIN = 'chrome-extension://abcdefghijklmnopabcdefghijklmnop';
+
+/**
+ * Builds a preflight request from the extension.
+ *
+ * @param {string} path - The API path
+ * @param {string} method - The method the preflight asks for
+ * @returns {NextRequest} The OPTIONS request
+ */
+function preflight(path: string, method: string): NextRequest {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method: 'OPTIONS',
+    headers: { Origin: EXTENSION_ORIGIN, 'Access-Control-Request-Method': method }
+  });
+}
+
+beforeEach(() => {
+  process.env.EXTENSION_IDS = 'abcdefghijklmnopabcdefghijklmnop';
+  delete process.env.CORS_ROUTES;
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+describe('corsRuleFor', () => {
+  it('uses the default rule with the longest matching path', () => {
+    expect(corsRuleFor('/api/sources/lookup')).toMatchObject({ path: '/api/sources', methods: ['GET'], credentials: false });
+    expect(corsRuleFor('/api/me/api-keys/abc')).toMatchObject({ path: '/api/me/api-keys', methods: [] });
+    expect(corsRuleFor('/api/history')).toMatchObject({ path: '/api', credentials: true });
+    expect(corsRuleFor('/login')).toBeNull();
+  });
+
+  it('adds and replaces rules from CORS_ROUTES', () => {
+    process.env.CORS_ROUTES = JSON.stringify([
+      { path: '/api/sources', methods: ['get', 'POST'], headers: ['Content-Type', 'X-Client'], credentials: true },
+      { path: '/api/history' }
+    ]);
+
+    expect(corsRuleFor('/api/sources')).toEqual({
+      path: '/api/sources', methods: ['GET', 'POST'], headers: ['Content-Type', 'X-Client'], credentials: true
+    });
+    expect(corsRuleFor('/api/history/123')).toEqual({ path: '/api/history', methods: [], headers: [], credentials: false });
+    expect(corsRuleFor('/api/fact-check')).toMatchObject({ path: '/api', methods: ['GET', 'POST', 'DELETE'] });
+  });
+
+  it('fails loudly on an invalid CORS_ROUTES', () => {
+    process.env.CORS_ROUTES = '{"path":"/api"}';
+    expect(() => corsRuleFor('/api/history')).toThrow(/CORS_ROUTES/);
+    process.env.CORS_ROUTES = '[{"path":"/other","methods":["GET"]}]';
+    expect(() => corsRuleFor('/api/history')).toThrow(/CORS_ROUTES\[0\]/);
+  });
+});
+
+describe('preflightResponse', () => {
+  it('allows a listed extension the route methods', () => {
+    const response = preflightResponse(preflight('/api/fact-check', 'POST'));
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-origin')).toBe(EXTENSION_ORIGIN);
+    expect(response.headers.get('access-control-allow-credentials')).toBe('true');
+  });
+
+  it('refuses extensions when EXTENSION_IDS is empty', () => {
+    process.env.EXTENSION_IDS = '';
+    const response = preflightResponse(preflight('/api/fact-check', 'POST'));
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('follows CORS_ROUTES overrides', () => {
+    process.env.CORS_ROUTES = '[{"path":"/api/fact-check"}]';
+    const response = preflightResponse(preflight('/api/fact-check', 'POST'));
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+  });
+});
@@ -1,36 +1,198 @@
 import { NextRequest, NextResponse } from "next/server";
 
 /**
- * Higher-order function that wraps an API route handler with CORS support.
- * Adds appropriate CORS headers to responses for allowed origins including Chrome extensions.
- * 
- * @param {Function} handler - The API route handler function to wrap
- * @returns {Function} Wrapped handler function with CORS support
- */
-export function withCors(handler: (req: NextRequest) => Promise<NextResponse>) {
-  return async (req: NextRequest) => {
-    const origin = req.headers.get('origin');
-    const allowed = [
-      "https://fact-checker-website.vercel.app",
-      "chrome-extension://*" // Allow all Chrome extensions
-    ];
-    
-    if (origin && (allowed.includes(origin) || origin.startsWith("chrome-extension://"))) {
-      const response = await handler(req);
-      
-      response.headers.set("Access-Control-Allow-Origin", origin);
-      response.headers.set("Vary", "Origin");
-      response.headers.set("Access-Control-Allow-Credentials", "true");
-      response.headers.set("Access-Control-Allow-Headers", "content-type, cookie");
-      response.headers.set("Access-Control-Allow-Methods", "POST,GET,OPTIONS");
-      
-      return response;
-    }
-    
-    if (req.method === "OPTIONS") {
-      return new NextResponse(null, { status: 204 });
+ * How cross-origin requests to a group of routes are answered. Rules match by path
+ * prefix; the rule with the longest matching path applies.
+ */
+export interface CorsRule {
+  path: string; // Path prefix, matched on whole segments
+  methods: string[]; // Methods allowed cross-origin; empty if the routes are same-origin only
+  headers: string[]; // Request headers allowed cross-origin
+  credentials: boolean; // Whether cookies may be sent cross-origin
+}
+
+const CORS_MAX_AGE_SECONDS = 600;
+
+/**
+ * Default rules. `CORS_ROUTES` adds rules or replaces these by path.
+ */
+const DEFAULT_CORS_RULES: CorsRule[] = [
+  // Called by the scheduler, and by the website's own pages for account management
+  { path: '/api/jobs/worker', methods: [], headers: [], credentials: false },
+  { path: '/api/me/api-keys', methods: [], headers: [], credentials: false },
+  { path: '/api/me/webhooks', methods: [], headers: [], credentials: false },
+  { path: '/api/me/sessions', methods: [], headers: [], credentials: false },
+  { path: '/api/users/register', methods: [], headers: [], credentials: false },
+  { path: '/api/auth', methods: ['POST'], headers: ['Content-Type', 'Authorization'], credentials: true },
+  { path: '/api/ext', methods: ['POST'], headers: ['Content-Type', 'Authorization'], credentials: true },
+  { path: '/api/sources', methods: ['GET'], headers: ['Content-Type'], credentials: false },
+  { path: '/api', methods: ['GET', 'POST', 'DELETE'], headers: ['Content-Type', 'Authorization', 'Idempotency-Key'], credentials: true }
+];
+
+let parsedRules: { raw: string; rules: CorsRule[] } | null = null;
+let warnedNoExtensions = false;
+
+/**
+ * Checks that a value is a list of strings.
+ *
+ * @param {unknown} value - The raw value
+ * @returns {boolean} True if the value is an array of strings
+ */
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+}
+
+/**
+ * Parses `CORS_ROUTES`: a JSON array of `{ path, methods?, headers?, credentials? }`.
+ * Omitted fields default to no methods, no headers and no credentials, so a rule with
+ * only a path makes its routes same-origin only.
+ *
+ * @param {string} raw - The environment variable's value
+ * @returns {CorsRule[]} The rules
+ * @throws {Error} Throws error naming CORS_ROUTES if the value is not a valid list of rules
+ */
+function parseCorsRoutes(raw: string): CorsRule[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    throw new Error('CORS_ROUTES must be a JSON array of { path, methods, headers, credentials }');
+  }
+  if (!Array.isArray(value)) {
+    throw new Error('CORS_ROUTES must be a JSON array of { path, methods, headers, credentials }');
+  }
+  return value.map((entry: any, i) => {
+    const valid = entry && typeof entry === 'object' &&
+      typeof entry.path === 'string' && entry.path.startsWith('/api') &&
+      (entry.methods === undefined || isStringList(entry.methods)) &&
+      (entry.headers === undefined || isStringList(entry.headers)) &&
+      (entry.credentials === undefined || typeof entry.credentials === 'boolean');
+    if (!valid) {
+      throw new Error(`CORS_ROUTES[${i}] must have a path under /api, string lists for methods and headers, and a boolean credentials`);
     }
-    
-    return await handler(req);
-  };
+    return {
+      path: entry.path.replace(/\/+$/, ''),
+      methods: (entry.methods || []).map((method: string) => method.toUpperCase()),
+      headers: entry.headers || [],
+      credentials: entry.credentials === true
+    };
+  });
+}
+
+/**
+ * Returns the CORS rules: the defaults, with the rules in `CORS_ROUTES` added or
+ * replacing the default for the same path.
+ *
+ * @returns {CorsRule[]} The rules
+ * @throws {Error} Throws error if CORS_ROUTES is set but invalid
+ */
+function corsRules(): CorsRule[] {
+  const raw = (process.env.CORS_ROUTES || '').trim();
+  if (!parsedRules || parsedRules.raw !== raw) {
+    const configured = raw ? parseCorsRoutes(raw) : [];
+    const paths = new Set(configured.map((rule) => rule.path));
+    parsedRules = { raw, rules: [...configured, ...DEFAULT_CORS_RULES.filter((rule) => !paths.has(rule.path))] };
+  }
+  return parsedRules.rules;
+}
+
+/**
+ * Reads a comma-separated list from an environment variable.
+ *
+ * @param {string} name - The environment variable
+ * @returns {string[]} The trimmed, non-empty entries
+ */
+function envList(name: string): string[] {
+  return (process.env[name] || '').split(',').map((entry) => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Returns the origins allowed to call the API cross-origin: the web origins in
+ * `CORS_ALLOWED_ORIGINS` (by default SITE_DOMAIN, plus http://localhost:3000 outside
+ * production) and the extensions in `EXTENSION_IDS`.
+ *
+ * @returns {Set<string>} The allowed origins
+ */
+function allowedOrigins(): Set<string> {
+  const webOrigins = envList('CORS_ALLOWED_ORIGINS');
+  if (webOrigins.length === 0) {
+    webOrigins.push((process.env.SITE_DOMAIN || 'https://fact-checker-website.vercel.app').replace(/\/+$/, ''));
+    if (process.env.NODE_ENV !== 'production') webOrigins.push('http://localhost:3000');
+  }
+  const extensionIds = envList('EXTENSION_IDS');
+  if (extensionIds.length === 0 && !warnedNoExtensions) {
+    warnedNoExtensions = true;
+    console.warn('EXTENSION_IDS is not set: the extension cannot call the API or sign in');
+  }
+  const extensionOrigins = extensionIds.map((id) => `chrome-extension://${id}`);
+  return new Set([...webOrigins, ...extensionOrigins]);
+}
+
+/**
+ * Finds the CORS rule for a path.
+ *
+ * @param {string} pathname - The request path
+ * @returns {CorsRule | null} The matching rule with the longest path, or null for paths outside the API
+ */
+export function corsRuleFor(pathname: string): CorsRule | null {
+  let best: CorsRule | null = null;
+  for (const rule of corsRules()) {
+    const matches = pathname === rule.path || pathname.startsWith(`${rule.path}/`);
+    if (matches && (!best || rule.path.length > best.path.length)) best = rule;
+  }
+  return best;
+}
+
+/**
+ * Returns the CORS headers for a request, or none if its origin is not allowed or the
+ * route does not allow the method cross-origin. `Vary: Origin` is always included, since
+ * the answer depends on the origin.
+ *
+ * @param {NextRequest} req - The incoming request object
+ * @param {string} method - The method to check: the request's own, or the one a preflight asks for
+ * @returns {Record<string, string>} The headers to add to the response
+ */
+function corsHeaders(req: NextRequest, method: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Vary': 'Origin' };
+  const origin = req.headers.get('origin');
+  const rule = corsRuleFor(req.nextUrl.pathname);
+  if (!origin || !rule || !rule.methods.includes(method.toUpperCase()) || !allowedOrigins().has(origin)) {
+    return headers;
+  }
+
+  headers['Access-Control-Allow-Origin'] = origin;
+  headers['Access-Control-Allow-Methods'] = [...rule.methods, 'OPTIONS'].join(', ');
+  headers['Access-Control-Allow-Headers'] = rule.headers.join(', ');
+  if (rule.credentials) headers['Access-Control-Allow-Credentials'] = 'true';
+  return headers;
+}
+
+/**
+ * Answers a CORS preflight. Allowed origins get the route's methods and headers; other
+ * origins get a response without CORS headers, which the browser treats as a refusal.
+ *
+ * @param {NextRequest} req - The OPTIONS request
+ * @returns {NextResponse} An empty 204 response
+ */
+export function preflightResponse(req: NextRequest): NextResponse {
+  const requestedMethod = req.headers.get('access-control-request-method') || '';
+  const headers = corsHeaders(req, requestedMethod);
+  if (headers['Access-Control-Allow-Origin']) {
+    headers['Access-Control-Max-Age'] = String(CORS_MAX_AGE_SECONDS);
+  }
+  return new NextResponse(null, { status: 204, headers });
+}
+
+/**
+ * Adds the CORS headers for a request to its response.
+ *
+ * @param {NextRequest} req - The incoming request object
+ * @param {NextResponse} response - The response, e.g. `NextResponse.next()` in middleware
+ * @returns {NextResponse} The same response
+ */
+export function applyCors(req: NextRequest, response: NextResponse): NextResponse {
+  for (const [name, value] of Object.entries(corsHeaders(req, req.method))) {
+    response.headers.set(name, value);
+  }
+  return response;
 }
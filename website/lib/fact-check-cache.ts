@@ -0,0 +1,209 @@
+import { createHash } from 'crypto';
+import { db } from './firebaseAdmin';
+import { validateFactCheckResult, FactCheckResult } from './fact-check-result';
+
+export interface FactCheckCacheEntry {
+  result: FactCheckResult;
+  cachedAt: string; // ISO timestamp
+  expiresAt: string; // ISO timestamp
+}
+
+/**
+ * Storage backend for cached fact-check results, keyed by `buildCacheKey`.
+ */
+export interface FactCheckCacheStore {
+  get(key: string): Promise<FactCheckCacheEntry | null>;
+  set(key: string, entry: FactCheckCacheEntry): Promise<void>;
+}
+
+const CACHE_COLLECTION = 'factCheckCache';
+
+/**
+ * Returns how long cached results stay fresh, from FACT_CHECK_CACHE_TTL_HOURS (default 24).
+ * 
+ * @returns {number} TTL in milliseconds
+ */
+export function getCacheTtlMs(): number {
+  const hours = parseFloat(process.env.FACT_CHECK_CACHE_TTL_HOURS || '24');
+  return (Number.isFinite(hours) && hours > 0 ? hours : 24) * 60 * 60 * 1000;
+}
+
+/**
+ * Whether serving a cached result consumes a unit of the caller's daily quota.
+ * Controlled by CACHE_HITS_COUNT_AGAINST_QUOTA (default false): cache hits cost
+ * no LLM calls, so by default they are free.
+ * 
+ * @returns {boolean} True if cache hits should be charged
+ */
+export function cacheHitsCountAgainstQuota(): boolean {
+  return process.env.CACHE_HITS_COUNT_AGAINST_QUOTA === 'true';
+}
+
+/**
+ * Normalizes free text so trivially different copies of the same post share a key:
+ * Unicode NFKC, lowercase, zero-width characters removed and whitespace collapsed.
+ * 
+ * @param {string} value - Text to normalize
+ * @returns {string} Normalized text
+ */
+function normalizeText(value: string): string {
+  return value
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\u200B-\u200D\uFEFF]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalizes a bullet list of claims into a sorted, de-bulleted list so claim order
+ * and bullet style do not affect the key.
+ * 
+ * @param {string} claims - Claims text, typically "- " bullet lines
+ * @returns {string[]} Sorted normalized claims
+ */
+function normalizeClaims(claims: string): string[] {
+  return claims
+    .split('\n')
+    .map((line) => normalizeText(line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '')))
+    .filter((line) => line.length > 0)
+    .sort();
+}
+
+/**
+ * Buckets a post date to its UTC day so reposts checked minutes apart share a key
+ * while the same text posted on different days (where facts may differ) does not.
+ * 
+ * @param {string} postDate - Optional ISO date string of when the post was published
+ * @returns {string} YYYY-MM-DD bucket, or "undated"
+ */
+function postDateBucket(postDate?: string): string {
+  if (!postDate) return 'undated';
+  const date = new Date(postDate);
+  return isNaN(date.getTime()) ? 'undated' : date.toISOString().slice(0, 10);
+}
+
+/**
+ * Builds a content-addressed cache key from normalized text, claims, post date bucket,
+ * response language and post context. Requests without the optional parts keep the keys
+ * they had before those parts existed.
+ * 
+ * @param {string} text - The sanitized post text
+ * @param {string} claims - The claims to check (may be empty)
+ * @param {string} postDate - Optional ISO date string of when the post was published
+ * @param {string} responseLanguage - Optional ISO 639-1 code of the response language
+ * @param {string} context - Optional post context, as formatted for prompts
+ * @returns {string} Hex SHA-256 cache key
+ */
+export function buildCacheKey(text: string, claims: string | undefined, postDate?: string, responseLanguage?: string, context?: string): string {
+  const material = JSON.stringify({
+    v: 1,
+    text: normalizeText(text),
+    claims: normalizeClaims(claims || ''),
+    date: postDateBucket(postDate),
+    ...(responseLanguage && responseLanguage !== 'en' ? { lang: responseLanguage } : {}),
+    ...(context ? { context: normalizeText(context) } : {})
+  });
+  return createHash('sha256').update(material).digest('hex');
+}
+
+/**
+ * Builds a cache entry for a freshly computed result.
+ * 
+ * @param {FactCheckResult} result - The validated result to cache
+ * @returns {FactCheckCacheEntry} Entry stamped with cachedAt and expiresAt
+ */
+export function createCacheEntry(result: FactCheckResult): FactCheckCacheEntry {
+  const now = Date.now();
+  return {
+    result,
+    cachedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + getCacheTtlMs()).toISOString()
+  };
+}
+
+/**
+ * Checks whether a cache entry is past its expiry time.
+ * 
+ * @param {FactCheckCacheEntry} entry - The entry to check
+ * @returns {boolean} True if expired
+ */
+function isExpired(entry: FactCheckCacheEntry): boolean {
+  return new Date(entry.expiresAt).getTime() <= Date.now();
+}
+
+/**
+ * Creates a Firestore-backed cache store in the `factCheckCache` collection.
+ * Documents carry an `expireAt` Date field so a Firestore TTL policy on that field
+ * can delete stale entries; reads also ignore expired entries in case TTL cleanup lags.
+ * 
+ * @returns {FactCheckCacheStore} Firestore cache store
+ */
+export function createFirestoreCacheStore(): FactCheckCacheStore {
+  return {
+    async get(key: string) {
+      const doc = await db.collection(CACHE_COLLECTION).doc(key).get();
+      if (!doc.exists) return null;
+      const data = doc.data()!;
+
+      // Entries written under an older result shape are upgraded or treated as misses
+      const validation = validateFactCheckResult(data.result);
+      if (!validation.ok) return null;
+
+      const entry: FactCheckCacheEntry = {
+        result: validation.result,
+        cachedAt: data.cachedAt,
+        expiresAt: data.expiresAt
+      };
+      return isExpired(entry) ? null : entry;
+    },
+
+    async set(key: string, entry: FactCheckCacheEntry) {
+      await db.collection(CACHE_COLLECTION).doc(key).set({
+        ...entry,
+        expireAt: new Date(entry.expiresAt)
+      });
+    }
+  };
+}
+
+/**
+ * Creates an in-process cache store. Used for tests and local development.
+ * 
+ * @returns {FactCheckCacheStore} In-memory cache store
+ */
+export function createMemoryCacheStore(): FactCheckCacheStore {
+  const entries = new Map<string, FactCheckCacheEntry>();
+  return {
+    async get(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (isExpired(entry)) {
+        entries.delete(key);
+        return null;
+      }
+      return entry;
+    },
+
+    async set(key: string, entry: FactCheckCacheEntry) {
+      entries.set(key, entry);
+    }
+  };
+}
+
+let cachedStore: FactCheckCacheStore | null = null;
+
+/**
+ * Returns the cache store selected by FACT_CHECK_CACHE_STORE ("firestore" or "memory"),
+ * defaulting to Firestore. The store is created once per server instance.
+ * 
+ * @returns {FactCheckCacheStore} The configured cache store
+ */
+export function getFactCheckCacheStore(): FactCheckCacheStore {
+  if (!cachedStore) {
+    cachedStore = process.env.FACT_CHECK_CACHE_STORE === 'memory'
+      ? createMemoryCacheStore()
+      : createFirestoreCacheStore();
+  }
+  return cachedStore;
+}
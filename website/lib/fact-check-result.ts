@@ -0,0 +1,547 @@
+import { isValidUrl } from './url';
+
+/**
+ * Allowed overall assessment values, ordered from most to least credible.
+ */
+export const ASSESSMENTS = ["True", "Likely True", "Mixed", "Likely False", "False", "Unverifiable"] as const;
+
+export type Assessment = typeof ASSESSMENTS[number];
+
+/**
+ * Outlet categories used by the source credibility registry.
+ */
+export const SOURCE_CATEGORIES = [
+  "wire-service",
+  "news",
+  "fact-checker",
+  "government",
+  "academic",
+  "reference",
+  "satire",
+  "known-misinformation"
+] as const;
+
+export type SourceCategory = typeof SOURCE_CATEGORIES[number];
+
+/**
+ * Registry data attached to a source. Domains missing from the registry are
+ * flagged as `unknown` and have no credibility score.
+ */
+export type SourceReputation =
+  | { status: 'known'; domain: string; outlet: string; category: SourceCategory; baseScore: number }
+  | { status: 'unknown'; domain: string };
+
+export interface FactCheckSource {
+  url: string;
+  title: string;
+  credibilityScore: number | null; // 1-10; null for domains missing from the source registry
+  relevanceScore: number; // 1-10
+  summary: string;
+  searchResult: boolean;
+  reputation?: SourceReputation;
+  publishedAt?: string | null; // ISO timestamp, when known
+  publishedAfterPost?: boolean; // True if the source appeared after the post
+}
+
+export interface CredibilityRating {
+  rating: number; // 1-10
+  confidence: number; // 0-1
+  explanation: string;
+  keyEvidence: string[];
+}
+
+/**
+ * How a claim's accuracy changed between the post date and today:
+ * - `consistent`: same verdict as of the post date and today
+ * - `outdated`: accurate when posted, no longer accurate
+ * - `since-confirmed`: not supported when posted, supported now
+ * - `prediction-pending`: a prediction that has not resolved yet
+ * - `timeless`: not time-sensitive
+ * - `unknown`: could not be determined (e.g. no post date)
+ */
+export const TEMPORAL_STATUSES = [
+  "consistent",
+  "outdated",
+  "since-confirmed",
+  "prediction-pending",
+  "timeless",
+  "unknown"
+] as const;
+
+export type TemporalStatus = typeof TEMPORAL_STATUSES[number];
+
+/**
+ * One checked claim. `assessment` reflects what is known today;
+ * `assessmentAtPostDate` is the verdict as of when the post was published.
+ * When the result was requested in another language, `claim` is translated and
+ * `originalClaim` keeps the wording that was checked.
+ */
+export interface ClaimResult {
+  claim: string;
+  assessment: Assessment;
+  credibilityRating: CredibilityRating;
+  sources: FactCheckSource[];
+  assessmentAtPostDate?: Assessment;
+  temporalStatus?: TemporalStatus;
+  originalClaim?: string;
+}
+
+/**
+ * Language of the checked post. `code` is an ISO 639-1 code, or "und" when the
+ * language could not be determined.
+ */
+export interface DetectedLanguage {
+  code: string;
+  name: string;
+  confidence: number; // 0-1
+}
+
+/**
+ * A claim that could not be checked (timed out or failed upstream).
+ */
+export interface FailedClaim {
+  claim: string;
+  reason: 'timeout' | 'error';
+}
+
+export interface OverallRating {
+  rating: number; // 1-10
+  confidence: number; // 0-1
+  assessment: Assessment;
+  explanation: string;
+}
+
+export interface SearchMetadata {
+  sourcesFound: number;
+  authoritativeSources: number;
+  searchQueries: string[];
+}
+
+/**
+ * Metadata of an article linked from the post, as fetched by the server.
+ * `url` is the link as it appeared in the post; `resolvedUrl` is where it led.
+ */
+export interface LinkedArticle {
+  url: string;
+  resolvedUrl: string;
+  title: string | null;
+  byline: string | null;
+  siteName: string | null;
+  publishedAt: string | null; // ISO timestamp
+  wordCount: number;
+}
+
+/**
+ * Response body of a successful `/api/fact-check` request.
+ * `partial` is true when some claims could not be checked; those are listed in `failedClaims`
+ * and excluded from `overallRating`. `cacheKey` is set on every response from the endpoint;
+ * `cachedAt` only when the result was served from the cache. `historyId` names the entry
+ * in the caller's history, when it could be recorded.
+ */
+export interface FactCheckResult {
+  overallRating: OverallRating;
+  claims: ClaimResult[];
+  searchMetadata: SearchMetadata;
+  partial?: boolean;
+  failedClaims?: FailedClaim[];
+  cacheKey?: string;
+  cachedAt?: string;
+  historyId?: string;
+  language?: DetectedLanguage;
+  responseLanguage?: string; // ISO 639-1 code explanations and claims were written in
+  articles?: LinkedArticle[]; // Articles linked from the post that were fetched and read
+}
+
+export type FactCheckErrorCode =
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'QUOTA_EXCEEDED'
+  | 'RATE_LIMITED'
+  | 'INVALID_INPUT'
+  | 'INVALID_RESULT'
+  | 'TIMEOUT'
+  | 'UPSTREAM_ERROR';
+
+/**
+ * Response body of a failed `/api/fact-check` request.
+ */
+export interface FactCheckErrorResponse {
+  error: string;
+  code: FactCheckErrorCode;
+  details?: string[];
+  upgradeUrl?: string;
+}
+
+export type FactCheckValidation =
+  | { ok: true; result: FactCheckResult }
+  | { ok: false; errors: string[] };
+
+/**
+ * Converts a text assessment (like "True", "False", etc.) to a numeric rating from 1-10.
+ * Used to standardize credibility ratings for display and comparison.
+ * 
+ * @param {string} assessment - The text assessment value
+ * @returns {number} Numeric rating from 1 (False) to 9 (True)
+ */
+export function getRatingFromAssessment(assessment: string): number {
+  switch (assessment) {
+    case "True": return 9;
+    case "Likely True": return 8;
+    case "Mixed": return 6;
+    case "Likely False": return 3;
+    case "False": return 1;
+    case "Unverifiable": return 5;
+    default: return 5;
+  }
+}
+
+/**
+ * Generates a human-readable explanation string based on an assessment value.
+ * Provides context about what each assessment level means.
+ * 
+ * @param {string} assessment - The text assessment value
+ * @returns {string} Human-readable explanation of the assessment
+ */
+export function getExplanationFromAssessment(assessment: string): string {
+  switch (assessment) {
+    case "True": return "All claims are well-supported by evidence from authoritative sources";
+    case "Likely True": return "Most claims are well-supported by evidence from reliable sources";
+    case "Mixed": return "Some claims are supported while others lack sufficient evidence";
+    case "Likely False": return "Most claims are not supported by reliable evidence";
+    case "False": return "Claims are contradicted by evidence from authoritative sources";
+    case "Unverifiable": return "Insufficient evidence available to verify the claims";
+    default: return "Unable to assess the veracity of the claims";
+  }
+}
+
+/**
+ * Maps a numeric 1-10 rating back onto the closest assessment label.
+ * The inverse of `getRatingFromAssessment`, using midpoints between its values.
+ * 
+ * @param {number} rating - Numeric rating from 1-10
+ * @returns {Assessment} The closest assessment
+ */
+export function getAssessmentFromRating(rating: number): Assessment {
+  if (rating >= 8.5) return "True";
+  if (rating >= 7) return "Likely True";
+  if (rating >= 5.5) return "Mixed";
+  if (rating >= 4) return "Unverifiable";
+  if (rating >= 2) return "Likely False";
+  return "False";
+}
+
+/**
+ * Coerces a number or numeric string ("7", "7/10", "80%") into a number.
+ * 
+ * @param {unknown} value - The raw value from the model
+ * @returns {number | null} The parsed number, or null if it is not numeric
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const trimmed = value.trim();
+  const fraction = trimmed.match(/^(-?\d+(?:\.\d+)?)\s*\/\s*10$/);
+  if (fraction) return parseFloat(fraction[1]);
+
+  const percent = trimmed.match(/^(-?\d+(?:\.\d+)?)\s*%$/);
+  if (percent) return parseFloat(percent[1]) / 100;
+
+  const n = Number(trimmed);
+  return trimmed.length > 0 && Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Reads a numeric field and checks it falls within an inclusive range.
+ * 
+ * @param {unknown} value - The raw value
+ * @param {number} min - Minimum allowed value
+ * @param {number} max - Maximum allowed value
+ * @param {string} path - Field path used in error messages
+ * @param {string[]} errors - Error list to append to
+ * @returns {number} The coerced value (0 when invalid)
+ */
+function readRange(value: unknown, min: number, max: number, path: string, errors: string[]): number {
+  const n = toNumber(value);
+  if (n === null) {
+    errors.push(`${path} must be a number`);
+    return 0;
+  }
+  if (n < min || n > max) {
+    errors.push(`${path} must be between ${min} and ${max} (got ${n})`);
+  }
+  return n;
+}
+
+/**
+ * Reads an optional string field, defaulting to an empty string.
+ * 
+ * @param {unknown} value - The raw value
+ * @returns {string} The trimmed string, or '' if missing
+ */
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Normalizes an assessment label case-insensitively against the allowed values.
+ * 
+ * @param {unknown} value - The raw assessment
+ * @returns {Assessment | null} The canonical assessment, or null if not allowed
+ */
+function readAssessment(value: unknown): Assessment | null {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase();
+  return ASSESSMENTS.find((a) => a.toLowerCase() === normalized) || null;
+}
+
+/**
+ * Normalizes an optional date to a UTC ISO timestamp.
+ * 
+ * @param {unknown} value - The raw date (ISO string or YYYY-MM-DD)
+ * @returns {string | null} The ISO timestamp, or null if missing or unparseable
+ */
+export function readIsoDate(value: unknown): string | null {
+  if (typeof value !== 'string' || value.trim().length === 0) return null;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Reads the detected post language, ignoring anything malformed.
+ * 
+ * @param {unknown} value - The raw language object
+ * @returns {DetectedLanguage | null} The language, or null if missing or malformed
+ */
+function readLanguage(value: unknown): DetectedLanguage | null {
+  const raw = value as any;
+  if (!raw || typeof raw.code !== 'string' || typeof raw.name !== 'string') return null;
+  const confidence = toNumber(raw.confidence);
+  return {
+    code: raw.code,
+    name: raw.name,
+    confidence: confidence !== null && confidence >= 0 && confidence <= 1 ? confidence : 0
+  };
+}
+
+/**
+ * Reads linked-article metadata, ignoring anything malformed.
+ * 
+ * @param {unknown} value - The raw article object
+ * @returns {LinkedArticle | null} The article, or null if its URLs are invalid
+ */
+function readArticle(value: unknown): LinkedArticle | null {
+  const raw = value as any;
+  if (!raw || typeof raw.url !== 'string' || !isValidUrl(raw.url)) return null;
+  const resolvedUrl = typeof raw.resolvedUrl === 'string' && isValidUrl(raw.resolvedUrl) ? raw.resolvedUrl : raw.url;
+  const wordCount = toNumber(raw.wordCount);
+  return {
+    url: raw.url,
+    resolvedUrl,
+    title: readString(raw.title) || null,
+    byline: readString(raw.byline) || null,
+    siteName: readString(raw.siteName) || null,
+    publishedAt: readIsoDate(raw.publishedAt),
+    wordCount: wordCount !== null && wordCount >= 0 ? Math.round(wordCount) : 0
+  };
+}
+
+/**
+ * Reads a source's registry data, ignoring anything malformed.
+ * 
+ * @param {any} raw - The raw reputation object
+ * @returns {SourceReputation | null} The reputation, or null if missing or malformed
+ */
+function readReputation(raw: any): SourceReputation | null {
+  if (!raw || typeof raw !== 'object' || typeof raw.domain !== 'string') return null;
+  if (raw.status === 'unknown') {
+    return { status: 'unknown', domain: raw.domain };
+  }
+  if (raw.status === 'known' &&
+      typeof raw.outlet === 'string' &&
+      (SOURCE_CATEGORIES as readonly string[]).includes(raw.category) &&
+      typeof raw.baseScore === 'number') {
+    return { status: 'known', domain: raw.domain, outlet: raw.outlet, category: raw.category, baseScore: raw.baseScore };
+  }
+  return null;
+}
+
+/**
+ * Validates a single source. Sources whose URL fails `isValidUrl` are dropped
+ * rather than failing the whole result, since the model occasionally emits
+ * malformed links alongside good ones.
+ * 
+ * @param {any} raw - The raw source object
+ * @param {string} path - Field path used in error messages
+ * @param {string[]} errors - Error list to append to
+ * @returns {FactCheckSource | null} The validated source, or null if it was dropped
+ */
+function readSource(raw: any, path: string, errors: string[]): FactCheckSource | null {
+  if (!raw || typeof raw !== 'object') {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  if (!isValidUrl(raw.url)) {
+    console.warn(`Dropping source with invalid URL at ${path}:`, raw.url);
+    return null;
+  }
+
+  const source: FactCheckSource = {
+    url: raw.url,
+    title: readString(raw.title) || new URL(raw.url).hostname,
+    credibilityScore: raw.credibilityScore === null ? null : readRange(raw.credibilityScore, 1, 10, `${path}.credibilityScore`, errors),
+    relevanceScore: readRange(raw.relevanceScore, 1, 10, `${path}.relevanceScore`, errors),
+    summary: readString(raw.summary),
+    searchResult: raw.searchResult === true || raw.searchResult === 'true'
+  };
+
+  const reputation = readReputation(raw.reputation);
+  if (reputation) source.reputation = reputation;
+
+  const publishedAt = readIsoDate(raw.publishedAt ?? raw.publishedDate);
+  if (publishedAt) source.publishedAt = publishedAt;
+  if (typeof raw.publishedAfterPost === 'boolean') source.publishedAfterPost = raw.publishedAfterPost;
+  return source;
+}
+
+/**
+ * Validates a single claim and its sources.
+ * 
+ * @param {any} raw - The raw claim object
+ * @param {string} path - Field path used in error messages
+ * @param {string[]} errors - Error list to append to
+ * @returns {ClaimResult} The validated claim
+ */
+function readClaim(raw: any, path: string, errors: string[]): ClaimResult {
+  if (!raw || typeof raw !== 'object') {
+    errors.push(`${path} must be an object`);
+    raw = {};
+  }
+
+  const claim = readString(raw.claim);
+  if (!claim) errors.push(`${path}.claim is required`);
+
+  const cr = raw.credibilityRating || {};
+  const keyEvidence = Array.isArray(cr.keyEvidence)
+    ? cr.keyEvidence.filter((e: unknown) => typeof e === 'string')
+    : [];
+
+  const sources = Array.isArray(raw.sources) ? raw.sources : [];
+  const rating = readRange(cr.rating, 1, 10, `${path}.credibilityRating.rating`, errors);
+
+  // Older results carry no per-claim assessment; derive it from the rating
+  let assessment = readAssessment(raw.assessment);
+  if (!assessment) {
+    if (raw.assessment !== undefined) {
+      errors.push(`${path}.assessment must be one of ${ASSESSMENTS.join(', ')}`);
+    }
+    assessment = getAssessmentFromRating(rating);
+  }
+
+  const result: ClaimResult = {
+    claim,
+    assessment,
+    credibilityRating: {
+      rating,
+      confidence: readRange(cr.confidence, 0, 1, `${path}.credibilityRating.confidence`, errors),
+      explanation: readString(cr.explanation),
+      keyEvidence
+    },
+    sources: sources
+      .map((s: any, i: number) => readSource(s, `${path}.sources[${i}]`, errors))
+      .filter((s: FactCheckSource | null): s is FactCheckSource => s !== null)
+  };
+
+  const originalClaim = readString(raw.originalClaim);
+  if (originalClaim && originalClaim !== claim) result.originalClaim = originalClaim;
+
+  // Temporal fields are optional: results from before they existed simply lack them
+  const assessmentAtPostDate = readAssessment(raw.assessmentAtPostDate);
+  if (assessmentAtPostDate) result.assessmentAtPostDate = assessmentAtPostDate;
+  if (raw.temporalStatus !== undefined && raw.temporalStatus !== null) {
+    const status = typeof raw.temporalStatus === 'string' ? raw.temporalStatus.trim().toLowerCase() : '';
+    result.temporalStatus = (TEMPORAL_STATUSES as readonly string[]).includes(status) ? status as TemporalStatus : 'unknown';
+  }
+
+  return result;
+}
+
+/**
+ * Validates and coerces a single claim result, as produced by a per-claim check.
+ * 
+ * @param {unknown} input - The value to validate
+ * @returns {{ ok: true, claim: ClaimResult } | { ok: false, errors: string[] }} The validated claim, or the validation errors
+ */
+export function validateClaimResult(input: unknown): { ok: true; claim: ClaimResult } | { ok: false; errors: string[] } {
+  const errors: string[] = [];
+  const claim = readClaim(input, 'claim', errors);
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, claim };
+}
+
+/**
+ * Validates and coerces an untrusted value (typically parsed model output) into a FactCheckResult.
+ * Numeric strings are coerced, assessment labels are normalized, invalid source URLs are dropped
+ * and missing search metadata is derived from the claims.
+ * 
+ * @param {unknown} input - The value to validate
+ * @returns {FactCheckValidation} The validated result, or the list of validation errors
+ */
+export function validateFactCheckResult(input: unknown): FactCheckValidation {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object') {
+    return { ok: false, errors: ['result must be an object'] };
+  }
+  const raw = input as any;
+
+  if (!raw.overallRating || typeof raw.overallRating !== 'object') {
+    errors.push('overallRating is required');
+  }
+  if (!Array.isArray(raw.claims)) {
+    errors.push('claims must be an array');
+  }
+  if (errors.length > 0) return { ok: false, errors };
+
+  const assessment = readAssessment(raw.overallRating.assessment);
+  if (!assessment) {
+    errors.push(`overallRating.assessment must be one of ${ASSESSMENTS.join(', ')}`);
+  }
+
+  const overallRating: OverallRating = {
+    rating: readRange(raw.overallRating.rating, 1, 10, 'overallRating.rating', errors),
+    confidence: readRange(raw.overallRating.confidence, 0, 1, 'overallRating.confidence', errors),
+    assessment: assessment || 'Unverifiable',
+    explanation: readString(raw.overallRating.explanation) || getExplanationFromAssessment(assessment || '')
+  };
+
+  const claims = raw.claims.map((c: any, i: number) => readClaim(c, `claims[${i}]`, errors));
+
+  const sm = raw.searchMetadata || {};
+  const sourcesFound = claims.reduce((n: number, c: ClaimResult) => n + c.sources.length, 0);
+  const searchMetadata: SearchMetadata = {
+    sourcesFound: toNumber(sm.sourcesFound) ?? sourcesFound,
+    authoritativeSources: toNumber(sm.authoritativeSources) ?? 0,
+    searchQueries: Array.isArray(sm.searchQueries)
+      ? sm.searchQueries.filter((q: unknown) => typeof q === 'string')
+      : []
+  };
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const result: FactCheckResult = { overallRating, claims, searchMetadata };
+  if (raw.partial === true && Array.isArray(raw.failedClaims)) {
+    result.partial = true;
+    result.failedClaims = raw.failedClaims
+      .filter((f: any) => f && typeof f.claim === 'string')
+      .map((f: any) => ({ claim: f.claim, reason: f.reason === 'timeout' ? 'timeout' : 'error' }));
+  }
+  const language = readLanguage(raw.language);
+  if (language) result.language = language;
+  if (typeof raw.responseLanguage === 'string' && raw.responseLanguage) result.responseLanguage = raw.responseLanguage;
+  if (Array.isArray(raw.articles)) {
+    const articles = raw.articles.map(readArticle).filter((a: LinkedArticle | null): a is LinkedArticle => a !== null);
+    if (articles.length > 0) result.articles = articles;
+  }
+  return { ok: true, result };
+}
@@ -0,0 +1,242 @@
+import { runFactCheck, parseClaims, normalizePostDate, FactCheckRunOptions } from './fact-check';
+import { extractClaims, formatClaimBullets } from './claims';
+import { recordCheck, HistoryRecordInput } from './history';
+import { reserveQuota, QUOTA_UPGRADE_URL } from './quota';
+import { normalizeLanguageCode, truncateText, SUPPORTED_LANGUAGES } from './language';
+import { PostContext, readPostContext, formatPostContext } from './post-context';
+import { readLinkedArticles } from './articles';
+import { buildCacheKey, createCacheEntry, cacheHitsCountAgainstQuota, getFactCheckCacheStore } from './fact-check-cache';
+import { FactCheckErrorCode, FactCheckErrorResponse, FactCheckResult, FactCheckValidation, LinkedArticle } from './fact-check-result';
+
+/**
+ * Outcome of a fact-check request: the result, or an HTTP status with the shared error envelope.
+ */
+export type FactCheckOutcome =
+  | { ok: true; result: FactCheckResult }
+  | FactCheckFailure;
+
+/**
+ * Options for one fact-check request. `countBurst: false` is used by batch items, which
+ * are charged per item but belong to a single accepted batch request; `apiKeyId`
+ * attributes the usage to the API key the request was made with.
+ */
+export interface ExecuteFactCheckOptions extends FactCheckRunOptions {
+  countBurst?: boolean;
+  apiKeyId?: string;
+}
+
+export interface FactCheckFailure {
+  ok: false;
+  status: number;
+  error: FactCheckErrorResponse;
+}
+
+/**
+ * Builds a failed outcome using the shared fact-check error envelope.
+ *
+ * @param {number} status - HTTP status code
+ * @param {FactCheckErrorCode} code - Machine-readable error code
+ * @param {string} error - Human-readable error message
+ * @param {Partial<FactCheckErrorResponse>} extra - Optional details or upgrade URL
+ * @returns {FactCheckFailure} Failed outcome
+ */
+export function factCheckFailure(status: number, code: FactCheckErrorCode, error: string, extra: Partial<FactCheckErrorResponse> = {}): FactCheckFailure {
+  return { ok: false, status, error: { error, code, ...extra } };
+}
+
+/**
+ * Maps an exception thrown while processing a fact-check onto the error envelope.
+ *
+ * @param {any} e - The thrown error
+ * @returns {FactCheckFailure} Failed outcome with the matching status and code
+ */
+export function factCheckFailureFromError(e: any): FactCheckFailure {
+  if (e?.message === "NO_AUTH") {
+    return factCheckFailure(401, 'UNAUTHORIZED', "Not signed in");
+  }
+  if (e?.message === "FORBIDDEN") {
+    return factCheckFailure(403, 'FORBIDDEN', "API key does not have the required scope");
+  }
+  if (e?.message === "QUOTA_EXCEEDED") {
+    return factCheckFailure(402, 'QUOTA_EXCEEDED', "Quota exceeded", {
+      upgradeUrl: QUOTA_UPGRADE_URL
+    });
+  }
+  if (e?.message === "RATE_LIMITED") {
+    return factCheckFailure(429, 'RATE_LIMITED', "Too many requests, please slow down");
+  }
+  if (e?.message === "CLAIM_TIMEOUT") {
+    return factCheckFailure(504, 'TIMEOUT', "Fact check timed out");
+  }
+  console.error("Gemini error:", e?.response?.data || e?.message || e);
+  const msg = e?.message || "unknown";
+  // If SDK threw a 400, surface it; otherwise 500
+  const isBadReq = /400/i.test(msg);
+  return factCheckFailure(isBadReq ? 400 : 500, isBadReq ? 'INVALID_INPUT' : 'UPSTREAM_ERROR', `Gemini API error: ${msg}`);
+}
+
+/**
+ * Sanitizes post text before it is used in prompts.
+ *
+ * @param {unknown} text - The raw `text` field from the request body
+ * @returns {string | null} Sanitized text, or null if the input is missing or too short
+ */
+export function sanitizePostText(text: unknown): string | null {
+  if (!text || typeof text !== "string" || text.length < 5) return null;
+
+  // Sanitize input text to prevent URL-related issues
+  const stripped = text
+    .replace(/[<>]/g, '') // Remove potential HTML/XML tags
+    .replace(/[{}]/g, ''); // Remove JSON-like structures
+  const sanitizedText = truncateText(stripped, 2000).trim(); // Limit length in characters, whatever the script
+
+  return sanitizedText.length < 5 ? null : sanitizedText;
+}
+
+/**
+ * Extracts claims server-side for requests that arrive without any, e.g. when the
+ * extension's on-device Prompt API is unavailable. Extraction failures are not fatal:
+ * the pipeline then checks the post text as a single claim.
+ *
+ * @param {string} text - The sanitized post text
+ * @param {PostContext} context - Quoted and parent posts, links and alt text around the post
+ * @returns {Promise<string | undefined>} Claims as a bullet list, or undefined if none were found
+ */
+async function extractMissingClaims(text: string, context: PostContext): Promise<string | undefined> {
+  try {
+    const extracted = await extractClaims(text, { context: formatPostContext(context) || undefined });
+    console.log('Extracted claims server-side:', { count: extracted.length });
+    return extracted.length > 0 ? formatClaimBullets(extracted) : undefined;
+  } catch (error) {
+    console.warn('Server-side claim extraction failed:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Saves a completed check to the user's history and returns the result with its `historyId`.
+ * History is best-effort: a failed write is logged and the result is returned without an ID.
+ *
+ * @param {string} uid - The user's ID
+ * @param {HistoryRecordInput} input - The checked post and its result
+ * @returns {Promise<FactCheckResult>} The result, with `historyId` when recorded
+ */
+async function withHistory(uid: string, input: HistoryRecordInput): Promise<FactCheckResult> {
+  try {
+    const historyId = await recordCheck(uid, input);
+    return { ...input.result, historyId };
+  } catch (error) {
+    console.warn('Fact-check history write failed:', error);
+    return input.result;
+  }
+}
+
+/**
+ * Processes a fact-check request for an authenticated user: validates input, serves cached
+ * results when available, reserves quota, runs the check, caches the result and records it in the user's history.
+ * Claims are extracted server-side when `claims` is missing or empty.
+ * Quota is refunded if the check fails. Pass `forceRefresh: true` in the body to bypass the cache.
+ * `responseLanguage` (ISO 639-1 code or English name) selects the language of explanations and claims.
+ * The structured post fields (`author`, `quotedPost`, `parentPosts`, `links`, `mediaAltText`)
+ * are used to interpret the post during claim extraction and verification; linked articles
+ * are fetched server-side and their metadata is returned in `articles`.
+ * Shared by the JSON and streaming fact-check endpoints so both apply the same rules.
+ *
+ * @param {string} uid - The authenticated user's ID
+ * @param {any} body - The parsed request body ({ text, claims, postDate, postUrl, platform, responseLanguage, forceRefresh, author, quotedPost, parentPosts, links, mediaAltText })
+ * @param {ExecuteFactCheckOptions} options - Optional progress callback, burst accounting and API key
+ * @returns {Promise<FactCheckOutcome>} The result or a failed outcome; never throws
+ */
+export async function executeFactCheck(uid: string, body: any, options: ExecuteFactCheckOptions = {}): Promise<FactCheckOutcome> {
+  try {
+    const { text, claims, postUrl, platform, forceRefresh } = body || {};
+    // Unparseable dates are treated as unknown rather than rejected
+    const postDate = normalizePostDate(body?.postDate);
+
+    const requestedLanguage = body?.responseLanguage;
+    const responseLanguage = requestedLanguage === undefined || requestedLanguage === null || requestedLanguage === ''
+      ? undefined
+      : normalizeLanguageCode(requestedLanguage);
+    if (responseLanguage === null) {
+      return factCheckFailure(400, 'INVALID_INPUT', `Unsupported responseLanguage; use one of: ${Object.keys(SUPPORTED_LANGUAGES).join(', ')}`);
+    }
+
+    if (!text || typeof text !== "string" || text.length < 5) {
+      return factCheckFailure(400, 'INVALID_INPUT', "Invalid input");
+    }
+
+    const sanitizedText = sanitizePostText(text);
+    if (!sanitizedText) {
+      return factCheckFailure(400, 'INVALID_INPUT', "Invalid input after sanitization");
+    }
+
+    const contextValidation = readPostContext(body);
+    if (!contextValidation.ok) {
+      return factCheckFailure(400, 'INVALID_INPUT', "Invalid post context", { details: contextValidation.errors });
+    }
+    const context = contextValidation.context;
+
+    // Serve identical recent checks from the cache unless the client asked for a fresh run
+    const cacheKey = buildCacheKey(sanitizedText, claims, postDate, responseLanguage, formatPostContext(context));
+    const cacheStore = getFactCheckCacheStore();
+    const cached = forceRefresh ? null : await cacheStore.get(cacheKey).catch((error) => {
+      console.warn('Fact-check cache read failed:', error);
+      return null;
+    });
+
+    // Reserve a unit of quota; cache hits are free unless configured otherwise
+    const reservation = (!cached || cacheHitsCountAgainstQuota()) ? await reserveQuota(uid, 'factCheck', { countBurst: options.countBurst, apiKeyId: options.apiKeyId }) : null;
+
+    if (cached) {
+      await reservation?.commit();
+      console.log('Serving fact-check from cache:', cacheKey);
+      const result = { ...cached.result, cacheKey, cachedAt: cached.cachedAt };
+      return { ok: true, result: await withHistory(uid, { text: sanitizedText, postUrl, platform, postDate, result, cached: true }) };
+    }
+
+    console.log('Processing fact-check request:', {
+      textLength: sanitizedText.length,
+      postDate: postDate,
+      responseLanguage: responseLanguage || 'en',
+      contextPosts: (context.quotedPost ? 1 : 0) + context.parentPosts.length,
+      links: context.links.length
+    });
+
+    let structured: FactCheckValidation;
+    let articles: LinkedArticle[];
+    try {
+      // Read linked articles so a post that is mostly a headline is checked against what it links to
+      const linked = await readLinkedArticles(context, sanitizedText);
+      articles = linked.articles;
+      if (articles.length > 0) options.onEvent?.({ type: 'articles', articles });
+
+      const claimsToCheck = parseClaims(claims).length > 0 ? claims : await extractMissingClaims(sanitizedText, linked.context);
+
+      // Check each claim with its own grounded call and aggregate the verdict
+      structured = await runFactCheck({ text: sanitizedText, claims: claimsToCheck, postDate, responseLanguage, context: linked.context }, options);
+    } catch (error) {
+      // Do not charge for checks that failed upstream
+      await reservation?.refund();
+      throw error;
+    }
+
+    if (!structured.ok) {
+      await reservation?.refund();
+      return factCheckFailure(502, 'INVALID_RESULT', "Fact-check result failed validation", {
+        details: structured.errors
+      });
+    }
+
+    await reservation?.commit();
+
+    const checked: FactCheckResult = articles.length > 0 ? { ...structured.result, articles } : structured.result;
+    await cacheStore.set(cacheKey, createCacheEntry(checked)).catch((error) => {
+      console.warn('Fact-check cache write failed:', error);
+    });
+
+    const result = { ...checked, cacheKey };
+    return { ok: true, result: await withHistory(uid, { text: sanitizedText, postUrl, platform, postDate, result, cached: false }) };
+  } catch (e: any) {
+    return factCheckFailureFromError(e);
+  }
+}
@@ -0,0 +1,643 @@
+import { getLLMProvider } from './llm';
+import { isValidUrl } from './url';
+import { mapWithConcurrency, withTimeout } from './concurrency';
+import { applySourceReputation } from './source-registry';
+import { getSourceResolver } from './source-resolver';
+import { detectLanguage, languageName } from './language';
+import { PostContext, formatPostContext } from './post-context';
+import {
+  Assessment,
+  ClaimResult,
+  DetectedLanguage,
+  FailedClaim,
+  FactCheckErrorResponse,
+  FactCheckResult,
+  FactCheckValidation,
+  LinkedArticle,
+  OverallRating,
+  TemporalStatus,
+  getExplanationFromAssessment,
+  getRatingFromAssessment,
+  readIsoDate,
+  validateClaimResult
+} from './fact-check-result';
+
+export interface GroundedSource {
+  url: string;
+  title: string | null;
+  publishedAt?: string | null;
+}
+
+/**
+ * Input to a fact-check run. `claims` is a bullet list ("- " per line) as produced by
+ * the extension's claim extraction; when it is empty the whole post text is checked as one claim.
+ * `language` is detected from `text` when not given; explanations are written in
+ * `responseLanguage` (an ISO 639-1 code, default English). `context` (quoted and parent
+ * posts, links, alt text) helps interpret the post but is not checked itself.
+ */
+export interface FactCheckInput {
+  text: string;
+  claims?: string;
+  postDate?: string;
+  language?: DetectedLanguage;
+  responseLanguage?: string;
+  context?: PostContext;
+}
+
+/**
+ * Progress events emitted while a fact-check runs, in the order clients can expect them:
+ * `articles` once if the post links to readable articles, `claims` once, then
+ * `searching` / `sources` / `claim` (or `claimFailed`) per claim, and finally exactly
+ * one of `result` or `error`.
+ */
+export type FactCheckEvent =
+  | { type: 'articles'; articles: LinkedArticle[] }
+  | { type: 'claims'; claims: string[] }
+  | { type: 'searching'; index: number; claim: string }
+  | { type: 'sources'; index: number; claim: string; sources: GroundedSource[] }
+  | { type: 'claim'; index: number; result: ClaimResult }
+  | { type: 'claimFailed'; index: number; claim: string; reason: FailedClaim['reason'] }
+  | { type: 'result'; result: FactCheckResult }
+  | { type: 'error'; status: number; error: FactCheckErrorResponse };
+
+export interface FactCheckRunOptions {
+  onEvent?: (event: FactCheckEvent) => void;
+}
+
+/**
+ * Raw output of the grounded research call for one claim.
+ */
+interface ClaimResearch {
+  rawResponse: string;
+  groundedSources: GroundedSource[];
+  searchQueries: string[];
+}
+
+const MAX_CLAIMS = 5;
+
+/**
+ * Returns how many claims are checked in parallel, from FACT_CHECK_CLAIM_CONCURRENCY (default 3).
+ * 
+ * @returns {number} Maximum concurrent claim checks
+ */
+function claimConcurrency(): number {
+  const n = parseInt(process.env.FACT_CHECK_CLAIM_CONCURRENCY || '3', 10);
+  return Number.isFinite(n) && n > 0 ? n : 3;
+}
+
+/**
+ * Returns the per-claim time budget, from FACT_CHECK_CLAIM_TIMEOUT_MS (default 25000).
+ * 
+ * @returns {number} Timeout in milliseconds
+ */
+function claimTimeoutMs(): number {
+  const n = parseInt(process.env.FACT_CHECK_CLAIM_TIMEOUT_MS || '25000', 10);
+  return Number.isFinite(n) && n > 0 ? n : 25000;
+}
+
+/**
+ * Extracts grounded sources from LLM grounding metadata.
+ * Searches through grounding metadata structures to find URLs and titles of sources used by the model.
+ * 
+ * @param {any} groundingMetadata - Grounding metadata from the provider response
+ * @returns {GroundedSource[]} Array of source objects with URLs and optional titles
+ */
+export function extractGrounded(groundingMetadata: any): GroundedSource[] {
+  const gm = groundingMetadata || {};
+
+  console.log("=== EXTRACTING GROUNDED SOURCES ===");
+  console.log("Grounding metadata structure:", JSON.stringify(gm, null, 2));
+
+  const realSources: GroundedSource[] = [];
+
+  // Helper function to extract sources from any object structure
+  function extractSourcesFromObject(obj: any, path: string = '') {
+    if (!obj || typeof obj !== 'object') return;
+    
+    // Look for common source patterns
+    if (obj.url && isValidUrl(obj.url)) {
+      realSources.push({
+        url: obj.url,
+        title: obj.title || obj.name || obj.headline || null
+      });
+    }
+    
+    // Look for nested arrays of sources
+    if (Array.isArray(obj)) {
+      obj.forEach((item, index) => extractSourcesFromObject(item, `${path}[${index}]`));
+    } else if (typeof obj === 'object') {
+      Object.keys(obj).forEach(key => {
+        if (key.toLowerCase().includes('source') || 
+            key.toLowerCase().includes('result') || 
+            key.toLowerCase().includes('url') ||
+            key.toLowerCase().includes('web')) {
+          extractSourcesFromObject(obj[key], `${path}.${key}`);
+        }
+      });
+    }
+  }
+
+  // Extract from all possible grounding metadata structures
+  extractSourcesFromObject(gm);
+
+  // Also try specific known structures
+  const webSearchQueries = gm.webSearchQueries || gm.web?.searchQueries || [];
+  const webSearchResults = gm.webSearchResults || gm.web?.searchResults || [];
+  const groundingChunks = gm.groundingChunks || gm.grounding_chunks || [];
+
+  // Extract from web search queries
+  if (Array.isArray(webSearchQueries)) {
+    webSearchQueries.forEach((query: any) => {
+      if (query.webSearchResults && Array.isArray(query.webSearchResults)) {
+        query.webSearchResults.forEach((result: any) => {
+          if (result.url && isValidUrl(result.url)) {
+            realSources.push({
+              url: result.url,
+              title: result.title || result.name || result.headline || null
+            });
+          }
+        });
+      }
+    });
+  }
+
+  // Extract from direct web search results
+  if (Array.isArray(webSearchResults)) {
+    webSearchResults.forEach((result: any) => {
+      if (result.url && isValidUrl(result.url)) {
+        realSources.push({
+          url: result.url,
+          title: result.title || result.name || result.headline || null
+        });
+      }
+    });
+  }
+
+  // Extract from grounding chunks
+  if (Array.isArray(groundingChunks)) {
+    groundingChunks.forEach((chunk: any) => {
+      const url = chunk.web?.uri || chunk.source?.url || chunk.url || chunk.uri;
+      if (url && isValidUrl(url)) {
+        realSources.push({
+          url: url,
+          title: chunk.web?.title || chunk.source?.title || chunk.title || chunk.name || null
+        });
+      }
+    });
+  }
+
+  // Remove duplicates
+  const clean: GroundedSource[] = [];
+  const seen = new Set<string>();
+  
+  for (const source of realSources) {
+    const url = source.url;
+    if (!url || !isValidUrl(url)) continue;
+    if (seen.has(url)) continue;
+    seen.add(url);
+    clean.push(source);
+  }
+
+  console.log("Extracted sources:", clean.length);
+  console.log("Final clean sources:", JSON.stringify(clean, null, 2));
+
+  return clean.slice(0, 5); // Increased from 3 to 5 to get more sources
+}
+
+/**
+ * Extracts the search queries the model ran from grounding metadata.
+ * 
+ * @param {any} groundingMetadata - Grounding metadata from the provider response
+ * @returns {string[]} Search query strings
+ */
+function extractSearchQueries(groundingMetadata: any): string[] {
+  const queries = groundingMetadata?.webSearchQueries;
+  return Array.isArray(queries) ? queries.filter((q: unknown) => typeof q === 'string') : [];
+}
+
+/**
+ * Splits a bullet list of claims into individual claim strings.
+ * Accepts "- ", "* ", "• " and numbered ("1." / "1)") bullets; blank lines are skipped.
+ * 
+ * @param {string} claims - Claims text, one claim per line
+ * @returns {string[]} Individual claims, at most MAX_CLAIMS
+ */
+export function parseClaims(claims?: string): string[] {
+  if (!claims || typeof claims !== 'string') return [];
+  return claims
+    .split('\n')
+    .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+    .filter((line) => line.length > 0)
+    .slice(0, MAX_CLAIMS);
+}
+
+/**
+ * Normalizes a client-supplied post date to a UTC ISO timestamp.
+ * 
+ * @param {unknown} postDate - The raw post date
+ * @returns {string | undefined} ISO timestamp, or undefined if missing or unparseable
+ */
+export function normalizePostDate(postDate: unknown): string | undefined {
+  return readIsoDate(postDate) || undefined;
+}
+
+/**
+ * Formats the post date and today's date (both UTC) for prompts, so the model can
+ * tell "accurate when posted" apart from "accurate now".
+ * 
+ * @param {string} postDate - Optional UTC ISO timestamp of when the post was published
+ * @returns {string} Prompt suffix with the dates
+ */
+function formatDateContext(postDate?: string): string {
+  const today = new Date().toISOString().slice(0, 10);
+  return postDate
+    ? `\n\nPost date (UTC): ${postDate}\nToday's date (UTC): ${today}`
+    : `\n\nPost date: unknown\nToday's date (UTC): ${today}`;
+}
+
+/**
+ * Tells the model which language the post is in, so it searches in that language as
+ * well as English. English and undetermined posts get no extra instruction.
+ * 
+ * @param {DetectedLanguage} language - Optional detected post language
+ * @returns {string} Prompt suffix, or an empty string
+ */
+function formatLanguageContext(language?: DetectedLanguage): string {
+  if (!language || language.code === 'und' || language.code === 'en') return '';
+  return `\n\nThe post is written in ${language.name}. Search for sources in ${language.name} and in English, and weigh both.`;
+}
+
+/**
+ * Formats the post context for the research prompt.
+ * 
+ * @param {PostContext} context - Optional post context
+ * @returns {string} Prompt section, or an empty string if there is no context
+ */
+function formatResearchContext(context?: PostContext): string {
+  const formatted = formatPostContext(context);
+  return formatted ? `\n\n        ${formatted.replace(/\n/g, '\n        ')}` : '';
+}
+
+/**
+ * Researches a single claim using the configured LLM provider with search grounding.
+ * Returns raw response text and grounded sources that can be used for verification.
+ * 
+ * @param {FactCheckInput} input - The original post text and surrounding context, post date and language
+ * @param {string} claim - The claim to fact-check
+ * @returns {Promise<ClaimResearch>} Raw response text, grounded sources and search queries
+ */
+async function researchClaim(input: FactCheckInput, claim: string): Promise<ClaimResearch> {
+  const prompt = `You are a fact-checker on social media. You are given one claim taken from a post.
+        - find 1-3 sources that support or deny the claim. 
+        - Provide links that go directly to the sources.
+        - Give each source a title and only the title by itself (name of the source such as "CNN", "BBC", "Reuters", etc.)
+        - Give each source a credibility score from 1-10 and a relevance score from 1-10.
+        - Give the claim a rating from 1-10 and a confidence from 0.0-1.0.
+        - Give the claim an assessment of exactly one of "True", "Likely True", "Mixed", "Likely False", "False", or "Unverifiable" as of today.
+        - If the post date is known, also give the assessment as of the post date, using only what was true at that time.
+        - Say whether the claim was accurate when posted but is now outdated, was unsupported when posted but has since been confirmed, is a prediction that has not resolved yet, or is not time-sensitive.
+        - Give each source's publication date if known.
+        - Also give a strictly 1 sentence explanation for the claim. 
+        When finished write "END_FACT_CHECK".
+
+        Post text (for context only):
+        ${input.text}${formatResearchContext(input.context)}
+
+        Claim to analyze:
+        ${claim}${formatDateContext(input.postDate)}${formatLanguageContext(input.language)}`;
+
+  console.log("=== CLAIM FACT CHECK API CALL ===", claim);
+  const response = await getLLMProvider().generateWithSearch(prompt, {
+    maxOutputTokens: 2048,
+    temperature: 0.0,
+    stopSequences: ["END_FACT_CHECK"],
+    seed: 67
+  });
+
+  console.log("=== CLAIM FACT CHECK API RESPONSE ===");
+  console.log("Raw text content:", response.text);
+
+  // Build the sources from grounding metadata (not the model's sources), resolving redirect links
+  const grounded = await getSourceResolver().resolve(extractGrounded(response.groundingMetadata));
+  console.log("Number of grounded sources:", grounded.length);
+
+  return {
+    rawResponse: response.text,
+    groundedSources: grounded,
+    searchQueries: extractSearchQueries(response.groundingMetadata)
+  };
+}
+
+/**
+ * Parses model output as JSON, stripping code fences and falling back to the
+ * outermost {...} block when the model wraps the JSON in prose.
+ * 
+ * @param {string} rawText - The model output
+ * @returns {any} The parsed value, or undefined if no JSON could be recovered
+ */
+export function parseModelJson(rawText: string): any {
+  const cleanedText = rawText.replace(/```(?:json)?\s*([\s\S]*?)\s*```/gi, "$1").trim();
+  try {
+    return JSON.parse(cleanedText);
+  } catch (parseError) {
+    console.warn('Failed to parse structured JSON, attempting recovery:', parseError);
+    const jsonMatch = cleanedText.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return undefined;
+    try {
+      return JSON.parse(jsonMatch[0]);
+    } catch (recoveryError) {
+      console.warn('Structured JSON recovery failed:', recoveryError);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Derives a claim's temporal status from its two verdicts when the model did not give one.
+ * 
+ * @param {Assessment} atPostDate - The verdict as of the post date
+ * @param {Assessment} today - The verdict as of today
+ * @returns {TemporalStatus} The derived status
+ */
+function deriveTemporalStatus(atPostDate: Assessment, today: Assessment): TemporalStatus {
+  const supported = (a: Assessment) => a === "True" || a === "Likely True";
+  const refuted = (a: Assessment) => a === "False" || a === "Likely False";
+
+  if (atPostDate === today) return "consistent";
+  if (supported(atPostDate) && refuted(today)) return "outdated";
+  if (!supported(atPostDate) && supported(today)) return "since-confirmed";
+  return "unknown";
+}
+
+/**
+ * Applies the post date to a structured claim: fills in source publication dates
+ * (preferring dates read from the publisher's page), flags sources published after
+ * the post, and settles the claim's temporal status.
+ * 
+ * @param {ClaimResult} claim - The validated claim result
+ * @param {GroundedSource[]} groundedSources - Resolved sources from the research call
+ * @param {string} postDate - Optional UTC ISO timestamp of when the post was published
+ * @returns {ClaimResult} The claim with temporal fields set
+ */
+export function applyTemporalContext(claim: ClaimResult, groundedSources: GroundedSource[], postDate?: string): ClaimResult {
+  const postTime = postDate ? new Date(postDate).getTime() : NaN;
+
+  const sources = claim.sources.map((source) => {
+    const grounded = groundedSources.find((g) => g.url === source.url);
+    const publishedAt = readIsoDate(grounded?.publishedAt) || source.publishedAt || null;
+    const { publishedAfterPost, ...rest } = source;
+    if (!publishedAt) return rest;
+    return isNaN(postTime)
+      ? { ...rest, publishedAt }
+      : { ...rest, publishedAt, publishedAfterPost: new Date(publishedAt).getTime() > postTime };
+  });
+
+  // Without a post date there is nothing to compare today's verdict against
+  if (isNaN(postTime)) {
+    const { assessmentAtPostDate, ...rest } = claim;
+    return { ...rest, sources, temporalStatus: "unknown" };
+  }
+
+  const temporalStatus = claim.temporalStatus && claim.temporalStatus !== "unknown"
+    ? claim.temporalStatus
+    : claim.assessmentAtPostDate
+      ? deriveTemporalStatus(claim.assessmentAtPostDate, claim.assessment)
+      : "unknown";
+
+  return { ...claim, sources, temporalStatus };
+}
+
+/**
+ * Structures the research for one claim into a validated ClaimResult, written in the
+ * requested response language. A translated claim keeps the checked wording in `originalClaim`.
+ * 
+ * @param {FactCheckInput} input - The post date and response language
+ * @param {string} claim - The claim that was researched
+ * @param {ClaimResearch} research - The grounded research output
+ * @returns {Promise<ClaimResult>} The validated claim result
+ * @throws {Error} Throws error with message "INVALID_RESULT" (and a `details` array) if the output fails validation
+ */
+async function structureClaim(input: FactCheckInput, claim: string, research: ClaimResearch): Promise<ClaimResult> {
+  const responseLanguage = languageName(input.responseLanguage || 'en');
+  const prompt = `
+Transform the following fact-check of a single claim into a clean JSON object with this structure:
+{
+  "claim": string,
+  "assessment": "True" | "Likely True" | "Mixed" | "Likely False" | "False" | "Unverifiable",
+  "assessmentAtPostDate": "True" | "Likely True" | "Mixed" | "Likely False" | "False" | "Unverifiable" | null,
+  "temporalStatus": "consistent" | "outdated" | "since-confirmed" | "prediction-pending" | "timeless" | "unknown",
+  "credibilityRating": {
+    "rating": number (1-10),
+    "confidence": number (0-1),
+    "explanation": string,
+    "keyEvidence": string[]
+  },
+  "sources": [
+    {
+      "url": string,
+      "title": string,
+      "credibilityScore": number (1-10),
+      "relevanceScore": number (1-10),
+      "summary": string,
+      "searchResult": boolean,
+      "publishedDate": string | null (YYYY-MM-DD)
+    }
+  ]
+}
+
+Rules:
+- Preserve all original data and values
+- Ensure all numbers are properly typed (not strings)
+- Only use source URLs from the grounded sources list
+- "assessment" is the verdict as of today; "assessmentAtPostDate" is the verdict as of the post date (null if the post date is unknown)
+- "temporalStatus": "consistent" if both verdicts agree, "outdated" if accurate when posted but not now, "since-confirmed" if unsupported when posted but supported now, "prediction-pending" for unresolved predictions, "timeless" if not time-sensitive, otherwise "unknown"
+- Keep explanations concise but informative
+- Write "claim", the explanation, key evidence and source summaries in ${responseLanguage}; translate "claim" if needed but keep its meaning exactly. Do not translate source titles or URLs
+- Return ONLY the JSON object, no markdown or code fences
+- Write "END_JSON" at the end of the response
+
+Claim:
+${claim}${formatDateContext(input.postDate)}
+
+Raw fact-check response:
+${research.rawResponse}
+
+Available grounded sources:
+${JSON.stringify(research.groundedSources, null, 2)}
+`;
+
+  const response = await getLLMProvider().generateText(prompt, {
+    maxOutputTokens: 4096,
+    temperature: 0.0,
+    stopSequences: ["END_JSON"],
+    seed: 67,
+    responseMimeType: "application/json"
+  });
+
+  const parsed = response.text ? parseModelJson(response.text) : undefined;
+  // Only a requested response language may change the claim's wording
+  const translated = input.responseLanguage && typeof parsed?.claim === 'string' && parsed.claim.trim() ? parsed.claim : null;
+  const validation = validateClaimResult(parsed === undefined ? undefined : {
+    ...parsed,
+    claim: translated || claim,
+    originalClaim: translated ? claim : undefined
+  });
+  if (!validation.ok) {
+    console.warn('Claim result failed validation:', validation.errors);
+    const error: any = new Error("INVALID_RESULT");
+    error.details = validation.errors;
+    throw error;
+  }
+
+  // Registry data overrides or bounds the model's per-source credibility scores
+  const scored = { ...validation.claim, sources: validation.claim.sources.map(applySourceReputation) };
+  return applyTemporalContext(scored, research.groundedSources, input.postDate);
+}
+
+/**
+ * Checks a single claim end to end: grounded research followed by structuring.
+ * 
+ * @param {FactCheckInput} input - The original post text (for context), post date and languages
+ * @param {string} claim - The claim to fact-check
+ * @param {number} index - Position of the claim, used in progress events
+ * @param {Function} onEvent - Optional progress callback
+ * @returns {Promise<{ result: ClaimResult, searchQueries: string[] }>} The claim result and the searches run for it
+ */
+export async function checkClaim(input: FactCheckInput, claim: string, index: number = 0, onEvent?: FactCheckRunOptions['onEvent']) {
+  onEvent?.({ type: 'searching', index, claim });
+  const research = await researchClaim(input, claim);
+  onEvent?.({ type: 'sources', index, claim, sources: research.groundedSources });
+  const result = await structureClaim(input, claim, research);
+  return { result, searchQueries: research.searchQueries };
+}
+
+/**
+ * Computes the overall rating deterministically from per-claim assessments on the
+ * `getRatingFromAssessment` scale. Unverifiable claims only count when nothing else could be rated;
+ * confidence is scaled down by the share of claims that could not be checked.
+ * 
+ * @param {ClaimResult[]} claims - Successfully checked claims
+ * @param {FailedClaim[]} failed - Claims that timed out or failed
+ * @returns {OverallRating} The aggregated overall rating
+ */
+export function aggregateOverallRating(claims: ClaimResult[], failed: FailedClaim[] = []): OverallRating {
+  const rated = claims.filter((c) => c.assessment !== "Unverifiable");
+  const pool = rated.length > 0 ? rated : claims;
+  const ratings = pool.map((c) => getRatingFromAssessment(c.assessment));
+  const average = ratings.length > 0 ? ratings.reduce((a, b) => a + b, 0) / ratings.length : 5;
+
+  let assessment: Assessment;
+  if (rated.length === 0) {
+    assessment = "Unverifiable";
+  } else if (rated.every((c) => c.assessment === rated[0].assessment)) {
+    assessment = rated[0].assessment;
+  } else if (average >= 7.5) {
+    assessment = "Likely True";
+  } else if (average <= 3) {
+    assessment = "Likely False";
+  } else {
+    assessment = "Mixed";
+  }
+
+  const total = claims.length + failed.length;
+  const coverage = total > 0 ? claims.length / total : 0;
+  const meanConfidence = claims.length > 0
+    ? claims.reduce((sum, c) => sum + c.credibilityRating.confidence, 0) / claims.length
+    : 0;
+
+  let explanation = getExplanationFromAssessment(assessment);
+  if (failed.length > 0) {
+    explanation += ` (${failed.length} of ${total} claims could not be checked)`;
+  }
+
+  return {
+    rating: Math.min(10, Math.max(1, Math.round(average))),
+    confidence: Math.round(meanConfidence * coverage * 100) / 100,
+    assessment,
+    explanation
+  };
+}
+
+/**
+ * Runs a full fact-check: splits the claims, checks each with its own grounded call
+ * (bounded concurrency, per-claim timeout) and aggregates the overall verdict.
+ * Returns a partial result when some, but not all, claims fail.
+ * 
+ * @param {FactCheckInput} input - Post text, claims, optional post date and response language
+ * @param {FactCheckRunOptions} options - Optional progress callback
+ * @returns {Promise<FactCheckValidation>} The result, or validation errors if every claim produced invalid output
+ * @throws {Error} Throws error with message "CLAIM_TIMEOUT" if every claim timed out, or the first upstream error
+ */
+export async function runFactCheck(input: FactCheckInput, options: FactCheckRunOptions = {}): Promise<FactCheckValidation> {
+  const { onEvent } = options;
+  const language = input.language || detectLanguage(input.text);
+  const claimInput: FactCheckInput = { ...input, language };
+  const parsedClaims = parseClaims(input.claims);
+  const claimList = parsedClaims.length > 0 ? parsedClaims : [input.text];
+  const timeoutMs = claimTimeoutMs();
+
+  console.log('Checking claims:', { count: claimList.length, concurrency: claimConcurrency(), timeoutMs, language: language.code });
+  onEvent?.({ type: 'claims', claims: claimList });
+
+  const settled = await mapWithConcurrency(claimList, claimConcurrency(), (claim, index) => {
+    // Drop progress from a claim that already timed out so clients never see events after claimFailed
+    let claimSettled = false;
+    const claimEvents = onEvent && ((event: FactCheckEvent) => { if (!claimSettled) onEvent(event); });
+
+    return withTimeout(checkClaim(claimInput, claim, index, claimEvents), timeoutMs, "CLAIM_TIMEOUT").then(
+      (checked) => {
+        claimSettled = true;
+        onEvent?.({ type: 'claim', index, result: checked.result });
+        return checked;
+      },
+      (error) => {
+        claimSettled = true;
+        onEvent?.({ type: 'claimFailed', index, claim, reason: error?.message === "CLAIM_TIMEOUT" ? 'timeout' : 'error' });
+        throw error;
+      }
+    );
+  });
+
+  const claims: ClaimResult[] = [];
+  const failed: FailedClaim[] = [];
+  const failures: any[] = [];
+  const searchQueries = new Set<string>();
+
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      claims.push(outcome.value.result);
+      outcome.value.searchQueries.forEach((q) => searchQueries.add(q));
+    } else {
+      const reason = outcome.reason;
+      console.warn(`Claim check failed: ${claimList[i]}`, reason?.message || reason);
+      failed.push({ claim: claimList[i], reason: reason?.message === "CLAIM_TIMEOUT" ? 'timeout' : 'error' });
+      failures.push(reason);
+    }
+  });
+
+  if (claims.length === 0) {
+    if (failures.every((f) => f?.message === "INVALID_RESULT")) {
+      return { ok: false, errors: failures.flatMap((f, i) => (f.details || []).map((d: string) => `${claimList[i]}: ${d}`)) };
+    }
+    throw failures.find((f) => f?.message !== "INVALID_RESULT");
+  }
+
+  const sources = claims.flatMap((c) => c.sources);
+  const result: FactCheckResult = {
+    overallRating: aggregateOverallRating(claims, failed),
+    claims,
+    searchMetadata: {
+      sourcesFound: sources.length,
+      authoritativeSources: sources.filter((s) => s.reputation?.status === 'known' && (s.credibilityScore ?? 0) >= 8).length,
+      searchQueries: Array.from(searchQueries)
+    },
+    language,
+    responseLanguage: input.responseLanguage || 'en'
+  };
+  if (failed.length > 0) {
+    result.partial = true;
+    result.failedClaims = failed;
+  }
+
+  return { ok: true, result };
+}
@@ -0,0 +1,239 @@
+import { db } from './firebaseAdmin';
+import { isValidUrl } from './url';
+import { Assessment, ASSESSMENTS, FactCheckResult } from './fact-check-result';
+
+/**
+ * Platforms a checked post can come from. Anything else is stored as "other".
+ */
+export const HISTORY_PLATFORMS = ['twitter', 'instagram', 'facebook', 'other'] as const;
+
+export type HistoryPlatform = typeof HISTORY_PLATFORMS[number];
+
+/**
+ * One source cited anywhere in a check, flattened for browsing.
+ */
+export interface HistorySource {
+  url: string;
+  title: string;
+}
+
+/**
+ * A completed fact-check stored at users/{uid}/checks/{id}.
+ * `assessment` duplicates `result.overallRating.assessment` so it can be filtered on.
+ */
+export interface HistoryEntry {
+  id: string;
+  text: string;
+  claims: string[];
+  postUrl: string | null;
+  platform: HistoryPlatform;
+  postDate: string | null;
+  assessment: Assessment;
+  result: FactCheckResult;
+  sources: HistorySource[];
+  cached: boolean;
+  createdAt: string; // ISO timestamp
+  permalinkSlug: string | null; // Active public permalink, if published
+}
+
+/**
+ * Details of a completed check, as known to the request handler.
+ */
+export interface HistoryRecordInput {
+  text: string;
+  postUrl?: unknown;
+  platform?: unknown;
+  postDate?: unknown;
+  result: FactCheckResult;
+  cached: boolean;
+}
+
+export interface HistoryQuery {
+  limit?: number;
+  cursor?: string; // ID of the last entry on the previous page
+  assessment?: Assessment;
+  platform?: HistoryPlatform;
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, exclusive
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  nextCursor: string | null;
+}
+
+export const DEFAULT_HISTORY_PAGE_SIZE = 20;
+export const MAX_HISTORY_PAGE_SIZE = 100;
+
+/**
+ * Returns the history subcollection for a user.
+ *
+ * @param {string} uid - The user's ID
+ * @returns {FirebaseFirestore.CollectionReference} The users/{uid}/checks collection
+ */
+function checksCollection(uid: string) {
+  return db.collection('users').doc(uid).collection('checks');
+}
+
+/**
+ * Normalizes a client-supplied platform name.
+ *
+ * @param {unknown} value - The raw platform
+ * @returns {HistoryPlatform} The platform, or "other" if it is not recognized
+ */
+export function normalizePlatform(value: unknown): HistoryPlatform {
+  const platform = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (platform === 'x') return 'twitter';
+  return (HISTORY_PLATFORMS as readonly string[]).includes(platform) ? platform as HistoryPlatform : 'other';
+}
+
+/**
+ * Checks whether a value is one of the allowed assessments (exact match).
+ *
+ * @param {unknown} value - The raw value
+ * @returns {boolean} True if the value is an assessment
+ */
+export function isAssessment(value: unknown): value is Assessment {
+  return typeof value === 'string' && (ASSESSMENTS as readonly string[]).includes(value);
+}
+
+/**
+ * Collects the unique sources cited across all claims of a result.
+ *
+ * @param {FactCheckResult} result - The fact-check result
+ * @returns {HistorySource[]} Sources in first-seen order
+ */
+function collectSources(result: FactCheckResult): HistorySource[] {
+  const seen = new Set<string>();
+  const sources: HistorySource[] = [];
+  for (const claim of result.claims) {
+    for (const source of claim.sources) {
+      if (seen.has(source.url)) continue;
+      seen.add(source.url);
+      sources.push({ url: source.url, title: source.title });
+    }
+  }
+  return sources;
+}
+
+/**
+ * Converts a stored document into a history entry.
+ *
+ * @param {FirebaseFirestore.DocumentSnapshot} doc - The users/{uid}/checks document
+ * @returns {HistoryEntry} The history entry
+ */
+function toEntry(doc: FirebaseFirestore.DocumentSnapshot): HistoryEntry {
+  const data = doc.data()!;
+  return {
+    id: doc.id,
+    text: data.text,
+    claims: data.claims || [],
+    postUrl: data.postUrl || null,
+    platform: data.platform || 'other',
+    postDate: data.postDate || null,
+    assessment: data.assessment,
+    result: data.result,
+    sources: data.sources || [],
+    cached: data.cached === true,
+    createdAt: data.createdAt,
+    permalinkSlug: data.permalinkSlug || null
+  };
+}
+
+/**
+ * Stores a completed fact-check in the user's history.
+ *
+ * @param {string} uid - The user's ID
+ * @param {HistoryRecordInput} input - The checked post and its result
+ * @returns {Promise<string>} The new history entry's ID
+ */
+export async function recordCheck(uid: string, input: HistoryRecordInput): Promise<string> {
+  const postDate = typeof input.postDate === 'string' && !isNaN(new Date(input.postDate).getTime())
+    ? new Date(input.postDate).toISOString()
+    : null;
+
+  // cacheKey and cachedAt describe one response, not the check itself
+  const { cacheKey, cachedAt, historyId, ...result } = input.result;
+
+  const entry: Omit<HistoryEntry, 'id'> = {
+    text: input.text,
+    claims: result.claims.map((c) => c.claim),
+    postUrl: typeof input.postUrl === 'string' && isValidUrl(input.postUrl) ? input.postUrl : null,
+    platform: normalizePlatform(input.platform),
+    postDate,
+    assessment: result.overallRating.assessment,
+    result,
+    sources: collectSources(result),
+    cached: input.cached,
+    createdAt: new Date().toISOString(),
+    permalinkSlug: null
+  };
+
+  const ref = await checksCollection(uid).add(entry);
+  return ref.id;
+}
+
+/**
+ * Lists a user's history, newest first.
+ * Filtering on assessment or platform together with a date range needs the composite
+ * indexes listed in the README.
+ *
+ * @param {string} uid - The user's ID
+ * @param {HistoryQuery} query - Page size, cursor and filters
+ * @returns {Promise<HistoryPage>} The page of entries and the cursor for the next page
+ * @throws {Error} Throws error with message "INVALID_CURSOR" if the cursor does not name an entry
+ */
+export async function listHistory(uid: string, query: HistoryQuery = {}): Promise<HistoryPage> {
+  const limit = Math.min(Math.max(query.limit || DEFAULT_HISTORY_PAGE_SIZE, 1), MAX_HISTORY_PAGE_SIZE);
+
+  let ref: FirebaseFirestore.Query = checksCollection(uid);
+  if (query.assessment) ref = ref.where('assessment', '==', query.assessment);
+  if (query.platform) ref = ref.where('platform', '==', query.platform);
+  if (query.from) ref = ref.where('createdAt', '>=', query.from);
+  if (query.to) ref = ref.where('createdAt', '<', query.to);
+  ref = ref.orderBy('createdAt', 'desc');
+
+  if (query.cursor) {
+    if (query.cursor.includes('/')) throw new Error("INVALID_CURSOR");
+    const cursorDoc = await checksCollection(uid).doc(query.cursor).get();
+    if (!cursorDoc.exists) throw new Error("INVALID_CURSOR");
+    ref = ref.startAfter(cursorDoc);
+  }
+
+  // Fetch one extra entry to learn whether another page exists
+  const snapshot = await ref.limit(limit + 1).get();
+  const docs = snapshot.docs.slice(0, limit);
+
+  return {
+    entries: docs.map(toEntry),
+    nextCursor: snapshot.docs.length > limit ? docs[docs.length - 1].id : null
+  };
+}
+
+/**
+ * Reads a single history entry.
+ *
+ * @param {string} uid - The user's ID
+ * @param {string} id - The history entry ID
+ * @returns {Promise<HistoryEntry | null>} The entry, or null if it does not exist
+ */
+export async function getHistoryEntry(uid: string, id: string): Promise<HistoryEntry | null> {
+  const doc = await checksCollection(uid).doc(id).get();
+  return doc.exists ? toEntry(doc) : null;
+}
+
+/**
+ * Deletes a single history entry. A published permalink for the entry stays up
+ * until it is revoked separately.
+ *
+ * @param {string} uid - The user's ID
+ * @param {string} id - The history entry ID
+ * @returns {Promise<boolean>} True if the entry existed and was deleted
+ */
+export async function deleteHistoryEntry(uid: string, id: string): Promise<boolean> {
+  const ref = checksCollection(uid).doc(id);
+  const doc = await ref.get();
+  if (!doc.exists) return false;
+  await ref.delete();
+  return true;
+}
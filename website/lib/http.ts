@@ -0,0 +1,33 @@
+/**
+ * Posts a JSON body to an upstream API and returns the parsed response.
+ * Logs and throws a descriptive error (including the HTTP status) on failure.
+ * 
+ * @param {string} label - Human-readable upstream name used in logs and errors
+ * @param {string} url - Endpoint URL
+ * @param {Record<string, string>} headers - Extra request headers
+ * @param {any} body - Request body to serialize as JSON
+ * @returns {Promise<any>} Parsed JSON response
+ * @throws {Error} Throws error with status and body text if the request fails
+ */
+export async function postJson(label: string, url: string, headers: Record<string, string>, body: any): Promise<any> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const errorData = await response.text();
+    console.error(`${label} API error details:`, {
+      status: response.status,
+      statusText: response.statusText,
+      errorData: errorData
+    });
+    throw new Error(`${label} API error: ${response.status} ${response.statusText} - ${errorData}`);
+  }
+
+  return await response.json();
+}
@@ -0,0 +1,216 @@
+import { getLLMProvider, parseImageData } from './llm';
+import { extractClaims, formatClaimBullets } from './claims';
+import { reserveQuota, QUOTA_UPGRADE_URL } from './quota';
+import { detectLanguage } from './language';
+import { DetectedLanguage } from './fact-check-result';
+
+export const MAX_IMAGES_PER_REQUEST = 5;
+
+/**
+ * Response body of a successful `/api/image-extraction` request.
+ */
+export interface ImageExtractionResult {
+  success: true;
+  extractedText: string;
+  claims?: string;
+  language: DetectedLanguage;
+  imageCount: number;
+}
+
+/**
+ * Response body of a failed `/api/image-extraction` request.
+ */
+export interface ImageExtractionErrorResponse {
+  error: string;
+  success: false;
+  upgradeUrl?: string;
+}
+
+/**
+ * Outcome of an image extraction request: the result, or an HTTP status with the error body.
+ */
+export type ImageExtractionOutcome =
+  | { ok: true; result: ImageExtractionResult }
+  | ImageExtractionFailure;
+
+export interface ImageExtractionFailure {
+  ok: false;
+  status: number;
+  error: ImageExtractionErrorResponse;
+}
+
+/**
+ * Extracts text content from images using the configured LLM provider's vision model.
+ * Converts base64 image data and sends it to the vision model for OCR processing.
+ *
+ * @param {string[]} images - Array of base64-encoded image data URIs
+ * @param {string} prompt - Optional custom prompt for text extraction (uses default if not provided)
+ * @returns {Promise<string>} Extracted text content from all images
+ */
+async function extractTextFromImages(images: string[], prompt?: string): Promise<string> {
+  const defaultPrompt = `Extract all text content from this image. Include:
+1. Any visible text, captions, or labels
+2. Headlines or titles
+3. Any quotes or claims visible in the image
+4. Text from signs, screenshots, or documents
+
+Keep the text in its original language and script; do not translate it.
+Return the extracted text in a clear, organized format. If there are multiple claims or statements, list them as bullet points.
+If no text is found, return "No text detected in image."`;
+
+  const extractionPrompt = prompt || defaultPrompt;
+
+  console.log("=== IMAGE EXTRACTION API CALL ===");
+  console.log(`Processing ${images.length} image(s)`);
+
+  const response = await getLLMProvider().generateFromImages(images.map(parseImageData), extractionPrompt, {
+    maxOutputTokens: 4096,
+    temperature: 0.0
+  });
+
+  console.log("=== IMAGE EXTRACTION API RESPONSE ===");
+
+  // Extract text from response
+  const extractedText = response.text;
+
+  if (!extractedText || extractedText.trim().length === 0) {
+    return "No text could be extracted from the provided images.";
+  }
+
+  return extractedText.trim();
+}
+
+/**
+ * Extracts verifiable claims from extracted image text using the shared claim extractor.
+ *
+ * @param {string} text - The extracted text from images to analyze
+ * @returns {Promise<string>} Bullet-point formatted list of extracted claims
+ */
+async function extractClaimsFromText(text: string): Promise<string> {
+  try {
+    const claims = await extractClaims(text, { sourceLabel: 'text extracted from an image' });
+    return formatClaimBullets(claims);
+  } catch (error) {
+    console.warn('Claim extraction error:', error);
+    return "";
+  }
+}
+
+/**
+ * Checks the `images` field of an image extraction request body.
+ *
+ * @param {unknown} images - The raw `images` field
+ * @returns {string | null} The error message, or null if the images are valid
+ */
+export function validateImages(images: unknown): string | null {
+  if (!images || !Array.isArray(images) || images.length === 0) {
+    return "No images provided";
+  }
+
+  // Limit number of images per request
+  if (images.length > MAX_IMAGES_PER_REQUEST) {
+    return `Maximum ${MAX_IMAGES_PER_REQUEST} images per request`;
+  }
+
+  // Validate each image is base64 encoded
+  for (const image of images) {
+    if (!image || typeof image !== 'string') {
+      return "Invalid image format";
+    }
+  }
+  return null;
+}
+
+/**
+ * Processes an image extraction request for an authenticated user: validates the images,
+ * reserves quota, extracts text, and optionally extracts claims from the text.
+ * Quota is refunded if extraction fails. Shared by the route and the job worker.
+ *
+ * @param {string} uid - The authenticated user's ID
+ * @param {any} body - The parsed request body ({ images, extractClaims })
+ * @param {{ apiKeyId?: string }} options - The API key to attribute usage to, if one was used
+ * @returns {Promise<ImageExtractionOutcome>} The result or a failed outcome; never throws
+ */
+export async function executeImageExtraction(uid: string, body: any, options: { apiKeyId?: string } = {}): Promise<ImageExtractionOutcome> {
+  try {
+    const { images, extractClaims } = body || {};
+
+    // Validate input
+    const invalid = validateImages(images);
+    if (invalid) {
+      return { ok: false, status: 400, error: { error: invalid, success: false } };
+    }
+
+    console.log('Processing image extraction request:', {
+      imageCount: images.length,
+      extractClaims: extractClaims || false
+    });
+
+    // Reserve a unit of quota only once the request is known to be valid
+    const reservation = await reserveQuota(uid, 'imageExtraction', { apiKeyId: options.apiKeyId });
+
+    let extractedText: string;
+    let claims = "";
+    try {
+      // Extract text from images
+      extractedText = await extractTextFromImages(images);
+
+      // Optionally extract claims from the extracted text
+      if (extractClaims) {
+        claims = await extractClaimsFromText(extractedText);
+      }
+    } catch (error) {
+      // Do not charge for extractions that failed upstream
+      await reservation.refund();
+      throw error;
+    }
+
+    await reservation.commit();
+
+    return {
+      ok: true,
+      result: {
+        success: true,
+        extractedText,
+        claims: claims || undefined,
+        language: detectLanguage(extractedText),
+        imageCount: images.length
+      }
+    };
+  } catch (e: any) {
+    return imageExtractionFailureFromError(e);
+  }
+}
+
+/**
+ * Maps an exception thrown while processing an image extraction onto its error response.
+ *
+ * @param {any} e - The thrown error
+ * @returns {ImageExtractionFailure} Failed outcome with the matching status
+ */
+export function imageExtractionFailureFromError(e: any): ImageExtractionFailure {
+  if (e?.message === "NO_AUTH") {
+    return { ok: false, status: 401, error: { error: "Not signed in", success: false } };
+  }
+  if (e?.message === "FORBIDDEN") {
+    return { ok: false, status: 403, error: { error: "API key does not have the required scope", success: false } };
+  }
+  if (e?.message === "QUOTA_EXCEEDED") {
+    return {
+      ok: false,
+      status: 402,
+      error: { error: "Quota exceeded", upgradeUrl: QUOTA_UPGRADE_URL, success: false }
+    };
+  }
+  if (e?.message === "RATE_LIMITED") {
+    return { ok: false, status: 429, error: { error: "Too many requests, please slow down", success: false } };
+  }
+  console.error("Image extraction error:", e?.response?.data || e?.message || e);
+  const msg = e?.message || "unknown";
+  const isBadReq = /400/i.test(msg);
+  return {
+    ok: false,
+    status: isBadReq ? 400 : 500,
+    error: { error: `Image extraction error: ${msg}`, success: false }
+  };
+}
@@ -0,0 +1,645 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from './firebaseAdmin';
+import { executeFactCheck, sanitizePostText } from './fact-check-service';
+import { executeImageExtraction, validateImages, ImageExtractionErrorResponse } from './image-extraction';
+import { FactCheckErrorResponse } from './fact-check-result';
+import { notifyWebhooks } from './webhooks';
+import { processBatchJob, failBatchJob } from './batch';
+
+/**
+ * Kinds of work that can run as a job. The input of each is the body of the matching
+ * endpoint (`/api/fact-check` or `/api/image-extraction`).
+ */
+export const JOB_TYPES = ['factCheck', 'imageExtraction'] as const;
+
+export type JobType = typeof JOB_TYPES[number];
+
+/**
+ * Job types the queue also runs internally, not submitted through `/api/jobs`:
+ * `factCheckBatch` processes a batch from `/api/fact-check/batch`, with input `{ batchId }`.
+ * These jobs are not visible to their owner; the batch itself is.
+ */
+type InternalJobType = JobType | 'factCheckBatch';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * Error of a failed job: the endpoint's error body plus the HTTP status it would have had.
+ */
+export type JobError = (FactCheckErrorResponse | ImageExtractionErrorResponse) & { status: number };
+
+/**
+ * What the owner sees of a job. The input is not echoed back.
+ */
+export interface JobView {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  result: any | null; // The endpoint's response body once the job succeeded
+  error: JobError | null;
+  cancelRequested: boolean;
+  nextAttemptAt: string | null; // When a queued job becomes eligible to run
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+/**
+ * A job as stored at jobs/{id}.
+ */
+interface StoredJob {
+  ownerUid: string;
+  apiKeyId: string | null; // API key the job was submitted with; its usage is attributed to the key
+  type: InternalJobType;
+  input: any;
+  inputHash: string;
+  idempotencyKey: string | null;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string; // ISO timestamp
+  leaseId: string | null;
+  leaseExpiresAt: string | null; // ISO timestamp
+  cancelRequested: boolean;
+  result: any | null;
+  error: JobError | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  expireAt: Date; // Firestore TTL field
+}
+
+/**
+ * A job claimed by a worker. `leaseId` proves the worker still owns the job when it
+ * writes the outcome.
+ */
+interface ClaimedJob {
+  id: string;
+  leaseId: string;
+  job: StoredJob;
+}
+
+/**
+ * Outcome of one attempt. `paused` means the work stopped at the deadline with more to
+ * do: the job is queued again after `retryAfterMs` without using up an attempt.
+ */
+type JobOutcome =
+  | { ok: true; result: any }
+  | { ok: false; status: number; error: FactCheckErrorResponse | ImageExtractionErrorResponse }
+  | { ok: false; paused: true; retryAfterMs: number };
+
+/**
+ * Options passed to a job runner: the API key the job was submitted with, and when
+ * (epoch ms) a runner that can pause should stop.
+ */
+interface RunnerOptions {
+  apiKeyId?: string;
+  deadline: number;
+}
+
+export interface WorkerOptions {
+  budgetMs?: number; // Stop claiming new jobs after this long
+  concurrency?: number;
+}
+
+const JOB_COLLECTION = 'jobs';
+
+/**
+ * Job inputs are stored in the job document, which Firestore caps at 1 MiB.
+ */
+export const MAX_JOB_INPUT_BYTES = 900 * 1024;
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const CLAIM_CANDIDATES = 5;
+
+/**
+ * How long a batch waits before it is tried again when its remaining items are being
+ * checked by another worker.
+ */
+const BATCH_BUSY_RETRY_MS = 30 * 1000;
+
+/**
+ * Runs a slice of a batch: its unfinished items until the deadline. The job succeeds once
+ * every item has an outcome, and pauses while items are left.
+ *
+ * @param {string} uid - The owner's ID
+ * @param {{ batchId: string }} input - The batch to process
+ * @param {RunnerOptions} options - The API key and deadline
+ * @returns {Promise<JobOutcome>} The outcome of this slice
+ */
+async function runBatchJob(uid: string, input: { batchId: string }, options: RunnerOptions): Promise<JobOutcome> {
+  const progress = await processBatchJob(uid, input.batchId, options);
+  if (progress.finished) {
+    return { ok: true, result: { batchId: input.batchId, status: progress.job.status } };
+  }
+  return { ok: false, paused: true, retryAfterMs: progress.claimable ? 0 : BATCH_BUSY_RETRY_MS };
+}
+
+/**
+ * Runs one job's work, the same way the matching endpoint does.
+ */
+const JOB_RUNNERS: Record<InternalJobType, (uid: string, input: any, options: RunnerOptions) => Promise<JobOutcome>> = {
+  factCheck: executeFactCheck,
+  imageExtraction: executeImageExtraction,
+  factCheckBatch: runBatchJob
+};
+
+/**
+ * Returns how many times a job is attempted from JOB_MAX_ATTEMPTS (default 3).
+ *
+ * @returns {number} Maximum attempts per job
+ */
+function jobMaxAttempts(): number {
+  const n = parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10);
+  return Number.isFinite(n) && n > 0 ? n : 3;
+}
+
+/**
+ * Returns the delay before the first retry from JOB_RETRY_BASE_MS (default 5000).
+ * Each further retry waits twice as long, up to five minutes.
+ *
+ * @returns {number} Base retry delay in milliseconds
+ */
+function jobRetryBaseMs(): number {
+  const n = parseInt(process.env.JOB_RETRY_BASE_MS || '5000', 10);
+  return Number.isFinite(n) && n >= 0 ? n : 5000;
+}
+
+/**
+ * Returns how long a worker owns a claimed job from JOB_LEASE_MS (default 10 minutes).
+ * Jobs whose worker died are picked up again once the lease runs out.
+ *
+ * @returns {number} Lease duration in milliseconds
+ */
+function jobLeaseMs(): number {
+  const n = parseInt(process.env.JOB_LEASE_MS || String(10 * 60 * 1000), 10);
+  return Number.isFinite(n) && n > 0 ? n : 10 * 60 * 1000;
+}
+
+/**
+ * Checks whether new jobs are started in the server process right away. Disable with
+ * JOB_INLINE_WORKER=false on serverless hosts, where work after the response may be frozen,
+ * and run the worker endpoint from a scheduler instead.
+ *
+ * @returns {boolean} True if the inline worker is enabled
+ */
+function inlineWorkerEnabled(): boolean {
+  return process.env.JOB_INLINE_WORKER !== 'false';
+}
+
+/**
+ * Returns the jobs collection.
+ *
+ * @returns {FirebaseFirestore.CollectionReference} The jobs collection
+ */
+function jobsCollection() {
+  return db.collection(JOB_COLLECTION);
+}
+
+/**
+ * Hashes a value to hex with SHA-256.
+ *
+ * @param {string} value - The value to hash
+ * @returns {string} Hex digest
+ */
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Checks whether a value is a job type (exact match).
+ *
+ * @param {unknown} value - The raw value
+ * @returns {boolean} True if the value is a job type
+ */
+export function isJobType(value: unknown): value is JobType {
+  return typeof value === 'string' && (JOB_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Validates a job's input up front, so malformed work is rejected at submission
+ * instead of failing later in the worker.
+ *
+ * @param {JobType} type - The job type
+ * @param {any} input - The endpoint body to run
+ * @returns {string | null} The error message, or null if the input is valid
+ */
+export function validateJobInput(type: JobType, input: any): string | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return "input must be an object";
+  if (Buffer.byteLength(JSON.stringify(input)) > MAX_JOB_INPUT_BYTES) {
+    return `input must be at most ${MAX_JOB_INPUT_BYTES} bytes`;
+  }
+  if (type === 'factCheck') {
+    return sanitizePostText(input.text) ? null : "input.text must be at least 5 characters";
+  }
+  return validateImages(input.images);
+}
+
+/**
+ * Normalizes a client-supplied idempotency key.
+ *
+ * @param {unknown} value - The raw key from the Idempotency-Key header or body
+ * @returns {string | null | undefined} The key, undefined if absent, or null if invalid
+ */
+export function readIdempotencyKey(value: unknown): string | null | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+  const key = value.trim();
+  return key.length > 0 && key.length <= MAX_IDEMPOTENCY_KEY_LENGTH && /^[\x21-\x7E]+$/.test(key) ? key : null;
+}
+
+/**
+ * Builds the owner's view of a stored job.
+ *
+ * @param {string} id - The job ID
+ * @param {StoredJob} job - The stored job
+ * @returns {JobView} The job view
+ */
+function toView(id: string, job: StoredJob): JobView {
+  return {
+    id,
+    type: job.type as JobType, // Internal jobs are never shown
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    result: job.result || null,
+    error: job.error || null,
+    cancelRequested: job.cancelRequested === true,
+    nextAttemptAt: job.status === 'queued' ? job.runAfter : null,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt || null
+  };
+}
+
+/**
+ * Stores a queued job and starts the inline worker if it was created.
+ *
+ * @param {string} uid - The owner's ID
+ * @param {InternalJobType} type - The job type
+ * @param {any} input - The job's input
+ * @param {{ idempotencyKey?: string, apiKeyId?: string }} options - Optional client-chosen key and the API key used
+ * @returns {Promise<{ id: string, job: StoredJob, created: boolean }>} The stored job, and whether it was created by this call
+ * @throws {Error} Throws error with message "IDEMPOTENCY_CONFLICT" if the key was used for a different job
+ */
+async function insertJob(
+  uid: string,
+  type: InternalJobType,
+  input: any,
+  options: { idempotencyKey?: string; apiKeyId?: string }
+): Promise<{ id: string; job: StoredJob; created: boolean }> {
+  const { idempotencyKey } = options;
+  const ref = idempotencyKey ? jobsCollection().doc(sha256(`${uid}:${idempotencyKey}`)) : jobsCollection().doc();
+  const inputHash = sha256(JSON.stringify({ type, input }));
+  const now = new Date();
+
+  const outcome = await db.runTransaction(async (tx) => {
+    const existing = await tx.get(ref);
+    if (existing.exists) {
+      const job = existing.data() as StoredJob;
+      if (job.ownerUid !== uid || job.inputHash !== inputHash) throw new Error("IDEMPOTENCY_CONFLICT");
+      return { id: ref.id, job, created: false };
+    }
+
+    const job: StoredJob = {
+      ownerUid: uid,
+      apiKeyId: options.apiKeyId || null,
+      type,
+      input,
+      inputHash,
+      idempotencyKey: idempotencyKey || null,
+      status: 'queued',
+      attempts: 0,
+      maxAttempts: jobMaxAttempts(),
+      runAfter: now.toISOString(),
+      leaseId: null,
+      leaseExpiresAt: null,
+      cancelRequested: false,
+      result: null,
+      error: null,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      completedAt: null,
+      expireAt: new Date(now.getTime() + JOB_RETENTION_MS)
+    };
+    tx.set(ref, job);
+    return { id: ref.id, job, created: true };
+  });
+
+  if (outcome.created && inlineWorkerEnabled()) kickWorker();
+  return outcome;
+}
+
+/**
+ * Queues a job. With an idempotency key, the job ID is derived from the user and key,
+ * so resubmitting returns the existing job instead of running the work twice.
+ *
+ * @param {string} uid - The owner's ID
+ * @param {JobType} type - The job type
+ * @param {any} input - Validated endpoint body from `validateJobInput`
+ * @param {{ idempotencyKey?: string, apiKeyId?: string }} options - Optional client-chosen key and the API key used
+ * @returns {Promise<{ job: JobView, created: boolean }>} The job, and whether it was created by this call
+ * @throws {Error} Throws error with message "IDEMPOTENCY_CONFLICT" if the key was used for a different job
+ */
+export async function createJob(
+  uid: string,
+  type: JobType,
+  input: any,
+  options: { idempotencyKey?: string; apiKeyId?: string } = {}
+): Promise<{ job: JobView; created: boolean }> {
+  const { id, job, created } = await insertJob(uid, type, input, options);
+  return { job: toView(id, job), created };
+}
+
+/**
+ * Queues the processing of a batch created by `createBatchJob`. The batch is worked
+ * through by the job worker, across several runs if needed, and is failed if the worker
+ * gives up on it.
+ *
+ * @param {string} uid - The owner's ID
+ * @param {string} batchId - The batch job ID
+ * @param {string} [apiKeyId] - The API key the batch was submitted with
+ * @returns {Promise<void>}
+ */
+export async function queueBatchJob(uid: string, batchId: string, apiKeyId?: string): Promise<void> {
+  await insertJob(uid, 'factCheckBatch', { batchId }, { apiKeyId });
+}
+
+/**
+ * Reads one of the user's jobs.
+ *
+ * @param {string} uid - The owner's ID
+ * @param {string} id - The job ID
+ * @returns {Promise<JobView | null>} The job, or null if it does not exist or belongs to someone else
+ */
+export async function getJob(uid: string, id: string): Promise<JobView | null> {
+  const doc = await jobsCollection().doc(id).get();
+  if (!doc.exists) return null;
+  const job = doc.data() as StoredJob;
+  return job.ownerUid === uid && isJobType(job.type) ? toView(doc.id, job) : null;
+}
+
+/**
+ * Cancels one of the user's jobs. Queued jobs are cancelled at once. A running attempt
+ * cannot be interrupted: it finishes, and the job ends as cancelled unless that attempt
+ * succeeded, in which case its result is kept. Either way the job is not retried.
+ *
+ * @param {string} uid - The owner's ID
+ * @param {string} id - The job ID
+ * @returns {Promise<JobView | null>} The updated job, or null if it does not exist or belongs to someone else
+ * @throws {Error} Throws error with message "JOB_FINISHED" if the job already finished
+ */
+export async function cancelJob(uid: string, id: string): Promise<JobView | null> {
+  const ref = jobsCollection().doc(id);
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) return null;
+    const job = doc.data() as StoredJob;
+    if (job.ownerUid !== uid || !isJobType(job.type)) return null;
+
+    const now = new Date().toISOString();
+    let update: Partial<StoredJob>;
+    if (job.status === 'queued') {
+      update = { status: 'cancelled', cancelRequested: true, updatedAt: now, completedAt: now };
+    } else if (job.status === 'running') {
+      update = { cancelRequested: true, updatedAt: now };
+    } else {
+      throw new Error("JOB_FINISHED");
+    }
+    tx.update(ref, update);
+    return toView(id, { ...job, ...update });
+  });
+}
+
+/**
+ * Checks whether a failed attempt is worth retrying: rate limits and server-side or
+ * upstream errors are, invalid input and exhausted quota are not.
+ *
+ * @param {number} status - The HTTP status of the failed attempt
+ * @returns {boolean} True if the job should be retried
+ */
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Returns the delay before the next attempt: exponential backoff with up to 20% jitter.
+ *
+ * @param {number} attempts - Attempts made so far (1 after the first failure)
+ * @returns {number} Delay in milliseconds
+ */
+function retryDelayMs(attempts: number): number {
+  const delay = Math.min(jobRetryBaseMs() * Math.pow(2, attempts - 1), MAX_RETRY_DELAY_MS);
+  return Math.round(delay * (1 + Math.random() * 0.2));
+}
+
+/**
+ * Sends the `check.completed` or `check.failed` webhook for a job that just finished.
+ * Cancelled jobs send nothing. A batch job announces nothing itself: the batch does once
+ * its last item finishes, and a failed batch job fails the batch's remaining items.
+ *
+ * @param {string} id - The job ID
+ * @param {StoredJob} job - The finished job
+ * @returns {Promise<void>}
+ */
+async function notifyJobFinished(id: string, job: StoredJob): Promise<void> {
+  if (job.status !== 'succeeded' && job.status !== 'failed') return;
+  if (job.type === 'factCheckBatch') {
+    if (job.status === 'failed' && job.error) {
+      // Batch runners only fail with fact-check error codes
+      await failBatchJob(job.ownerUid, job.input.batchId, job.error as FactCheckErrorResponse & { status: number });
+    }
+    return;
+  }
+  const event = job.status === 'succeeded' ? 'check.completed' : 'check.failed';
+  await notifyWebhooks(job.ownerUid, event, `job_${id}`, { source: 'job', job: toView(id, job) });
+}
+
+/**
+ * Tries to claim a job for this worker inside a transaction. Jobs whose lease ran out
+ * without a result are claimed again, or failed once they are out of attempts.
+ *
+ * @param {FirebaseFirestore.DocumentReference} ref - The candidate job
+ * @param {Date} now - The current time
+ * @returns {Promise<ClaimedJob | null>} The claimed job, or null if another worker got it first
+ */
+async function tryClaim(ref: FirebaseFirestore.DocumentReference, now: Date): Promise<ClaimedJob | null> {
+  const nowIso = now.toISOString();
+  const outcome = await db.runTransaction(async (tx): Promise<{ claimed: ClaimedJob | null; finished?: StoredJob }> => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) return { claimed: null };
+    const job = doc.data() as StoredJob;
+
+    const due = job.status === 'queued' && job.runAfter <= nowIso;
+    const abandoned = job.status === 'running' && !!job.leaseExpiresAt && job.leaseExpiresAt <= nowIso;
+    if (!due && !abandoned) return { claimed: null };
+
+    if (abandoned && (job.attempts >= job.maxAttempts || job.cancelRequested)) {
+      const update: Partial<StoredJob> = {
+        status: job.cancelRequested ? 'cancelled' : 'failed',
+        error: job.cancelRequested ? null : { error: "Job timed out", code: 'TIMEOUT', status: 504 },
+        leaseId: null,
+        leaseExpiresAt: null,
+        updatedAt: nowIso,
+        completedAt: nowIso
+      };
+      tx.update(ref, update);
+      return { claimed: null, finished: { ...job, ...update } };
+    }
+
+    const leaseId = randomBytes(12).toString('hex');
+    const update: Partial<StoredJob> = {
+      status: 'running',
+      attempts: job.attempts + 1,
+      leaseId,
+      leaseExpiresAt: new Date(now.getTime() + jobLeaseMs()).toISOString(),
+      updatedAt: nowIso
+    };
+    tx.update(ref, update);
+    return { claimed: { id: ref.id, leaseId, job: { ...job, ...update } } };
+  });
+
+  if (outcome.finished) await notifyJobFinished(ref.id, outcome.finished);
+  return outcome.claimed;
+}
+
+/**
+ * Claims the next due job, oldest first, including jobs abandoned by a dead worker.
+ * Needs composite indexes on (`status` ASC, `runAfter` ASC) and (`status` ASC, `leaseExpiresAt` ASC).
+ *
+ * @returns {Promise<ClaimedJob | null>} The claimed job, or null if no job is due
+ */
+async function claimNextJob(): Promise<ClaimedJob | null> {
+  const now = new Date();
+  const nowIso = now.toISOString();
+  const [queued, abandoned] = await Promise.all([
+    jobsCollection().where('status', '==', 'queued').where('runAfter', '<=', nowIso)
+      .orderBy('runAfter').limit(CLAIM_CANDIDATES).get(),
+    jobsCollection().where('status', '==', 'running').where('leaseExpiresAt', '<=', nowIso)
+      .orderBy('leaseExpiresAt').limit(CLAIM_CANDIDATES).get()
+  ]);
+
+  for (const doc of [...abandoned.docs, ...queued.docs]) {
+    const claimed = await tryClaim(doc.ref, now);
+    if (claimed) return claimed;
+  }
+  return null;
+}
+
+/**
+ * Runs a claimed job and records the outcome: the result, a retry with backoff after a
+ * transient failure, a pause, or the final error. Nothing is written if the lease was
+ * lost to another worker in the meantime. Finished jobs are announced to the owner's webhooks.
+ *
+ * @param {ClaimedJob} claimed - The claimed job
+ * @param {number} deadline - When (epoch ms) the worker stops; runners that can pause stop by then
+ * @returns {Promise<{ resumable: boolean }>} Whether the job paused and can be resumed right away
+ */
+async function runClaimedJob(claimed: ClaimedJob, deadline: number): Promise<{ resumable: boolean }> {
+  const { job } = claimed;
+  const leaseEnd = job.leaseExpiresAt ? new Date(job.leaseExpiresAt).getTime() : deadline;
+  let outcome: JobOutcome;
+  try {
+    outcome = await JOB_RUNNERS[job.type](job.ownerUid, job.input, {
+      apiKeyId: job.apiKeyId || undefined,
+      deadline: Math.min(deadline, leaseEnd)
+    });
+  } catch (error: any) {
+    // Runners never throw by contract; treat a bug as a server error so the job is retried
+    outcome = { ok: false, status: 500, error: { error: error?.message || "Job failed", code: 'UPSTREAM_ERROR' } };
+  }
+
+  const ref = jobsCollection().doc(claimed.id);
+  const updated = await db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    const current = doc.data() as StoredJob | undefined;
+    if (!current || current.leaseId !== claimed.leaseId) return null;
+
+    const now = new Date();
+    const nowIso = now.toISOString();
+    const released = { leaseId: null, leaseExpiresAt: null, updatedAt: nowIso };
+
+    let update: Partial<StoredJob>;
+    if (outcome.ok) {
+      update = { ...released, status: 'succeeded', result: outcome.result, error: null, completedAt: nowIso };
+    } else if ('paused' in outcome) {
+      update = {
+        ...released,
+        status: 'queued',
+        attempts: current.attempts - 1,
+        runAfter: new Date(now.getTime() + outcome.retryAfterMs).toISOString()
+      };
+    } else if (current.cancelRequested) {
+      update = { ...released, status: 'cancelled', completedAt: nowIso };
+    } else if (isRetryable(outcome.status) && current.attempts < current.maxAttempts) {
+      update = {
+        ...released,
+        status: 'queued',
+        error: { ...outcome.error, status: outcome.status },
+        runAfter: new Date(now.getTime() + retryDelayMs(current.attempts)).toISOString()
+      };
+    } else {
+      update = { ...released, status: 'failed', error: { ...outcome.error, status: outcome.status }, completedAt: nowIso };
+    }
+    tx.update(ref, update);
+    return { ...current, ...update };
+  });
+
+  if (updated) await notifyJobFinished(claimed.id, updated);
+  return { resumable: !!updated && 'paused' in outcome && outcome.retryAfterMs === 0 };
+}
+
+/**
+ * Claims and runs due jobs until none are left or the time budget is spent.
+ * Used by the scheduled worker endpoint and the inline worker.
+ *
+ * @param {WorkerOptions} options - Time budget (default 50 seconds) and number of parallel loops (default 2)
+ * @returns {Promise<{ processed: number, resumable: number }>} Number of jobs run, and of jobs paused at the deadline that can continue right away
+ */
+export async function runJobWorker(options: WorkerOptions = {}): Promise<{ processed: number; resumable: number }> {
+  const deadline = Date.now() + (options.budgetMs ?? 50000);
+  let processed = 0;
+  let resumable = 0;
+
+  async function loop() {
+    while (Date.now() < deadline) {
+      const claimed = await claimNextJob();
+      if (!claimed) return;
+      const run = await runClaimedJob(claimed, deadline);
+      processed++;
+      if (run.resumable) resumable++;
+    }
+  }
+
+  const loops = [];
+  for (let i = 0; i < Math.max(1, options.concurrency ?? 2); i++) {
+    loops.push(loop());
+  }
+  await Promise.all(loops);
+  return { processed, resumable };
+}
+
+let inlineWorker: Promise<unknown> | null = null;
+
+/**
+ * Starts the inline worker unless it is already running in this process. It starts again
+ * right away while paused jobs, such as large batches, can continue. Jobs it does not get
+ * to, such as retries scheduled after it stops, are left for the next submission or the
+ * scheduled worker endpoint.
+ */
+function kickWorker(): void {
+  if (inlineWorker) return;
+  inlineWorker = runJobWorker()
+    .catch((error) => {
+      console.error('Inline job worker failed:', error);
+      return { resumable: 0 };
+    })
+    .then(({ resumable }) => {
+      inlineWorker = null;
+      if (resumable > 0) kickWorker();
+    });
+}
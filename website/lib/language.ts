@@ -0,0 +1,220 @@
+import { DetectedLanguage } from './fact-check-result';
+
+/**
+ * Languages accepted as `responseLanguage`, keyed by ISO 639-1 code.
+ * The names are used in prompts, so they are given in English.
+ */
+export const SUPPORTED_LANGUAGES: Record<string, string> = {
+  ar: 'Arabic',
+  bn: 'Bengali',
+  de: 'German',
+  el: 'Greek',
+  en: 'English',
+  es: 'Spanish',
+  fa: 'Persian',
+  fr: 'French',
+  he: 'Hebrew',
+  hi: 'Hindi',
+  id: 'Indonesian',
+  it: 'Italian',
+  ja: 'Japanese',
+  ko: 'Korean',
+  nl: 'Dutch',
+  pl: 'Polish',
+  pt: 'Portuguese',
+  ru: 'Russian',
+  sv: 'Swedish',
+  th: 'Thai',
+  tr: 'Turkish',
+  uk: 'Ukrainian',
+  vi: 'Vietnamese',
+  zh: 'Chinese'
+};
+
+export const UNDETERMINED_LANGUAGE: DetectedLanguage = { code: 'und', name: 'Unknown', confidence: 0 };
+
+/**
+ * Character ranges of the scripts detection can tell apart. Latin and Cyrillic text
+ * is resolved to a language afterwards; every other script maps to one language.
+ */
+const SCRIPTS: { script: string; pattern: RegExp; language?: string }[] = [
+  { script: 'latin', pattern: /[A-Za-z\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u024F\u1E00-\u1EFF]/g },
+  { script: 'cyrillic', pattern: /[\u0400-\u04FF]/g },
+  { script: 'arabic', pattern: /[\u0600-\u06FF\u0750-\u077F]/g },
+  { script: 'hebrew', pattern: /[\u0590-\u05FF]/g, language: 'he' },
+  { script: 'devanagari', pattern: /[\u0900-\u097F]/g, language: 'hi' },
+  { script: 'bengali', pattern: /[\u0980-\u09FF]/g, language: 'bn' },
+  { script: 'greek', pattern: /[\u0370-\u03FF]/g, language: 'el' },
+  { script: 'thai', pattern: /[\u0E00-\u0E7F]/g, language: 'th' },
+  { script: 'hangul', pattern: /[\u1100-\u11FF\u3130-\u318F\uAC00-\uD7AF]/g, language: 'ko' },
+  { script: 'kana', pattern: /[\u3040-\u30FF]/g, language: 'ja' },
+  { script: 'han', pattern: /[\u3400-\u4DBF\u4E00-\u9FFF]/g, language: 'zh' }
+];
+
+/**
+ * Frequent function words of the Latin-script languages detection distinguishes.
+ */
+const LATIN_STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'was', 'of', 'to', 'in', 'that', 'it', 'for', 'with', 'this', 'have', 'not', 'you'],
+  es: ['el', 'la', 'los', 'las', 'y', 'es', 'que', 'de', 'en', 'un', 'una', 'por', 'con', 'para', 'no', 'se'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'que', 'de', 'des', 'un', 'une', 'pour', 'dans', 'pas', 'ce', 'qui', 'sur'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'zu', 'mit', 'den', 'von', 'auf', 'sich', 'es', 'dass'],
+  pt: ['o', 'a', 'os', 'as', 'e', 'que', 'de', 'do', 'da', 'em', 'um', 'uma', 'para', 'com', 'não', 'foi'],
+  it: ['il', 'lo', 'la', 'gli', 'e', 'che', 'di', 'del', 'della', 'un', 'una', 'per', 'con', 'non', 'sono', 'è'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'dat', 'van', 'in', 'op', 'te', 'niet', 'met', 'voor', 'zijn', 'er', 'ook'],
+  pl: ['i', 'w', 'na', 'nie', 'się', 'z', 'do', 'jest', 'to', 'że', 'o', 'jak', 'ale', 'po', 'co', 'przez'],
+  tr: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ile', 'çok', 'ne', 'gibi', 'daha', 'olarak', 'değil', 'var', 'mi', 'ama'],
+  id: ['dan', 'yang', 'di', 'ini', 'itu', 'dengan', 'untuk', 'tidak', 'dari', 'ada', 'akan', 'pada', 'juga', 'ke', 'karena', 'sudah'],
+  sv: ['och', 'att', 'det', 'som', 'en', 'är', 'på', 'för', 'med', 'av', 'inte', 'till', 'den', 'har', 'om', 'var'],
+  vi: ['và', 'của', 'là', 'có', 'không', 'được', 'trong', 'cho', 'này', 'với', 'những', 'các', 'một', 'người', 'đã', 'để']
+};
+
+/**
+ * Letters that only occur in Ukrainian among the Cyrillic languages we detect.
+ */
+const UKRAINIAN_LETTERS = /[іїєґІЇЄҐ]/g;
+
+/**
+ * Letters that only occur in Persian among the Arabic-script languages we detect.
+ */
+const PERSIAN_LETTERS = /[پچژگ]/g;
+
+/**
+ * Counts the matches of a global pattern in text.
+ *
+ * @param {string} text - Text to scan
+ * @param {RegExp} pattern - Pattern with the global flag
+ * @returns {number} Number of matches
+ */
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length;
+}
+
+/**
+ * Builds a detection result for a supported language.
+ *
+ * @param {string} code - ISO 639-1 code
+ * @param {number} confidence - Confidence between 0 and 1
+ * @returns {DetectedLanguage} The detected language
+ */
+function detected(code: string, confidence: number): DetectedLanguage {
+  return { code, name: SUPPORTED_LANGUAGES[code], confidence: Math.round(Math.min(1, Math.max(0, confidence)) * 100) / 100 };
+}
+
+/**
+ * Picks the Latin-script language whose function words occur most often.
+ *
+ * @param {string} text - The text to analyze
+ * @returns {{ code: string, margin: number } | null} Best language and its lead over the runner-up (0-1), or null if none matched
+ */
+function detectLatinLanguage(text: string): { code: string; margin: number } | null {
+  const words = text.toLowerCase().match(/[a-z\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u024F\u1E00-\u1EFF]+/g) || [];
+  const scores = Object.keys(LATIN_STOPWORDS)
+    .map((code) => {
+      const stopwords = new Set(LATIN_STOPWORDS[code]);
+      return { code, hits: words.filter((word) => stopwords.has(word)).length };
+    })
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, runnerUp] = scores;
+  if (best.hits === 0) return null;
+  return { code: best.code, margin: (best.hits - runnerUp.hits) / best.hits };
+}
+
+/**
+ * Detects the language of post text from its script and, for Latin text, its function words.
+ * Runs locally and deterministically, so it adds no latency or LLM cost to a check.
+ *
+ * @param {string} text - The text to analyze
+ * @returns {DetectedLanguage} The detected language, or "und" if it could not be determined
+ */
+export function detectLanguage(text: string): DetectedLanguage {
+  if (!text || typeof text !== 'string') return UNDETERMINED_LANGUAGE;
+
+  const counts = SCRIPTS.map((entry) => ({ ...entry, count: countMatches(text, entry.pattern) }));
+  const letters = counts.reduce((sum, entry) => sum + entry.count, 0);
+  if (letters < 3) return UNDETERMINED_LANGUAGE;
+
+  const dominant = counts.reduce((a, b) => (b.count > a.count ? b : a));
+  const scriptShare = dominant.count / letters;
+
+  // Japanese mixes kanji with kana; any kana alongside Han characters means Japanese
+  const kana = counts.find((entry) => entry.script === 'kana')!.count;
+  if ((dominant.script === 'han' || dominant.script === 'kana') && kana > 0) {
+    const han = counts.find((entry) => entry.script === 'han')!.count;
+    return detected('ja', (han + kana) / letters);
+  }
+
+  switch (dominant.script) {
+    case 'latin': {
+      const latin = detectLatinLanguage(text);
+      // Many function words are shared between languages, so a narrow lead means low confidence
+      return latin ? detected(latin.code, scriptShare * (0.5 + latin.margin / 2)) : UNDETERMINED_LANGUAGE;
+    }
+    case 'cyrillic':
+      return detected(countMatches(text, UKRAINIAN_LETTERS) > 0 ? 'uk' : 'ru', scriptShare * 0.9);
+    case 'arabic':
+      return detected(countMatches(text, PERSIAN_LETTERS) > 0 ? 'fa' : 'ar', scriptShare * 0.9);
+    default:
+      return detected(dominant.language!, scriptShare);
+  }
+}
+
+/**
+ * Checks whether a code names a supported language (own keys only, so "constructor" is not a language).
+ *
+ * @param {string} code - Candidate ISO 639-1 code
+ * @returns {boolean} True if the language is supported
+ */
+function isSupportedLanguage(code: string): boolean {
+  return Object.prototype.hasOwnProperty.call(SUPPORTED_LANGUAGES, code);
+}
+
+/**
+ * Normalizes a client-supplied language to a supported ISO 639-1 code.
+ * Accepts codes with region subtags ("pt-BR") and English language names ("Spanish").
+ *
+ * @param {unknown} value - The raw language
+ * @returns {string | null} The supported code, or null if the language is not supported
+ */
+export function normalizeLanguageCode(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim().toLowerCase();
+  const primary = trimmed.split(/[-_]/)[0];
+  if (isSupportedLanguage(primary)) return primary;
+  return Object.keys(SUPPORTED_LANGUAGES).find((code) => SUPPORTED_LANGUAGES[code].toLowerCase() === trimmed) || null;
+}
+
+/**
+ * Returns the English name of a supported language.
+ *
+ * @param {string} code - ISO 639-1 code
+ * @returns {string} The language name, or the code itself if it is not supported
+ */
+export function languageName(code: string): string {
+  return isSupportedLanguage(code) ? SUPPORTED_LANGUAGES[code] : code;
+}
+
+/**
+ * Truncates text to a number of characters without splitting a character in two.
+ * Lengths are counted in code points, so emoji and supplementary-plane CJK characters
+ * count once, and text in space-separated scripts is cut at the last word boundary
+ * when one is close to the limit.
+ *
+ * @param {string} text - The text to truncate
+ * @param {number} maxChars - Maximum number of characters
+ * @returns {string} The text, truncated if needed
+ */
+export function truncateText(text: string, maxChars: number): string {
+  const chars = Array.from(text);
+  if (chars.length <= maxChars) return text;
+
+  let truncated = chars.slice(0, maxChars).join('');
+  // Combining marks belong to the preceding character; drop a base character cut from its marks
+  if (/^[\u0300-\u036F\u0900-\u0903\u093A-\u094F\u0981-\u0983\u09BC-\u09CD\u0E31\u0E34-\u0E3A\u0E47-\u0E4E]/.test(chars[maxChars])) {
+    truncated = chars.slice(0, maxChars - 1).join('');
+  }
+
+  const lastSpace = truncated.search(/\s\S*$/);
+  return lastSpace > truncated.length * 0.9 ? truncated.slice(0, lastSpace) : truncated;
+}
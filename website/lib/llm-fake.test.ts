@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Sources are kept as the model grounded them; resolving them is covered by source-resolver.test.ts
+vi.mock('./source-resolver', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./source-resolver')>()),
+  getSourceResolver: () => ({ resolve: async (sources: any[]) => sources })
+}));
+
+import { runFactCheck } from './fact-check';
+import { createFakeProvider } from './llm-fake';
+
+beforeEach(() => {
+  process.env.LLM_PROVIDER = 'fake';
+  delete process.env.LLM_FAKE_RESPONSE;
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+describe('createFakeProvider', () => {
+  it('answers the same prompt the same way and different prompts differently', async () => {
+    const provider = createFakeProvider();
+    const first = await provider.generateText('Is the bridge closed?');
+
+    expect(await provider.generateText('Is the bridge closed?')).toEqual(first);
+    expect((await provider.generateText('Is the road open?')).text).not.toBe(first.text);
+    expect(first.text).toMatch(/^- Fake claim [0-9a-f]{8}$/);
+  });
+
+  it('returns grounding metadata for searches and JSON when asked for it', async () => {
+    const provider = createFakeProvider();
+    const search = await provider.generateWithSearch('claim');
+    expect(search.groundingMetadata.groundingChunks[0].web.uri).toBe(`https://example.com/${search.raw.id}`);
+
+    const json = JSON.parse((await provider.generateText('claim', { responseMimeType: 'application/json' })).text);
+    expect(json).toMatchObject({ assessment: 'Unverifiable', credibilityRating: { rating: 5, confidence: 0.5 } });
+  });
+
+  it('uses LLM_FAKE_RESPONSE for every response when set', async () => {
+    process.env.LLM_FAKE_RESPONSE = 'fixed';
+    expect((await createFakeProvider().generateFromImages([], 'prompt')).text).toBe('fixed');
+  });
+});
+
+describe('runFactCheck with LLM_PROVIDER=fake', () => {
+  it('returns a structured result for every claim', async () => {
+    const validation = await runFactCheck({ text: 'The bridge closed today. The mayor resigned.', claims: '- The bridge closed\n- The mayor resigned' });
+
+    expect(validation.ok).toBe(true);
+    if (!validation.ok) return;
+    const { result } = validation;
+    expect(result.claims.map((claim) => claim.claim)).toEqual(['The bridge closed', 'The mayor resigned']);
+    for (const claim of result.claims) {
+      expect(claim.assessment).toBe('Unverifiable');
+      expect(claim.credibilityRating).toMatchObject({ rating: 5, confidence: 0.5 });
+      expect(claim.sources).toHaveLength(1);
+      expect(claim.sources[0].url).toMatch(/^https:\/\/example\.com\/[0-9a-f]{8}$/);
+    }
+    expect(result.overallRating.assessment).toBe('Unverifiable');
+    expect(result.searchMetadata.sourcesFound).toBe(2);
+    expect(result.partial).toBeUndefined();
+  });
+
+  it('reports the fake response as invalid when it is not a claim result', async () => {
+    process.env.LLM_FAKE_RESPONSE = 'not json';
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const validation = await runFactCheck({ text: 'The bridge closed today.' });
+    expect(validation.ok).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { createHash } from 'crypto';
+import type { LLMGenerateOptions, LLMImage, LLMProvider, LLMResponse } from './llm';
+
+/**
+ * Returns a short, stable fingerprint of a prompt so fake responses differ
+ * per input but never between runs.
+ * 
+ * @param {string} prompt - The prompt text
+ * @returns {string} First 8 hex characters of the prompt's SHA-256 digest
+ */
+function fingerprint(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex').slice(0, 8);
+}
+
+/**
+ * Builds the canned JSON payload returned for JSON-mode requests,
+ * shaped like a single structured claim result.
+ * 
+ * @param {string} id - Prompt fingerprint
+ * @returns {string} JSON string in the structured claim shape
+ */
+function fakeJson(id: string): string {
+  return JSON.stringify({
+    claim: `Fake claim ${id}`,
+    assessment: "Unverifiable",
+    credibilityRating: {
+      rating: 5,
+      confidence: 0.5,
+      explanation: `Offline fake provider response (${id}).`,
+      keyEvidence: []
+    },
+    sources: [{
+      url: `https://example.com/${id}`,
+      title: "Example",
+      credibilityScore: 5,
+      relevanceScore: 5,
+      summary: "Fake source.",
+      searchResult: true
+    }]
+  });
+}
+
+/**
+ * Produces a deterministic fake response for a prompt.
+ * LLM_FAKE_RESPONSE overrides the text of every response when set.
+ * 
+ * @param {string} prompt - The prompt text
+ * @param {LLMGenerateOptions} options - Generation options (only responseMimeType is used)
+ * @returns {LLMResponse} Fake response
+ */
+function respond(prompt: string, options: LLMGenerateOptions = {}): LLMResponse {
+  const id = fingerprint(prompt);
+  const text = process.env.LLM_FAKE_RESPONSE
+    || (options.responseMimeType === 'application/json' ? fakeJson(id) : `- Fake claim ${id}`);
+  return { text, raw: { provider: 'fake', id } };
+}
+
+/**
+ * Creates a deterministic, offline LLM provider for local development and tests.
+ * Never performs network calls.
+ * 
+ * @returns {LLMProvider} Fake provider instance
+ */
+export function createFakeProvider(): LLMProvider {
+  return {
+    name: 'fake',
+
+    async generateText(prompt: string, options?: LLMGenerateOptions) {
+      return respond(prompt, options);
+    },
+
+    async generateWithSearch(prompt: string, options?: LLMGenerateOptions) {
+      const response = respond(prompt, options);
+      const id = response.raw.id;
+      return {
+        ...response,
+        groundingMetadata: {
+          groundingChunks: [{ web: { uri: `https://example.com/${id}`, title: "example.com" } }]
+        }
+      };
+    },
+
+    async generateFromImages(images: LLMImage[], prompt: string, options?: LLMGenerateOptions) {
+      return respond(`${images.length}:${prompt}`, options);
+    }
+  };
+}
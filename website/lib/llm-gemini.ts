@@ -0,0 +1,94 @@
+import type { LLMGenerateOptions, LLMImage, LLMProvider, LLMResponse } from './llm';
+import { postJson } from './http';
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+/**
+ * Maps shared generation options onto Gemini's `generationConfig`.
+ * 
+ * @param {LLMGenerateOptions} options - Provider-neutral generation options
+ * @returns {Record<string, any>} Gemini generationConfig object
+ */
+function toGenerationConfig(options: LLMGenerateOptions = {}) {
+  return {
+    maxOutputTokens: options.maxOutputTokens ?? 4096,
+    candidateCount: 1,
+    temperature: options.temperature ?? 0.0,
+    ...(options.stopSequences ? { stopSequences: options.stopSequences } : {}),
+    ...(options.seed !== undefined ? { seed: options.seed } : {}),
+    ...(options.responseMimeType ? { responseMimeType: options.responseMimeType } : {})
+  };
+}
+
+/**
+ * Converts a raw Gemini generateContent response into the shared response shape.
+ * 
+ * @param {any} responseData - Parsed Gemini API response
+ * @returns {LLMResponse} Normalized response with text and grounding metadata
+ */
+function toResponse(responseData: any): LLMResponse {
+  const c0 = responseData?.candidates?.[0];
+  return {
+    text: c0?.content?.parts?.[0]?.text || "",
+    groundingMetadata: c0?.groundingMetadata,
+    raw: responseData
+  };
+}
+
+/**
+ * Creates an LLM provider backed by the Gemini REST API.
+ * Text and grounded calls use GEMINI_MODEL; image calls use GEMINI_VISION_MODEL.
+ * 
+ * @returns {LLMProvider} Gemini provider instance
+ */
+export function createGeminiProvider(): LLMProvider {
+  const apiKey = process.env.GEMINI_API_KEY!;
+  const textModel = process.env.GEMINI_MODEL || 'gemini-2.5-flash-lite';
+  const visionModel = process.env.GEMINI_VISION_MODEL || 'gemini-2.0-flash-exp';
+
+  /**
+   * Sends a generateContent request to the given model.
+   * 
+   * @param {string} model - Gemini model name
+   * @param {any} body - generateContent request body
+   * @returns {Promise<LLMResponse>} Normalized response
+   */
+  async function generate(model: string, body: any): Promise<LLMResponse> {
+    const url = `${GEMINI_API_BASE}/${model}:generateContent?key=${apiKey}`;
+    const responseData = await postJson('Gemini', url, {}, body);
+    return toResponse(responseData);
+  }
+
+  return {
+    name: 'gemini',
+
+    async generateText(prompt: string, options?: LLMGenerateOptions) {
+      return generate(textModel, {
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        generationConfig: toGenerationConfig(options)
+      });
+    },
+
+    async generateWithSearch(prompt: string, options?: LLMGenerateOptions) {
+      return generate(textModel, {
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        generationConfig: toGenerationConfig(options),
+        tools: [{ googleSearch: {} }]
+      });
+    },
+
+    async generateFromImages(images: LLMImage[], prompt: string, options?: LLMGenerateOptions) {
+      const imageParts = images.map((image) => ({
+        inline_data: {
+          mime_type: image.mimeType,
+          data: image.data
+        }
+      }));
+
+      return generate(visionModel, {
+        contents: [{ role: "user", parts: [...imageParts, { text: prompt }] }],
+        generationConfig: toGenerationConfig(options)
+      });
+    }
+  };
+}
@@ -0,0 +1,119 @@
+import type { LLMGenerateOptions, LLMImage, LLMProvider, LLMResponse } from './llm';
+import { postJson } from './http';
+
+/**
+ * Chat completion parameters derived from the shared generation options.
+ */
+interface CompletionParams {
+  max_tokens: number;
+  temperature: number;
+  stop?: string[];
+  seed?: number;
+  response_format?: { type: 'json_object' };
+}
+
+/**
+ * Maps shared generation options onto OpenAI chat completion parameters.
+ * 
+ * @param {LLMGenerateOptions} options - Provider-neutral generation options
+ * @returns {CompletionParams} Chat completion parameters
+ */
+function toCompletionParams(options: LLMGenerateOptions = {}): CompletionParams {
+  return {
+    max_tokens: options.maxOutputTokens ?? 4096,
+    temperature: options.temperature ?? 0.0,
+    ...(options.stopSequences ? { stop: options.stopSequences.slice(0, 4) } : {}),
+    ...(options.seed !== undefined ? { seed: options.seed } : {}),
+    ...(options.responseMimeType === 'application/json' ? { response_format: { type: 'json_object' } } : {})
+  };
+}
+
+/**
+ * Converts a chat completion response into the shared response shape.
+ * URL citations returned by search-enabled models are mapped onto
+ * Gemini-style grounding chunks.
+ * 
+ * @param {any} responseData - Parsed chat completion response
+ * @returns {LLMResponse} Normalized response with text and grounding metadata
+ */
+function toResponse(responseData: any): LLMResponse {
+  const message = responseData?.choices?.[0]?.message;
+  const annotations: any[] = Array.isArray(message?.annotations) ? message.annotations : [];
+  const groundingChunks = annotations
+    .filter((a) => a?.type === 'url_citation' && a.url_citation?.url)
+    .map((a) => ({ web: { uri: a.url_citation.url, title: a.url_citation.title || null } }));
+
+  return {
+    text: typeof message?.content === 'string' ? message.content : "",
+    groundingMetadata: groundingChunks.length > 0 ? { groundingChunks } : undefined,
+    raw: responseData
+  };
+}
+
+/**
+ * Creates an LLM provider for any OpenAI-compatible chat completions API.
+ * Configured with OPENAI_API_KEY, OPENAI_BASE_URL, OPENAI_MODEL and,
+ * for grounded calls, OPENAI_SEARCH_MODEL (a model that accepts `web_search_options`).
+ * 
+ * @returns {LLMProvider} OpenAI-compatible provider instance
+ */
+export function createOpenAIProvider(): LLMProvider {
+  const apiKey = process.env.OPENAI_API_KEY || '';
+  const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  const model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  const searchModel = process.env.OPENAI_SEARCH_MODEL;
+
+  /**
+   * Sends a chat completion request.
+   * 
+   * @param {any} body - Chat completion request body
+   * @returns {Promise<LLMResponse>} Normalized response
+   */
+  async function complete(body: any): Promise<LLMResponse> {
+    const headers: Record<string, string> = apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+    const responseData = await postJson('OpenAI', `${baseUrl}/chat/completions`, headers, body);
+    return toResponse(responseData);
+  }
+
+  return {
+    name: 'openai',
+
+    async generateText(prompt: string, options?: LLMGenerateOptions) {
+      return complete({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        ...toCompletionParams(options)
+      });
+    },
+
+    async generateWithSearch(prompt: string, options?: LLMGenerateOptions) {
+      // Without a search model the call is ungrounded and returns no sources
+      if (!searchModel) {
+        console.warn('OPENAI_SEARCH_MODEL not set, running fact check without search grounding');
+        return this.generateText(prompt, options);
+      }
+
+      // Search models reject sampling parameters such as temperature and seed
+      const { temperature, seed, ...params }: CompletionParams = toCompletionParams(options);
+      return complete({
+        model: searchModel,
+        messages: [{ role: 'user', content: prompt }],
+        web_search_options: {},
+        ...params
+      });
+    },
+
+    async generateFromImages(images: LLMImage[], prompt: string, options?: LLMGenerateOptions) {
+      const imageParts = images.map((image) => ({
+        type: 'image_url',
+        image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+      }));
+
+      return complete({
+        model,
+        messages: [{ role: 'user', content: [...imageParts, { type: 'text', text: prompt }] }],
+        ...toCompletionParams(options)
+      });
+    }
+  };
+}
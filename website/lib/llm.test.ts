@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+/**
+ * Imports a fresh copy of the module, since the provider is created once per instance.
+ *
+ * @param {string | undefined} provider - Value of LLM_PROVIDER, or undefined to leave it unset
+ * @returns {Promise<typeof import('./llm')>} The module
+ */
+async function loadLlm(provider: string | undefined): Promise<typeof import('./llm')> {
+  if (provider === undefined) delete process.env.LLM_PROVIDER;
+  else process.env.LLM_PROVIDER = provider;
+  vi.resetModules();
+  return import('./llm');
+}
+
+afterEach(() => {
+  delete process.env.LLM_PROVIDER;
+});
+
+describe('getLLMProvider', () => {
+  it('picks the provider named by LLM_PROVIDER', async () => {
+    expect((await loadLlm('fake')).getLLMProvider().name).toBe('fake');
+    expect((await loadLlm('OpenAI')).getLLMProvider().name).toBe('openai');
+    expect((await loadLlm('gemini')).getLLMProvider().name).toBe('gemini');
+  });
+
+  it('defaults to Gemini', async () => {
+    expect((await loadLlm(undefined)).getLLMProvider().name).toBe('gemini');
+  });
+
+  it('reuses the provider it created', async () => {
+    const { getLLMProvider } = await loadLlm('fake');
+    expect(getLLMProvider()).toBe(getLLMProvider());
+  });
+
+  it('rejects an unknown provider', async () => {
+    const { getLLMProvider } = await loadLlm('claude');
+    expect(() => getLLMProvider()).toThrow('Unknown LLM_PROVIDER: claude');
+  });
+});
@@ -0,0 +1,103 @@
+import { createGeminiProvider } from './llm-gemini';
+import { createOpenAIProvider } from './llm-openai';
+import { createFakeProvider } from './llm-fake';
+
+/**
+ * Generation settings shared by every provider. Providers map these onto their
+ * own request formats and silently ignore settings they do not support.
+ */
+export interface LLMGenerateOptions {
+  maxOutputTokens?: number;
+  temperature?: number;
+  stopSequences?: string[];
+  seed?: number;
+  responseMimeType?: 'application/json' | 'text/plain';
+}
+
+/**
+ * An inline image passed to a vision-capable model.
+ */
+export interface LLMImage {
+  mimeType: string;
+  data: string; // base64 without the data URI prefix
+}
+
+/**
+ * Normalized provider response. `groundingMetadata` follows the Gemini
+ * grounding shape (`groundingChunks[].web.uri/title`) regardless of provider,
+ * so `extractGrounded` can read sources from any backend.
+ */
+export interface LLMResponse {
+  text: string;
+  groundingMetadata?: any;
+  raw: any;
+}
+
+/**
+ * Typed interface every LLM backend implements.
+ */
+export interface LLMProvider {
+  name: string;
+  generateText(prompt: string, options?: LLMGenerateOptions): Promise<LLMResponse>;
+  generateWithSearch(prompt: string, options?: LLMGenerateOptions): Promise<LLMResponse>;
+  generateFromImages(images: LLMImage[], prompt: string, options?: LLMGenerateOptions): Promise<LLMResponse>;
+}
+
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * Returns the LLM provider selected by the `LLM_PROVIDER` environment variable
+ * ("gemini", "openai" or "fake"), defaulting to Gemini.
+ * The provider is created once per server instance and reused.
+ * 
+ * @returns {LLMProvider} The configured provider
+ * @throws {Error} Throws error if LLM_PROVIDER names an unknown provider
+ */
+export function getLLMProvider(): LLMProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const name = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+  switch (name) {
+    case 'gemini':
+      cachedProvider = createGeminiProvider();
+      break;
+    case 'openai':
+      cachedProvider = createOpenAIProvider();
+      break;
+    case 'fake':
+      cachedProvider = createFakeProvider();
+      break;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+  }
+  return cachedProvider;
+}
+
+/**
+ * Converts a base64 data URI (or raw base64 string) into an inline image.
+ * Raw base64 input is assumed to be PNG.
+ * 
+ * @param {string} imageData - Base64-encoded image data URI or raw base64
+ * @returns {LLMImage} Image with separated mime type and base64 data
+ */
+export function parseImageData(imageData: string): LLMImage {
+  let mimeType = 'image/png';
+  let data = imageData;
+
+  if (imageData.startsWith('data:')) {
+    // Extract mime type and base64 data from data URI
+    const matches = imageData.match(/^data:([^;]+);base64,(.+)$/);
+    if (matches) {
+      mimeType = matches[1];
+      data = matches[2];
+    } else {
+      // Fallback: try to extract just base64 part
+      const base64Match = imageData.match(/base64,(.+)$/);
+      if (base64Match) {
+        data = base64Match[1];
+      }
+    }
+  }
+
+  return { mimeType, data };
+}
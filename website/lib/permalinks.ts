@@ -0,0 +1,221 @@
+import { randomBytes } from 'crypto';
+import { db } from './firebaseAdmin';
+import { FactCheckResult } from './fact-check-result';
+import { HistoryPlatform, HistorySource } from './history';
+
+/**
+ * The public copy of a check. Written once at publish time and never edited.
+ */
+export interface PermalinkSnapshot {
+  text: string;
+  claims: string[];
+  postUrl: string | null;
+  platform: HistoryPlatform;
+  postDate: string | null;
+  result: FactCheckResult;
+  sources: HistorySource[];
+  checkedAt: string; // ISO timestamp of the original check
+}
+
+/**
+ * A published check, stored at publicChecks/{slug}. Revoking removes the snapshot
+ * and keeps a tombstone so the slug is never reused.
+ */
+export interface Permalink {
+  slug: string;
+  ownerUid: string;
+  historyId: string;
+  snapshot: PermalinkSnapshot | null;
+  publishedAt: string; // ISO timestamp
+  revokedAt: string | null;
+}
+
+/**
+ * What the owner sees when listing or publishing.
+ */
+export interface PermalinkSummary {
+  slug: string;
+  url: string;
+  historyId: string;
+  publishedAt: string;
+  revokedAt: string | null;
+}
+
+/**
+ * What anyone with the link sees. Never includes the owner's ID.
+ */
+export interface PublicPermalink {
+  slug: string;
+  url: string;
+  snapshot: PermalinkSnapshot;
+  publishedAt: string;
+}
+
+const PERMALINK_COLLECTION = 'publicChecks';
+
+/**
+ * Slugs are 128 random bits, base64url-encoded (22 characters).
+ */
+const SLUG_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+
+/**
+ * Returns the public base URL of the website, from SITE_DOMAIN.
+ *
+ * @returns {string} Base URL without a trailing slash
+ */
+export function getSiteUrl(): string {
+  return (process.env.SITE_DOMAIN || 'https://fact-checker-website.vercel.app').replace(/\/+$/, '');
+}
+
+/**
+ * Builds the public URL of a permalink.
+ *
+ * @param {string} slug - The permalink slug
+ * @returns {string} Absolute URL of the permalink page
+ */
+export function permalinkUrl(slug: string): string {
+  return `${getSiteUrl()}/c/${slug}`;
+}
+
+/**
+ * Generates an unguessable slug.
+ *
+ * @returns {string} 22-character base64url slug
+ */
+function generateSlug(): string {
+  return randomBytes(16).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Builds the owner's view of a permalink.
+ *
+ * @param {Permalink} permalink - The stored permalink
+ * @returns {PermalinkSummary} The summary
+ */
+function toSummary(permalink: Permalink): PermalinkSummary {
+  return {
+    slug: permalink.slug,
+    url: permalinkUrl(permalink.slug),
+    historyId: permalink.historyId,
+    publishedAt: permalink.publishedAt,
+    revokedAt: permalink.revokedAt
+  };
+}
+
+/**
+ * Publishes a check from the user's history. Publishing an entry that already has an
+ * active permalink returns that permalink instead of creating another one.
+ *
+ * @param {string} uid - The owner's ID
+ * @param {string} historyId - The history entry to publish
+ * @returns {Promise<PermalinkSummary>} The active permalink
+ * @throws {Error} Throws error with message "NOT_FOUND" if the history entry does not exist
+ */
+export async function publishCheck(uid: string, historyId: string): Promise<PermalinkSummary> {
+  const historyRef = db.collection('users').doc(uid).collection('checks').doc(historyId);
+
+  const permalink = await db.runTransaction(async (tx) => {
+    const historyDoc = await tx.get(historyRef);
+    if (!historyDoc.exists) throw new Error("NOT_FOUND");
+    const entry = historyDoc.data()!;
+
+    if (entry.permalinkSlug) {
+      const existing = await tx.get(db.collection(PERMALINK_COLLECTION).doc(entry.permalinkSlug));
+      if (existing.exists && !existing.data()!.revokedAt) {
+        return existing.data() as Permalink;
+      }
+    }
+
+    const created: Permalink = {
+      slug: generateSlug(),
+      ownerUid: uid,
+      historyId,
+      snapshot: {
+        text: entry.text,
+        claims: entry.claims || [],
+        postUrl: entry.postUrl || null,
+        platform: entry.platform || 'other',
+        postDate: entry.postDate || null,
+        result: entry.result,
+        sources: entry.sources || [],
+        checkedAt: entry.createdAt
+      },
+      publishedAt: new Date().toISOString(),
+      revokedAt: null
+    };
+
+    // create() fails if the slug somehow exists, so a published snapshot is never overwritten
+    tx.create(db.collection(PERMALINK_COLLECTION).doc(created.slug), created);
+    tx.update(historyRef, { permalinkSlug: created.slug });
+    return created;
+  });
+
+  return toSummary(permalink);
+}
+
+/**
+ * Lists the permalinks a user has published, newest first, including revoked ones.
+ *
+ * @param {string} uid - The owner's ID
+ * @returns {Promise<PermalinkSummary[]>} The user's permalinks
+ */
+export async function listPermalinks(uid: string): Promise<PermalinkSummary[]> {
+  const snapshot = await db.collection(PERMALINK_COLLECTION)
+    .where('ownerUid', '==', uid)
+    .orderBy('publishedAt', 'desc')
+    .limit(100)
+    .get();
+  return snapshot.docs.map((doc) => toSummary(doc.data() as Permalink));
+}
+
+/**
+ * Revokes a permalink: the public snapshot is deleted and the page stops resolving.
+ * Only the owner can revoke; revoking twice is a no-op.
+ *
+ * @param {string} uid - The owner's ID
+ * @param {string} slug - The permalink slug
+ * @returns {Promise<boolean>} False if the permalink does not exist or belongs to someone else
+ */
+export async function revokePermalink(uid: string, slug: string): Promise<boolean> {
+  if (!SLUG_PATTERN.test(slug)) return false;
+  const ref = db.collection(PERMALINK_COLLECTION).doc(slug);
+
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) return false;
+    const permalink = doc.data() as Permalink;
+    if (permalink.ownerUid !== uid) return false;
+    if (permalink.revokedAt) return true;
+
+    const historyRef = db.collection('users').doc(uid).collection('checks').doc(permalink.historyId);
+    const historyDoc = await tx.get(historyRef);
+
+    tx.update(ref, { snapshot: null, revokedAt: new Date().toISOString() });
+    if (historyDoc.exists && historyDoc.data()!.permalinkSlug === slug) {
+      tx.update(historyRef, { permalinkSlug: null });
+    }
+    return true;
+  });
+}
+
+/**
+ * Reads a published check for public display.
+ *
+ * @param {string} slug - The permalink slug
+ * @returns {Promise<PublicPermalink | null>} The public view, or null if unknown or revoked
+ */
+export async function getPublicPermalink(slug: string): Promise<PublicPermalink | null> {
+  if (!SLUG_PATTERN.test(slug)) return null;
+  const doc = await db.collection(PERMALINK_COLLECTION).doc(slug).get();
+  if (!doc.exists) return null;
+
+  const permalink = doc.data() as Permalink;
+  if (permalink.revokedAt || !permalink.snapshot) return null;
+
+  return {
+    slug: permalink.slug,
+    url: permalinkUrl(permalink.slug),
+    snapshot: permalink.snapshot,
+    publishedAt: permalink.publishedAt
+  };
+}
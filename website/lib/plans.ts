@@ -0,0 +1,86 @@
+/**
+ * Metered features. Each feature has its own usage counters and limits.
+ */
+export const QUOTA_FEATURES = ['factCheck', 'imageExtraction', 'claimExtraction'] as const;
+
+export type QuotaFeature = typeof QUOTA_FEATURES[number];
+
+export type PlanId = 'free' | 'pro' | 'team' | 'enterprise';
+
+/**
+ * Limits for one feature on one plan. `null` means unlimited for that window.
+ * `burst` caps how many requests may start within a short fixed window.
+ */
+export interface MeterLimits {
+  daily: number | null;
+  monthly: number | null;
+  burst: { limit: number; windowSeconds: number } | null;
+}
+
+export interface PlanDefinition {
+  id: PlanId;
+  name: string;
+  limits: Record<QuotaFeature, MeterLimits>;
+}
+
+/**
+ * Returns the free plan's daily fact-check limit from FREE_DAILY_LIMIT (default 5).
+ * 
+ * @returns {number} Free daily fact-check limit
+ */
+function freeDailyLimit(): number {
+  const limit = parseInt(process.env.FREE_DAILY_LIMIT || '5', 10);
+  return Number.isFinite(limit) && limit >= 0 ? limit : 5;
+}
+
+/**
+ * The plan catalog. Users without a `plan` (or with an unknown one) are on `free`.
+ */
+export const PLANS: Record<PlanId, PlanDefinition> = {
+  free: {
+    id: 'free',
+    name: 'Free',
+    limits: {
+      factCheck: { daily: freeDailyLimit(), monthly: 100, burst: { limit: 3, windowSeconds: 60 } },
+      imageExtraction: { daily: 5, monthly: 100, burst: { limit: 3, windowSeconds: 60 } },
+      claimExtraction: { daily: 20, monthly: 300, burst: { limit: 5, windowSeconds: 60 } }
+    }
+  },
+  pro: {
+    id: 'pro',
+    name: 'Pro',
+    limits: {
+      factCheck: { daily: null, monthly: null, burst: { limit: 20, windowSeconds: 60 } },
+      imageExtraction: { daily: 200, monthly: null, burst: { limit: 20, windowSeconds: 60 } },
+      claimExtraction: { daily: null, monthly: null, burst: { limit: 30, windowSeconds: 60 } }
+    }
+  },
+  team: {
+    id: 'team',
+    name: 'Team',
+    limits: {
+      factCheck: { daily: null, monthly: 20000, burst: { limit: 60, windowSeconds: 60 } },
+      imageExtraction: { daily: null, monthly: 5000, burst: { limit: 60, windowSeconds: 60 } },
+      claimExtraction: { daily: null, monthly: 50000, burst: { limit: 120, windowSeconds: 60 } }
+    }
+  },
+  enterprise: {
+    id: 'enterprise',
+    name: 'Enterprise',
+    limits: {
+      factCheck: { daily: null, monthly: null, burst: null },
+      imageExtraction: { daily: null, monthly: null, burst: null },
+      claimExtraction: { daily: null, monthly: null, burst: null }
+    }
+  }
+};
+
+/**
+ * Looks up a plan by ID, falling back to the free plan.
+ * 
+ * @param {string} planId - The plan stored on the user document
+ * @returns {PlanDefinition} The matching plan definition
+ */
+export function getPlan(planId?: string): PlanDefinition {
+  return (planId && (PLANS as Record<string, PlanDefinition>)[planId]) || PLANS.free;
+}
@@ -0,0 +1,248 @@
+import { isValidUrl } from './url';
+import { truncateText } from './language';
+
+/**
+ * Another post shown together with the checked one: the quoted post, or a parent in its thread.
+ */
+export interface ContextPost {
+  author: string | null; // Handle without the leading "@"
+  text: string;
+  url: string | null;
+}
+
+/**
+ * A URL linked from the post. `text` is the article's readable text, when the client
+ * sent it or the server fetched it; `byline` and `publishedAt` only come from the server.
+ */
+export interface LinkedContent {
+  url: string;
+  title: string | null;
+  text: string | null;
+  byline?: string | null;
+  publishedAt?: string | null; // ISO timestamp
+}
+
+/**
+ * Everything around the post text that is needed to understand what it claims.
+ * Context is used to interpret the post; only the post itself is fact-checked.
+ */
+export interface PostContext {
+  author: string | null;
+  quotedPost: ContextPost | null;
+  parentPosts: ContextPost[]; // Oldest first, ending with the post being replied to
+  links: LinkedContent[];
+  mediaAltText: string[];
+}
+
+export type PostContextValidation =
+  | { ok: true; context: PostContext }
+  | { ok: false; errors: string[] };
+
+export const MAX_PARENT_POSTS = 5;
+export const MAX_LINKS = 3;
+export const MAX_MEDIA_ALT_TEXT = 5;
+
+const MAX_AUTHOR_LENGTH = 100;
+const MAX_CONTEXT_POST_LENGTH = 1000;
+const MAX_LINK_TITLE_LENGTH = 300;
+const MAX_ARTICLE_LENGTH = 3000;
+const MAX_ALT_TEXT_LENGTH = 500;
+
+/**
+ * Reads an optional string field, stripping characters the post text sanitizer also removes.
+ *
+ * @param {unknown} value - The raw value
+ * @param {number} maxLength - Maximum length in characters
+ * @returns {string | null} The cleaned string, or null if missing or blank
+ */
+function readText(value: unknown, maxLength: number): string | null {
+  if (typeof value !== 'string') return null;
+  const cleaned = truncateText(value.replace(/[<>{}]/g, ''), maxLength).trim();
+  return cleaned.length > 0 ? cleaned : null;
+}
+
+/**
+ * Normalizes an author handle ("@name", "name" or a profile URL path).
+ *
+ * @param {unknown} value - The raw handle
+ * @returns {string | null} The handle without "@" or slashes, or null if missing
+ */
+function readAuthor(value: unknown): string | null {
+  const text = readText(value, MAX_AUTHOR_LENGTH);
+  if (!text) return null;
+  const handle = text.replace(/^[@/]+/, '').replace(/\/+$/, '');
+  return handle.length > 0 ? handle : null;
+}
+
+/**
+ * Reads an optional URL, keeping only http(s) URLs.
+ *
+ * @param {unknown} value - The raw URL
+ * @returns {string | null} The URL, or null if missing or invalid
+ */
+function readUrl(value: unknown): string | null {
+  return typeof value === 'string' && isValidUrl(value.trim()) ? value.trim() : null;
+}
+
+/**
+ * Reads a quoted or parent post.
+ *
+ * @param {any} raw - The raw post object
+ * @param {string} path - Field path for error messages
+ * @param {string[]} errors - Collected validation errors
+ * @returns {ContextPost | null} The post, or null if it has no text
+ */
+function readContextPost(raw: any, path: string, errors: string[]): ContextPost | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  const text = readText(raw.text, MAX_CONTEXT_POST_LENGTH);
+  if (!text) return null;
+  return { author: readAuthor(raw.author), text, url: readUrl(raw.url) };
+}
+
+/**
+ * Reads a linked URL, given either as a string or as `{ url, title?, text? }`.
+ *
+ * @param {any} raw - The raw link
+ * @param {string} path - Field path for error messages
+ * @param {string[]} errors - Collected validation errors
+ * @returns {LinkedContent | null} The link, or null if the URL is invalid
+ */
+function readLink(raw: any, path: string, errors: string[]): LinkedContent | null {
+  if (typeof raw === 'string') raw = { url: raw };
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push(`${path} must be a URL or an object`);
+    return null;
+  }
+  const url = readUrl(raw.url);
+  if (!url) return null;
+  return {
+    url,
+    title: readText(raw.title, MAX_LINK_TITLE_LENGTH),
+    text: readText(raw.text, MAX_ARTICLE_LENGTH)
+  };
+}
+
+/**
+ * Reads an optional array field, reporting a non-array value as an error.
+ *
+ * @param {unknown} value - The raw value
+ * @param {string} path - Field path for error messages
+ * @param {string[]} errors - Collected validation errors
+ * @returns {any[]} The array, or an empty array if missing or invalid
+ */
+function readArray(value: unknown, path: string, errors: string[]): any[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array`);
+    return [];
+  }
+  return value;
+}
+
+/**
+ * Validates the structured post fields of a fact-check request body
+ * (`author`, `quotedPost`, `parentPosts`, `links`, `mediaAltText`). All are optional.
+ * Entries without usable text or URLs are dropped, long text is truncated and
+ * lists are capped; only values of the wrong type are rejected.
+ *
+ * @param {any} body - The parsed request body
+ * @returns {PostContextValidation} The post context, or the validation errors
+ */
+export function readPostContext(body: any): PostContextValidation {
+  const errors: string[] = [];
+  const raw = body || {};
+
+  const quotedPost = raw.quotedPost === undefined || raw.quotedPost === null
+    ? null
+    : readContextPost(raw.quotedPost, 'quotedPost', errors);
+
+  const parentPosts = readArray(raw.parentPosts, 'parentPosts', errors)
+    .map((p, i) => readContextPost(p, `parentPosts[${i}]`, errors))
+    .filter((p): p is ContextPost => p !== null)
+    .slice(-MAX_PARENT_POSTS);
+
+  const seenLinks = new Set<string>();
+  const links = readArray(raw.links, 'links', errors)
+    .map((l, i) => readLink(l, `links[${i}]`, errors))
+    .filter((l): l is LinkedContent => {
+      if (!l || seenLinks.has(l.url)) return false;
+      seenLinks.add(l.url);
+      return true;
+    })
+    .slice(0, MAX_LINKS);
+
+  const mediaAltText = readArray(raw.mediaAltText, 'mediaAltText', errors)
+    .map((a) => readText(a, MAX_ALT_TEXT_LENGTH))
+    .filter((a): a is string => a !== null)
+    .slice(0, MAX_MEDIA_ALT_TEXT);
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    context: { author: readAuthor(raw.author), quotedPost, parentPosts, links, mediaAltText }
+  };
+}
+
+/**
+ * Checks whether a post context carries anything worth adding to prompts.
+ *
+ * @param {PostContext} context - The post context
+ * @returns {boolean} True if any context field is set
+ */
+export function hasPostContext(context?: PostContext): boolean {
+  return !!context && (
+    context.author !== null ||
+    context.quotedPost !== null ||
+    context.parentPosts.length > 0 ||
+    context.links.length > 0 ||
+    context.mediaAltText.length > 0
+  );
+}
+
+/**
+ * Formats a context post as one prompt line.
+ *
+ * @param {ContextPost} post - The post
+ * @returns {string} "@author: text", or just the text if the author is unknown
+ */
+function formatContextPost(post: ContextPost): string {
+  return post.author ? `@${post.author}: ${post.text}` : post.text;
+}
+
+/**
+ * Formats the post context as a prompt section. The section is explicitly marked as
+ * context so the model does not fact-check the quoted or parent posts themselves.
+ *
+ * @param {PostContext} context - The post context
+ * @returns {string} Prompt section, or an empty string if there is no context
+ */
+export function formatPostContext(context?: PostContext): string {
+  if (!context || !hasPostContext(context)) return '';
+
+  const lines: string[] = ['Context (use it to understand the post; do not fact-check it separately):'];
+  if (context.author) {
+    lines.push(`Posted by: @${context.author}`);
+  }
+  if (context.parentPosts.length > 0) {
+    lines.push('In reply to this thread (oldest first):');
+    context.parentPosts.forEach((post, i) => lines.push(`  ${i + 1}. ${formatContextPost(post)}`));
+  }
+  if (context.quotedPost) {
+    lines.push(`Quoted post: ${formatContextPost(context.quotedPost)}`);
+  }
+  context.links.forEach((link) => {
+    lines.push(`Linked page: ${link.title ? `${link.title} (${link.url})` : link.url}`);
+    if (link.byline) lines.push(`  By: ${link.byline}`);
+    if (link.publishedAt) lines.push(`  Published (UTC): ${link.publishedAt}`);
+    if (link.text) lines.push(`  Excerpt: ${link.text}`);
+  });
+  if (context.mediaAltText.length > 0) {
+    lines.push('Image descriptions (alt text):');
+    context.mediaAltText.forEach((alt) => lines.push(`  - ${alt}`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeFirestore } from '@/test/fake-firestore';
+
+vi.mock('./firebaseAdmin', async () => {
+  const { FakeFirestore } = await import('@/test/fake-firestore');
+  return { db: new FakeFirestore(), adminAuth: {} };
+});
+
+vi.mock('./webhooks', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./webhooks')>()),
+  notifyWebhooks: vi.fn()
+}));
+
+import { db } from './firebaseAdmin';
+import { notifyWebhooks } from './webhooks';
+import { getQuotaStatus, reserveQuota } from './quota';
+
+const UID = 'user123';
+const today = () => new Date().toISOString().slice(0, 10);
+
+beforeEach(async () => {
+  (db as unknown as FakeFirestore).clear();
+  await db.collection('users').doc(UID).set({ plan: 'free' });
+  vi.mocked(notifyWebhooks).mockReset();
+});
+
+describe('legacy usage counters', () => {
+  it('counts today\'s legacy usage toward every feature', async () => {
+    await db.collection('users').doc(UID).set({ usage: { date: today(), count: 4 } }, { merge: true });
+
+    const status = await getQuotaStatus(UID);
+    expect(status.meters.factCheck.daily.used).toBe(4);
+    expect(status.meters.factCheck.monthly.used).toBe(4);
+    expect(status.meters.imageExtraction.daily.used).toBe(4);
+    expect(status.remaining).toBe(1);
+  });
+
+  it('carries the legacy count into the meter and stops at the limit', async () => {
+    await db.collection('users').doc(UID).set({ usage: { date: today(), count: 4 } }, { merge: true });
+
+    await (await reserveQuota(UID, 'factCheck', { countBurst: false })).commit();
+    await expect(reserveQuota(UID, 'factCheck', { countBurst: false })).rejects.toThrow('QUOTA_EXCEEDED');
+    const user = (await db.collection('users').doc(UID).get()).data();
+    expect(user?.meters.factCheck).toMatchObject({ day: today(), daily: 5, monthly: 5 });
+  });
+
+  it('ignores legacy usage from an earlier day', async () => {
+    await db.collection('users').doc(UID).set({ usage: { date: '2020-01-01', count: 5 } }, { merge: true });
+    expect((await getQuotaStatus(UID)).meters.factCheck.daily.used).toBe(0);
+  });
+});
+
+describe('quota.exhausted webhook', () => {
+  it('is sent when the last unit of the day is committed', async () => {
+    await db.collection('users').doc(UID).set({ usage: { date: today(), count: 4 } }, { merge: true });
+
+    const reservation = await reserveQuota(UID, 'factCheck', { countBurst: false });
+    expect(notifyWebhooks).not.toHaveBeenCalled();
+    await reservation.commit();
+    await reservation.commit();
+
+    expect(notifyWebhooks).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(notifyWebhooks).mock.calls[0].slice(0, 3)).toEqual([UID, 'quota.exhausted', `quota_factCheck_${today()}`]);
+    expect(vi.mocked(notifyWebhooks).mock.calls[0][3]).toMatchObject({ feature: 'factCheck', window: 'daily', limit: 5 });
+  });
+
+  it('is not sent when the last unit is refunded', async () => {
+    await db.collection('users').doc(UID).set({ usage: { date: today(), count: 4 } }, { merge: true });
+
+    const reservation = await reserveQuota(UID, 'factCheck', { countBurst: false });
+    await reservation.refund();
+    await reservation.commit();
+
+    expect(notifyWebhooks).not.toHaveBeenCalled();
+    expect((await getQuotaStatus(UID)).remaining).toBe(1);
+  });
+});
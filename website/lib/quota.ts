@@ -0,0 +1,400 @@
+import { db } from './firebaseAdmin';
+import { getPlan, QUOTA_FEATURES, QuotaFeature, MeterLimits, PlanId } from './plans';
+import { notifyWebhooks } from './webhooks';
+
+/**
+ * Where clients are sent when their quota is exhausted.
+ */
+export const QUOTA_UPGRADE_URL = "https://fact-checker-website.vercel.app/billing";
+
+export interface WindowStatus {
+  used: number;
+  limit: number | null; // null means unlimited
+  remaining: number | null;
+  resetsAt: string;
+}
+
+export interface MeterStatus {
+  daily: WindowStatus;
+  monthly: WindowStatus;
+  burst: { limit: number; windowSeconds: number } | null;
+}
+
+/**
+ * Quota state for a user. `used`, `limit`, `remaining` and `resetsAt` mirror the
+ * daily fact-check meter for clients that predate per-feature meters.
+ */
+export interface QuotaStatus {
+  plan: PlanId;
+  planName: string;
+  meters: Record<QuotaFeature, MeterStatus>;
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+  resetsAt: string;
+}
+
+/**
+ * A unit of quota reserved for one metered request.
+ * Call `commit` once the request succeeds or `refund` if it fails; both are idempotent
+ * and only the first of the two calls has any effect.
+ */
+export interface QuotaReservation {
+  feature: QuotaFeature;
+  commit(): Promise<void>;
+  refund(): Promise<void>;
+}
+
+/**
+ * Usage of one feature through one API key in the current day and month.
+ */
+export interface ApiKeyUsageStatus {
+  daily: number;
+  monthly: number;
+}
+
+/**
+ * Usage counters stored at apiKeys/{id}.usage.{feature}. They attribute units to a key;
+ * limits are enforced on the owner's meters only.
+ */
+interface ApiKeyUsage {
+  day: string; // YYYY-MM-DD
+  daily: number;
+  month: string; // YYYY-MM
+  monthly: number;
+}
+
+/**
+ * Usage counters stored at users/{uid}.meters.{feature}.
+ */
+interface MeterUsage {
+  day: string; // YYYY-MM-DD
+  daily: number;
+  month: string; // YYYY-MM
+  monthly: number;
+  burstStart: number; // epoch ms
+  burstCount: number;
+}
+
+/**
+ * Returns today's date in UTC format as YYYY-MM-DD string.
+ * 
+ * @param {Date} now - The current time
+ * @returns {string} Today's date in YYYY-MM-DD format
+ */
+function dayKey(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Returns the current month in UTC format as YYYY-MM string.
+ * 
+ * @param {Date} now - The current time
+ * @returns {string} This month in YYYY-MM format
+ */
+function monthKey(now: Date): string {
+  return now.toISOString().slice(0, 7);
+}
+
+/**
+ * Returns the ISO timestamp for when the daily quota resets (midnight UTC tomorrow).
+ * 
+ * @param {Date} now - The current time
+ * @returns {string} ISO timestamp string for tomorrow at 00:00:00 UTC
+ */
+function dailyResetIso(now: Date): string {
+  const tomorrow = new Date(now.getTime());
+  tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
+  tomorrow.setUTCHours(0, 0, 0, 0);
+  return tomorrow.toISOString();
+}
+
+/**
+ * Returns the ISO timestamp for when the monthly quota resets (the 1st of next month, UTC).
+ * 
+ * @param {Date} now - The current time
+ * @returns {string} ISO timestamp string for the first day of next month at 00:00:00 UTC
+ */
+function monthlyResetIso(now: Date): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString();
+}
+
+/**
+ * Reads a feature's stored counters, resetting any window that has rolled over.
+ * Today's count from before per-feature meters (users/{uid}.usage = { date, count },
+ * shared by every feature) still counts toward the day and month, so a deploy does not
+ * hand out a fresh quota; once the meter is written it carries that count forward.
+ * 
+ * @param {any} userData - The users/{uid} document data
+ * @param {QuotaFeature} feature - The metered feature
+ * @param {MeterLimits} limits - The plan's limits for the feature
+ * @param {Date} now - The current time
+ * @returns {MeterUsage} Counters for the current windows
+ */
+function currentUsage(userData: any, feature: QuotaFeature, limits: MeterLimits, now: Date): MeterUsage {
+  const stored = userData?.meters?.[feature] || {};
+  const day = dayKey(now);
+  const month = monthKey(now);
+  const burstWindowMs = (limits.burst?.windowSeconds || 0) * 1000;
+  const burstActive = typeof stored.burstStart === 'number' && now.getTime() - stored.burstStart < burstWindowMs;
+  const legacy = userData?.usage?.date === day ? (userData.usage.count || 0) : 0;
+
+  return {
+    day,
+    daily: Math.max(stored.day === day ? (stored.daily || 0) : 0, legacy),
+    month,
+    monthly: Math.max(stored.month === month ? (stored.monthly || 0) : 0, legacy),
+    burstStart: burstActive ? stored.burstStart : now.getTime(),
+    burstCount: burstActive ? (stored.burstCount || 0) : 0
+  };
+}
+
+/**
+ * Reads a key's stored counters for one feature, resetting any window that has rolled over.
+ * 
+ * @param {any} stored - The apiKeys/{id}.usage.{feature} value
+ * @param {Date} now - The current time
+ * @returns {ApiKeyUsage} Counters for the current windows
+ */
+function currentApiKeyUsage(stored: any, now: Date): ApiKeyUsage {
+  const day = dayKey(now);
+  const month = monthKey(now);
+  return {
+    day,
+    daily: stored?.day === day ? (stored.daily || 0) : 0,
+    month,
+    monthly: stored?.month === month ? (stored.monthly || 0) : 0
+  };
+}
+
+/**
+ * Returns a key's usage of one feature in the current day and month.
+ * 
+ * @param {any} stored - The apiKeys/{id}.usage.{feature} value
+ * @param {Date} now - The current time
+ * @returns {ApiKeyUsageStatus} Units used today and this month
+ */
+export function apiKeyUsageStatus(stored: any, now: Date): ApiKeyUsageStatus {
+  const usage = currentApiKeyUsage(stored, now);
+  return { daily: usage.daily, monthly: usage.monthly };
+}
+
+/**
+ * Builds the status of one quota window.
+ * 
+ * @param {number} used - Units used in the window
+ * @param {number | null} limit - Window limit, or null if unlimited
+ * @param {string} resetsAt - ISO timestamp when the window resets
+ * @returns {WindowStatus} Window status
+ */
+function windowStatus(used: number, limit: number | null, resetsAt: string): WindowStatus {
+  return {
+    used,
+    limit,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+    resetsAt
+  };
+}
+
+/**
+ * Returns the current quota state for a user. This is the single source of truth
+ * read by `/api/me`, `/api/me/limits` and the metered routes.
+ * 
+ * @param {string} uid - The user's ID
+ * @returns {Promise<QuotaStatus>} Plan, per-feature meters and reset times
+ */
+export async function getQuotaStatus(uid: string): Promise<QuotaStatus> {
+  const userDoc = await db.collection('users').doc(uid).get();
+  const userData = userDoc.data();
+  const plan = getPlan(userData?.plan);
+  const now = new Date();
+
+  const meters = {} as Record<QuotaFeature, MeterStatus>;
+  for (const feature of QUOTA_FEATURES) {
+    const limits = plan.limits[feature];
+    const usage = currentUsage(userData, feature, limits, now);
+    meters[feature] = {
+      daily: windowStatus(usage.daily, limits.daily, dailyResetIso(now)),
+      monthly: windowStatus(usage.monthly, limits.monthly, monthlyResetIso(now)),
+      burst: limits.burst
+    };
+  }
+
+  const factCheckDaily = meters.factCheck.daily;
+  const factCheckMonthly = meters.factCheck.monthly;
+  const remaining = factCheckDaily.remaining === null
+    ? factCheckMonthly.remaining
+    : factCheckMonthly.remaining === null
+      ? factCheckDaily.remaining
+      : Math.min(factCheckDaily.remaining, factCheckMonthly.remaining);
+
+  return {
+    plan: plan.id,
+    planName: plan.name,
+    meters,
+    used: factCheckDaily.used,
+    limit: factCheckDaily.limit,
+    remaining,
+    resetsAt: factCheckDaily.resetsAt
+  };
+}
+
+/**
+ * Sends the `quota.exhausted` webhook once per feature and window.
+ * 
+ * @param {string} uid - The user's ID
+ * @param {QuotaFeature} feature - The metered feature
+ * @param {'daily' | 'monthly'} window - The window that ran out
+ * @param {string} period - The window's day (YYYY-MM-DD) or month (YYYY-MM)
+ * @param {number} limit - The window's limit
+ * @param {string} resetsAt - ISO timestamp when the window resets
+ * @returns {Promise<void>}
+ */
+async function notifyQuotaExhausted(
+  uid: string,
+  feature: QuotaFeature,
+  window: 'daily' | 'monthly',
+  period: string,
+  limit: number,
+  resetsAt: string
+): Promise<void> {
+  await notifyWebhooks(uid, 'quota.exhausted', `quota_${feature}_${period}`, {
+    feature,
+    window,
+    limit,
+    resetsAt,
+    upgradeUrl: QUOTA_UPGRADE_URL
+  });
+}
+
+/**
+ * Counts one request toward a feature's burst limit without charging daily or monthly
+ * quota. Used for requests whose units are charged later, such as a batch whose items
+ * are reserved with `countBurst: false` as they run.
+ * 
+ * @param {string} uid - The user's ID
+ * @param {QuotaFeature} feature - The metered feature being used
+ * @returns {Promise<void>}
+ * @throws {Error} Throws error with message "RATE_LIMITED" if the burst limit is hit
+ */
+export async function reserveBurst(uid: string, feature: QuotaFeature): Promise<void> {
+  const userRef = db.collection('users').doc(uid);
+  const now = new Date();
+
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(userRef);
+    const userData = snap.data();
+    const limits = getPlan(userData?.plan).limits[feature];
+    if (!limits.burst) return;
+
+    const usage = currentUsage(userData, feature, limits, now);
+    if (usage.burstCount >= limits.burst.limit) {
+      throw new Error("RATE_LIMITED");
+    }
+    const next: Partial<MeterUsage> = { burstStart: usage.burstStart, burstCount: usage.burstCount + 1 };
+    tx.set(userRef, { meters: { [feature]: next } }, { merge: true });
+  });
+}
+
+/**
+ * Atomically reserves one unit of a feature's quota inside a Firestore transaction,
+ * so parallel requests cannot exceed the plan's burst, daily or monthly limits.
+ * Usage is recorded for every plan, including unlimited ones.
+ * Pass `countBurst: false` for units that belong to one already-accepted request,
+ * such as the items of a batch, so they are charged without hitting the burst limit.
+ * Pass `apiKeyId` to attribute the unit to the API key the request was made with.
+ * Committing the last unit of a daily or monthly window sends the `quota.exhausted` webhook.
+ * 
+ * @param {string} uid - The user's ID
+ * @param {QuotaFeature} feature - The metered feature being used
+ * @param {{ countBurst?: boolean, apiKeyId?: string }} options - Burst accounting (default true) and the API key to attribute usage to
+ * @returns {Promise<QuotaReservation>} Reservation to commit on success or refund on failure
+ * @throws {Error} Throws error with message "RATE_LIMITED" if the burst limit is hit,
+ *   or "QUOTA_EXCEEDED" if the daily or monthly limit is used up
+ */
+export async function reserveQuota(uid: string, feature: QuotaFeature, options: { countBurst?: boolean; apiKeyId?: string } = {}): Promise<QuotaReservation> {
+  const userRef = db.collection('users').doc(uid);
+  const keyRef = options.apiKeyId ? db.collection('apiKeys').doc(options.apiKeyId) : null;
+  const now = new Date();
+  const countBurst = options.countBurst !== false;
+
+  const { usage: reserved, limits } = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(userRef);
+    const keySnap = keyRef ? await tx.get(keyRef) : null;
+    const userData = snap.data();
+    const limits = getPlan(userData?.plan).limits[feature];
+    const usage = currentUsage(userData, feature, limits, now);
+
+    if (countBurst && limits.burst && usage.burstCount >= limits.burst.limit) {
+      throw new Error("RATE_LIMITED");
+    }
+    if ((limits.daily !== null && usage.daily >= limits.daily) ||
+        (limits.monthly !== null && usage.monthly >= limits.monthly)) {
+      throw new Error("QUOTA_EXCEEDED");
+    }
+
+    const next: MeterUsage = {
+      ...usage,
+      daily: usage.daily + 1,
+      monthly: usage.monthly + 1,
+      burstCount: usage.burstCount + (countBurst ? 1 : 0)
+    };
+    tx.set(userRef, { meters: { [feature]: next } }, { merge: true });
+
+    if (keyRef && keySnap?.exists) {
+      const keyUsage = currentApiKeyUsage(keySnap.data()?.usage?.[feature], now);
+      tx.set(keyRef, {
+        usage: { [feature]: { ...keyUsage, daily: keyUsage.daily + 1, monthly: keyUsage.monthly + 1 } }
+      }, { merge: true });
+    }
+    return { usage: next, limits };
+  });
+
+  let settled = false;
+
+  return {
+    feature,
+
+    async commit() {
+      if (settled) return;
+      settled = true;
+
+      // Only a unit that is kept uses the window up; a refunded one gives it back
+      if (limits.daily !== null && reserved.daily === limits.daily) {
+        await notifyQuotaExhausted(uid, feature, 'daily', reserved.day, limits.daily, dailyResetIso(now));
+      }
+      if (limits.monthly !== null && reserved.monthly === limits.monthly) {
+        await notifyQuotaExhausted(uid, feature, 'monthly', reserved.month, limits.monthly, monthlyResetIso(now));
+      }
+    },
+
+    async refund() {
+      if (settled) return;
+      settled = true;
+
+      // Give the unit back to the windows it was charged against, if they are still current.
+      // Burst usage is not refunded: failed attempts still count toward the request rate.
+      await db.runTransaction(async (tx) => {
+        const snap = await tx.get(userRef);
+        const keySnap = keyRef ? await tx.get(keyRef) : null;
+        const stored = snap.data()?.meters?.[feature];
+        if (!stored) return;
+
+        const update: Partial<MeterUsage> = {};
+        if (stored.day === reserved.day && stored.daily > 0) update.daily = stored.daily - 1;
+        if (stored.month === reserved.month && stored.monthly > 0) update.monthly = stored.monthly - 1;
+        tx.set(userRef, { meters: { [feature]: update } }, { merge: true });
+
+        const storedKeyUsage = keySnap?.data()?.usage?.[feature];
+        if (keyRef && storedKeyUsage) {
+          const keyUpdate: Partial<ApiKeyUsage> = {};
+          if (storedKeyUsage.day === reserved.day && storedKeyUsage.daily > 0) keyUpdate.daily = storedKeyUsage.daily - 1;
+          if (storedKeyUsage.month === reserved.month && storedKeyUsage.monthly > 0) keyUpdate.monthly = storedKeyUsage.monthly - 1;
+          tx.set(keyRef, { usage: { [feature]: keyUpdate } }, { merge: true });
+        }
+      }).catch((error) => {
+        console.error('Quota refund failed:', error);
+      });
+    }
+  };
+}
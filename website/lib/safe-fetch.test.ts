@@ -0,0 +1,141 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Host names that resolve to fixed addresses, so a "public" host can be served locally
+const RESOLVED: Record<string, string> = {
+  'news.example': '93.184.216.34',
+  'intranet.example': '10.0.0.5'
+};
+
+vi.mock('dns/promises', async (importOriginal) => {
+  const original = await importOriginal<typeof import('dns/promises')>();
+  return {
+    ...original,
+    lookup: vi.fn(async (host: string, options: any) =>
+      RESOLVED[host] ? [{ address: RESOLVED[host], family: 4 }] : original.lookup(host, options))
+  };
+});
+
+import { isPrivateAddress, isPrivateHost, safeFetch } from './safe-fetch';
+
+let server: Server;
+let localBase: string;
+let hits: string[] = [];
+const realFetch = globalThis.fetch;
+
+/**
+ * Routes of the local server: redirects under /r/, a large page, a page that never
+ * answers and a stand-in for an internal endpoint.
+ */
+function handle(req: IncomingMessage, res: ServerResponse) {
+  const path = req.url || '';
+  hits.push(path);
+  if (path === '/r/loopback') {
+    res.writeHead(302, { Location: `${localBase}/secret` }).end();
+  } else if (path === '/r/intranet') {
+    res.writeHead(302, { Location: 'http://intranet.example/secret' }).end();
+  } else if (path === '/r/loop') {
+    res.writeHead(302, { Location: '/r/loop' }).end();
+  } else if (path === '/large') {
+    res.writeHead(200, { 'Content-Type': 'text/html' }).end('a'.repeat(64 * 1024));
+  } else if (path === '/slow') {
+    // Never answers; the fetch must give up on its own
+  } else {
+    res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
+  }
+}
+
+beforeAll(async () => {
+  server = createServer(handle);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  localBase = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  hits = [];
+  // Requests to news.example go to the local server, as if it were that public host
+  vi.stubGlobal('fetch', (input: string, init?: RequestInit) => {
+    const url = new URL(input);
+    if (url.hostname !== 'news.example') return realFetch(input, init);
+    return realFetch(`${localBase}${url.pathname}${url.search}`, init);
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('isPrivateAddress', () => {
+  it('flags loopback, private, link-local and mapped addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '[::1]', '::ffff:127.0.0.1', '::ffff:10.0.0.1', 'fd00::1', 'fe80::1']) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it('allows public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '172.32.0.1', '::ffff:93.184.216.34', '2606:4700::1111']) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+});
+
+describe('isPrivateHost', () => {
+  it('flags local names and private IP literals', () => {
+    for (const host of ['localhost', 'api.localhost', 'metadata.google.internal', 'printer.local', '127.0.0.1', '169.254.169.254', '[::1]', '[::ffff:127.0.0.1]']) {
+      expect(isPrivateHost(host), host).toBe(true);
+    }
+  });
+
+  it('leaves public names to the DNS check', () => {
+    expect(isPrivateHost('news.example')).toBe(false);
+    expect(isPrivateHost('93.184.216.34')).toBe(false);
+  });
+});
+
+describe('safeFetch', () => {
+  it('fetches a public host', async () => {
+    const response = await safeFetch('http://news.example/story', { timeoutMs: 2000, maxBytes: 1024 });
+    expect(response).toMatchObject({ url: 'http://news.example/story', status: 200, body: 'ok', truncated: false });
+  });
+
+  it('rejects a private host before fetching it', async () => {
+    await expect(safeFetch(`${localBase}/secret`, { timeoutMs: 2000, maxBytes: 1024 })).rejects.toThrow('PRIVATE_HOST');
+    expect(hits).toEqual([]);
+  });
+
+  it('rejects a redirect from a public host to a loopback address on that hop', async () => {
+    await expect(safeFetch('http://news.example/r/loopback', { timeoutMs: 2000, maxBytes: 1024 })).rejects.toThrow('PRIVATE_HOST');
+    expect(hits).toEqual(['/r/loopback']);
+  });
+
+  it('rejects a redirect to a host name that resolves to a private address', async () => {
+    await expect(safeFetch('http://news.example/r/intranet', { timeoutMs: 2000, maxBytes: 1024 })).rejects.toThrow('PRIVATE_HOST');
+    expect(hits).toEqual(['/r/intranet']);
+  });
+
+  it('stops after the redirect limit', async () => {
+    await expect(safeFetch('http://news.example/r/loop', { timeoutMs: 2000, maxBytes: 1024, maxRedirects: 2 }))
+      .rejects.toThrow('TOO_MANY_REDIRECTS');
+    expect(hits).toHaveLength(3);
+  });
+
+  it('reads at most maxBytes of the body', async () => {
+    const response = await safeFetch(`${localBase}/large`, { timeoutMs: 2000, maxBytes: 1000, allowPrivateHosts: true });
+    expect(response.body).toHaveLength(1000);
+    expect(response.truncated).toBe(true);
+  });
+
+  it('aborts once the time budget is spent', async () => {
+    const started = Date.now();
+    await expect(safeFetch(`${localBase}/slow`, { timeoutMs: 200, maxBytes: 1024, allowPrivateHosts: true }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+    expect(Date.now() - started).toBeLessThan(1500);
+  });
+});
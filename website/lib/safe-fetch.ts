@@ -0,0 +1,166 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { isValidUrl } from './url';
+
+export interface SafeFetchOptions {
+  timeoutMs: number; // Budget for the whole request, redirects included
+  maxBytes: number; // Body bytes to read; the rest is discarded
+  maxRedirects?: number;
+  accept?: string;
+  readTypes?: string[]; // Only read bodies whose content type contains one of these (default: any)
+  allowPrivateHosts?: boolean; // Allow localhost and private IPs, e.g. for a local HTTP stand-in
+  method?: 'GET' | 'POST'; // Default GET
+  headers?: Record<string, string>; // Sent on every hop in addition to Accept
+  body?: string; // Request body for POST
+}
+
+/**
+ * A fetched page. `body` is empty for non-2xx responses and for content types not in `readTypes`.
+ */
+export interface SafeFetchResponse {
+  url: string; // Final URL after redirects
+  status: number;
+  contentType: string;
+  body: string;
+  truncated: boolean; // True if reading stopped at maxBytes
+}
+
+/**
+ * Checks whether an IP address is loopback, link-local, private, shared, reserved or multicast.
+ *
+ * @param {string} address - An IPv4 or IPv6 address
+ * @returns {boolean} True if the address must not be fetched from the server
+ */
+export function isPrivateAddress(address: string): boolean {
+  const host = address.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host.includes(':')) {
+    // IPv4-mapped addresses are checked as the IPv4 address they wrap
+    const mapped = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    return host === '::1' || host === '::' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) ||
+      host.startsWith('ff') || host.startsWith('::ffff:') || host.startsWith('64:ff9b:');
+  }
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (!ipv4) return false;
+  const [a, b] = [parseInt(ipv4[1], 10), parseInt(ipv4[2], 10)];
+  return a === 10 || a === 127 || a === 0 || a >= 224 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 198 && (b === 18 || b === 19));
+}
+
+/**
+ * Checks whether a hostname is private by name or by IP literal, without DNS.
+ *
+ * @param {string} hostname - The hostname to check
+ * @returns {boolean} True if the host must not be fetched from the server
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || host.endsWith('.local')) return true;
+  return isIP(host) !== 0 && isPrivateAddress(host);
+}
+
+/**
+ * Rejects hosts that are private by name, IP literal or any address they resolve to.
+ * A host could still re-resolve to a different address for the actual request; checking
+ * every hop's resolution keeps that window small.
+ *
+ * @param {string} hostname - The hostname to check
+ * @returns {Promise<void>}
+ * @throws {Error} Throws error with message "PRIVATE_HOST" if the host is private
+ */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  if (isPrivateHost(hostname)) throw new Error("PRIVATE_HOST");
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) !== 0) return;
+
+  const addresses = await lookup(host, { all: true });
+  if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+    throw new Error("PRIVATE_HOST");
+  }
+}
+
+/**
+ * Reads at most `maxBytes` of a response body as text, then cancels the rest.
+ *
+ * @param {Response} response - The response to read
+ * @param {number} maxBytes - Maximum number of bytes to read
+ * @returns {Promise<{ text: string, truncated: boolean }>} The (possibly truncated) body text
+ */
+async function readTextPrefix(response: Response, maxBytes: number): Promise<{ text: string; truncated: boolean }> {
+  if (!response.body) return { text: '', truncated: false };
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = '';
+  let truncated = false;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done || !value) break;
+    const remaining = maxBytes - received;
+    received += value.length;
+    text += decoder.decode(remaining < value.length ? value.subarray(0, remaining) : value, { stream: true });
+    if (received >= maxBytes) {
+      truncated = true;
+      break;
+    }
+  }
+  reader.cancel().catch(() => undefined);
+  return { text, truncated };
+}
+
+/**
+ * Fetches an untrusted URL from the server: http(s) only, redirects followed hop by hop
+ * with every hop checked against private networks, one time budget for the whole
+ * request and a cap on the bytes read.
+ *
+ * @param {string} url - The URL to fetch
+ * @param {SafeFetchOptions} options - Time, size and redirect limits
+ * @returns {Promise<SafeFetchResponse>} The final response
+ * @throws {Error} Throws error with message "PRIVATE_HOST", "INVALID_URL", "TOO_MANY_REDIRECTS", or an abort error on timeout
+ */
+export async function safeFetch(url: string, options: SafeFetchOptions): Promise<SafeFetchResponse> {
+  const maxRedirects = options.maxRedirects ?? 5;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+  try {
+    let current = url;
+    for (let hop = 0; hop <= maxRedirects; hop++) {
+      if (!isValidUrl(current)) throw new Error("INVALID_URL");
+      const parsed = new URL(current);
+      if (!options.allowPrivateHosts) {
+        await assertPublicHost(parsed.hostname);
+      }
+
+      const response = await fetch(current, {
+        method: options.method || 'GET',
+        redirect: 'manual',
+        signal: controller.signal,
+        headers: { 'Accept': options.accept || 'text/html,application/xhtml+xml', ...options.headers },
+        body: options.body
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        response.body?.cancel().catch(() => undefined);
+        current = new URL(location, current).toString();
+        continue;
+      }
+
+      const contentType = (response.headers.get('content-type') || '').toLowerCase();
+      const readable = !options.readTypes || options.readTypes.some((type) => contentType.includes(type));
+      if (!response.ok || !readable) {
+        response.body?.cancel().catch(() => undefined);
+        return { url: current, status: response.status, contentType, body: '', truncated: false };
+      }
+      const { text, truncated } = await readTextPrefix(response, options.maxBytes);
+      return { url: current, status: response.status, contentType, body: text, truncated };
+    }
+    throw new Error("TOO_MANY_REDIRECTS");
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,170 @@
+import { FactCheckSource, SourceCategory, SourceReputation } from './fact-check-result';
+
+/**
+ * One outlet in the credibility registry. `domain` matches the domain itself and
+ * every subdomain; a bare suffix such as "gov" matches every domain under it.
+ * The most specific matching entry wins.
+ */
+export interface SourceRegistryEntry {
+  domain: string;
+  outlet: string;
+  category: SourceCategory;
+  baseScore: number; // 1-10
+}
+
+/**
+ * How far a model-assigned credibility score may stray from a known outlet's base score.
+ */
+const SCORE_TOLERANCE = 1;
+
+/**
+ * Categories whose base score replaces the model's score outright.
+ */
+const FIXED_SCORE_CATEGORIES: SourceCategory[] = ['satire', 'known-misinformation'];
+
+/**
+ * The maintained domain reputation registry. Keep entries sorted by category, then domain.
+ * Changes should cite a public methodology (e.g. IFCN signatory status, published
+ * corrections policy, or documented fabrication) in the pull request.
+ */
+export const SOURCE_REGISTRY: SourceRegistryEntry[] = [
+  // Wire services
+  { domain: 'afp.com', outlet: 'Agence France-Presse', category: 'wire-service', baseScore: 9 },
+  { domain: 'apnews.com', outlet: 'Associated Press', category: 'wire-service', baseScore: 9 },
+  { domain: 'reuters.com', outlet: 'Reuters', category: 'wire-service', baseScore: 9 },
+
+  // News
+  { domain: 'bbc.co.uk', outlet: 'BBC', category: 'news', baseScore: 8 },
+  { domain: 'bbc.com', outlet: 'BBC', category: 'news', baseScore: 8 },
+  { domain: 'bloomberg.com', outlet: 'Bloomberg', category: 'news', baseScore: 8 },
+  { domain: 'cbsnews.com', outlet: 'CBS News', category: 'news', baseScore: 7 },
+  { domain: 'cnn.com', outlet: 'CNN', category: 'news', baseScore: 7 },
+  { domain: 'economist.com', outlet: 'The Economist', category: 'news', baseScore: 8 },
+  { domain: 'foxnews.com', outlet: 'Fox News', category: 'news', baseScore: 6 },
+  { domain: 'ft.com', outlet: 'Financial Times', category: 'news', baseScore: 8 },
+  { domain: 'npr.org', outlet: 'NPR', category: 'news', baseScore: 8 },
+  { domain: 'nytimes.com', outlet: 'The New York Times', category: 'news', baseScore: 8 },
+  { domain: 'pbs.org', outlet: 'PBS', category: 'news', baseScore: 8 },
+  { domain: 'theguardian.com', outlet: 'The Guardian', category: 'news', baseScore: 7 },
+  { domain: 'washingtonpost.com', outlet: 'The Washington Post', category: 'news', baseScore: 8 },
+  { domain: 'wsj.com', outlet: 'The Wall Street Journal', category: 'news', baseScore: 8 },
+
+  // Fact-checkers
+  { domain: 'factcheck.org', outlet: 'FactCheck.org', category: 'fact-checker', baseScore: 9 },
+  { domain: 'fullfact.org', outlet: 'Full Fact', category: 'fact-checker', baseScore: 9 },
+  { domain: 'leadstories.com', outlet: 'Lead Stories', category: 'fact-checker', baseScore: 8 },
+  { domain: 'politifact.com', outlet: 'PolitiFact', category: 'fact-checker', baseScore: 9 },
+  { domain: 'snopes.com', outlet: 'Snopes', category: 'fact-checker', baseScore: 8 },
+
+  // Government
+  { domain: 'cdc.gov', outlet: 'U.S. Centers for Disease Control and Prevention', category: 'government', baseScore: 9 },
+  { domain: 'europa.eu', outlet: 'European Union', category: 'government', baseScore: 8 },
+  { domain: 'gov', outlet: 'U.S. government', category: 'government', baseScore: 8 },
+  { domain: 'gov.uk', outlet: 'UK government', category: 'government', baseScore: 8 },
+  { domain: 'nasa.gov', outlet: 'NASA', category: 'government', baseScore: 9 },
+  { domain: 'nih.gov', outlet: 'U.S. National Institutes of Health', category: 'government', baseScore: 9 },
+  { domain: 'who.int', outlet: 'World Health Organization', category: 'government', baseScore: 9 },
+
+  // Academic
+  { domain: 'ac.uk', outlet: 'UK academic institution', category: 'academic', baseScore: 8 },
+  { domain: 'arxiv.org', outlet: 'arXiv (preprints)', category: 'academic', baseScore: 6 },
+  { domain: 'edu', outlet: 'U.S. academic institution', category: 'academic', baseScore: 8 },
+  { domain: 'nature.com', outlet: 'Nature', category: 'academic', baseScore: 9 },
+  { domain: 'science.org', outlet: 'Science', category: 'academic', baseScore: 9 },
+  { domain: 'thelancet.com', outlet: 'The Lancet', category: 'academic', baseScore: 9 },
+
+  // Reference
+  { domain: 'britannica.com', outlet: 'Encyclopaedia Britannica', category: 'reference', baseScore: 8 },
+  { domain: 'wikipedia.org', outlet: 'Wikipedia', category: 'reference', baseScore: 6 },
+
+  // Satire
+  { domain: 'babylonbee.com', outlet: 'The Babylon Bee', category: 'satire', baseScore: 1 },
+  { domain: 'clickhole.com', outlet: 'ClickHole', category: 'satire', baseScore: 1 },
+  { domain: 'newsthump.com', outlet: 'NewsThump', category: 'satire', baseScore: 1 },
+  { domain: 'thebeaverton.com', outlet: 'The Beaverton', category: 'satire', baseScore: 1 },
+  { domain: 'theonion.com', outlet: 'The Onion', category: 'satire', baseScore: 1 },
+
+  // Known misinformation
+  { domain: 'beforeitsnews.com', outlet: "Before It's News", category: 'known-misinformation', baseScore: 1 },
+  { domain: 'infowars.com', outlet: 'InfoWars', category: 'known-misinformation', baseScore: 1 },
+  { domain: 'naturalnews.com', outlet: 'Natural News', category: 'known-misinformation', baseScore: 1 },
+  { domain: 'newspunch.com', outlet: 'News Punch', category: 'known-misinformation', baseScore: 1 }
+];
+
+/**
+ * Extracts the lowercase hostname (without "www.") from a URL, or accepts a bare domain.
+ *
+ * @param {string} value - A URL or domain
+ * @returns {string | null} The normalized domain, or null if it cannot be parsed
+ */
+export function normalizeDomain(value: string): string | null {
+  if (!value || typeof value !== 'string') return null;
+  const trimmed = value.trim().toLowerCase();
+  try {
+    const host = /^[a-z][a-z0-9+.-]*:\/\//.test(trimmed) ? new URL(trimmed).hostname : trimmed.split('/')[0];
+    const domain = host.replace(/^www\./, '').replace(/\.$/, '');
+    return /^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(domain) ? domain : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Finds the most specific registry entry for a domain.
+ *
+ * @param {string} domain - A normalized domain
+ * @returns {SourceRegistryEntry | null} The matching entry, or null if the domain is unknown
+ */
+function findEntry(domain: string): SourceRegistryEntry | null {
+  let best: SourceRegistryEntry | null = null;
+  for (const entry of SOURCE_REGISTRY) {
+    const matches = domain === entry.domain || domain.endsWith(`.${entry.domain}`);
+    if (matches && (!best || entry.domain.length > best.domain.length)) {
+      best = entry;
+    }
+  }
+  return best;
+}
+
+/**
+ * Looks up a URL or domain in the registry.
+ *
+ * @param {string} urlOrDomain - A source URL or bare domain
+ * @returns {SourceReputation | null} The reputation (flagged `unknown` if not registered), or null if unparseable
+ */
+export function lookupSource(urlOrDomain: string): SourceReputation | null {
+  const domain = normalizeDomain(urlOrDomain);
+  if (!domain) return null;
+  const entry = findEntry(domain);
+  return entry
+    ? { status: 'known', domain: entry.domain, outlet: entry.outlet, category: entry.category, baseScore: entry.baseScore }
+    : { status: 'unknown', domain };
+}
+
+/**
+ * Applies the registry to a source: attaches its reputation and replaces or bounds the
+ * model-assigned credibility score. Satire and known-misinformation outlets get their base
+ * score; other known outlets are held within SCORE_TOLERANCE of it. Unknown domains are
+ * flagged and left unscored (`credibilityScore: null`). Reputation is looked up by URL only:
+ * the title comes from the model, and grounding redirects are resolved to publisher URLs
+ * before this runs.
+ *
+ * @param {FactCheckSource} source - A validated source
+ * @returns {FactCheckSource} The source with reputation applied
+ */
+export function applySourceReputation(source: FactCheckSource): FactCheckSource {
+  const reputation = lookupSource(source.url);
+  if (!reputation) return source;
+  if (reputation.status === 'unknown') {
+    return { ...source, credibilityScore: null, reputation };
+  }
+
+  const credibilityScore = FIXED_SCORE_CATEGORIES.includes(reputation.category)
+    ? reputation.baseScore
+    : Math.min(
+        Math.min(10, reputation.baseScore + SCORE_TOLERANCE),
+        Math.max(Math.max(1, reputation.baseScore - SCORE_TOLERANCE), source.credibilityScore ?? reputation.baseScore)
+      );
+
+  return { ...source, credibilityScore, reputation };
+}
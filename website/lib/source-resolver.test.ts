@@ -0,0 +1,144 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { canonicalizeUrl, createSourceResolver, extractHtmlTitle, SourceResolver } from './source-resolver';
+
+let server: Server;
+let port: number;
+let redirectBase: string; // Stands in for the grounding redirect host
+let publisherBase: string; // Stands in for the publisher, on the same server under another host name
+let hits: string[] = [];
+
+const ARTICLE = `<html><head>
+  <meta property="og:title" content="Storm closes &quot;Main Street&quot; bridge">
+  <title>Storm closes bridge | The Local News</title>
+  <meta property="article:published_time" content="2024-03-01T08:00:00Z">
+</head><body>Story</body></html>`;
+
+/**
+ * Routes of the local stand-in: redirect links under /r/, the article under /news/,
+ * a page without og:title and a page that never answers.
+ */
+function handle(req: IncomingMessage, res: ServerResponse) {
+  const path = req.url || '';
+  hits.push(path);
+  if (path === '/r/story') {
+    res.writeHead(302, { Location: `${publisherBase}/news/story?utm_source=gemini&id=7&fbclid=abc#top` }).end();
+  } else if (path === '/r/story-again') {
+    res.writeHead(301, { Location: `${publisherBase}/news/story/?gclid=xyz&id=7` }).end();
+  } else if (path === '/r/hop') {
+    res.writeHead(307, { Location: '/r/story' }).end();
+  } else if (path.startsWith('/news/story')) {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(ARTICLE);
+  } else if (path === '/plain') {
+    res.writeHead(200, { 'Content-Type': 'text/html' }).end('<html><head><title>\n  Council &amp; mayor agree budget  </title></head></html>');
+  } else if (path === '/slow') {
+    // Never answers; the resolver must give up on its own
+  } else {
+    res.writeHead(404).end();
+  }
+}
+
+beforeAll(async () => {
+  server = createServer(handle);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  port = (server.address() as AddressInfo).port;
+  redirectBase = `http://127.0.0.1:${port}`;
+  publisherBase = `http://localhost:${port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  hits = [];
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+/**
+ * Creates a resolver that treats the local server's 127.0.0.1 host as the redirect host.
+ *
+ * @param {number} timeoutMs - Time budget per link
+ * @returns {SourceResolver} The resolver
+ */
+function localResolver(timeoutMs = 2000): SourceResolver {
+  return createSourceResolver({ timeoutMs, redirectHosts: [`127.0.0.1:${port}`], allowPrivateHosts: true });
+}
+
+describe('canonicalizeUrl', () => {
+  it('strips tracking parameters and the fragment and sorts the rest', () => {
+    expect(canonicalizeUrl('https://Example.com:443/a//b/?utm_source=x&b=2&fbclid=1&a=1&UTM_Medium=y#section'))
+      .toBe('https://example.com/a/b?a=1&b=2');
+  });
+
+  it('keeps parameters that change the page', () => {
+    expect(canonicalizeUrl('https://example.com/watch?v=abc&ref_src=twsrc')).toBe('https://example.com/watch?v=abc');
+  });
+});
+
+describe('extractHtmlTitle', () => {
+  it('prefers og:title and decodes entities', () => {
+    expect(extractHtmlTitle(ARTICLE)).toBe('Storm closes "Main Street" bridge');
+  });
+
+  it('falls back to the collapsed <title>', () => {
+    expect(extractHtmlTitle('<title>\n A &amp; B </title>')).toBe('A & B');
+    expect(extractHtmlTitle('<p>No title</p>')).toBeNull();
+  });
+});
+
+describe('createSourceResolver', () => {
+  it('follows redirects to the canonical publisher URL and reads its metadata', async () => {
+    const [source] = await localResolver().resolve([{ url: `${redirectBase}/r/hop`, title: 'localnews.example' }]);
+
+    expect(hits).toEqual(['/r/hop', '/r/story', '/news/story?utm_source=gemini&id=7&fbclid=abc']);
+    expect(source).toEqual({
+      url: `${publisherBase}/news/story?id=7`,
+      title: 'Storm closes "Main Street" bridge',
+      publishedAt: '2024-03-01T08:00:00.000Z'
+    });
+  });
+
+  it('reads the <title> of direct links whose title is a bare domain', async () => {
+    const [source] = await localResolver().resolve([{ url: `${publisherBase}/plain`, title: 'localhost.example' }]);
+    expect(source.title).toBe('Council & mayor agree budget');
+  });
+
+  it('does not fetch direct links that already have a title', async () => {
+    const [source] = await localResolver().resolve([{ url: `${publisherBase}/plain?utm_campaign=x`, title: 'Budget deal' }]);
+    expect(hits).toEqual([]);
+    expect(source).toEqual({ url: `${publisherBase}/plain`, title: 'Budget deal' });
+  });
+
+  it('keeps the link as it was when the destination does not answer in time', async () => {
+    const started = Date.now();
+    const [source] = await localResolver(200).resolve([{ url: `${redirectBase}/slow?utm_source=x`, title: 'slow.example' }]);
+
+    expect(Date.now() - started).toBeLessThan(1500);
+    expect(source).toEqual({ url: `${redirectBase}/slow`, title: 'slow.example', publishedAt: null });
+  });
+
+  it('drops sources that land on the same canonical URL', async () => {
+    const sources = await localResolver().resolve([
+      { url: `${redirectBase}/r/story`, title: 'localnews.example' },
+      { url: `${redirectBase}/r/story-again`, title: 'localnews.example' },
+      { url: `${publisherBase}/news/story?id=7&utm_medium=social`, title: 'Storm closes bridge' },
+      { url: `${publisherBase}/plain`, title: 'Budget deal' }
+    ]);
+
+    expect(sources.map((source) => source.url)).toEqual([`${publisherBase}/news/story?id=7`, `${publisherBase}/plain`]);
+    expect(sources[0].title).toBe('Storm closes "Main Street" bridge');
+  });
+
+  it('caches resolutions per link', async () => {
+    const resolver = localResolver();
+    await resolver.resolve([{ url: `${redirectBase}/r/story`, title: null }]);
+    const first = hits.length;
+    const [source] = await resolver.resolve([{ url: `${redirectBase}/r/story`, title: null }]);
+
+    expect(hits).toHaveLength(first);
+    expect(source.url).toBe(`${publisherBase}/news/story?id=7`);
+  });
+});
@@ -0,0 +1,297 @@
+import { safeFetch } from './safe-fetch';
+
+/**
+ * A source as returned by grounding, before or after resolution.
+ */
+export interface ResolvableSource {
+  url: string;
+  title: string | null;
+  publishedAt?: string | null; // ISO timestamp from the page's metadata, when found
+}
+
+export interface SourceResolverOptions {
+  timeoutMs?: number;
+  maxRedirects?: number;
+  redirectHosts?: string[]; // Hosts (host or host:port) whose links are redirects to follow
+  allowPrivateHosts?: boolean; // Allow localhost and private IPs, e.g. for a local HTTP stand-in
+  cacheTtlMs?: number;
+  maxCacheEntries?: number;
+}
+
+export interface SourceResolver {
+  resolve(sources: ResolvableSource[]): Promise<ResolvableSource[]>;
+}
+
+/**
+ * Result of resolving one URL.
+ */
+interface Resolution {
+  url: string;
+  title: string | null;
+  publishedAt: string | null;
+}
+
+const DEFAULT_REDIRECT_HOSTS = ['vertexaisearch.cloud.google.com'];
+const MAX_METADATA_BYTES = 64 * 1024;
+const FAILED_RESOLUTION_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Query parameters that only track the click and never change the page.
+ */
+const TRACKING_PARAMS = [
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'igshid',
+  'mc_cid', 'mc_eid', '_ga', '_gl', 'ref_src', 'ref_url', 'cmpid', 'ncid', 'ocid', 'spm', 'smid'
+];
+
+/**
+ * Checks whether a query parameter is a tracking parameter.
+ *
+ * @param {string} name - The parameter name
+ * @returns {boolean} True if the parameter should be stripped
+ */
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith('utm_') || TRACKING_PARAMS.includes(lower);
+}
+
+/**
+ * Canonicalizes a URL: lowercase host, default port and fragment removed, tracking
+ * parameters stripped, remaining parameters sorted, duplicate and trailing slashes removed.
+ *
+ * @param {string} url - The URL to canonicalize
+ * @returns {string} The canonical URL, or the input unchanged if it cannot be parsed
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  parsed.hash = '';
+  parsed.hostname = parsed.hostname.toLowerCase().replace(/\.$/, '');
+  if ((parsed.protocol === 'https:' && parsed.port === '443') || (parsed.protocol === 'http:' && parsed.port === '80')) {
+    parsed.port = '';
+  }
+
+  const params: [string, string][] = [];
+  parsed.searchParams.forEach((value, name) => {
+    if (!isTrackingParam(name)) params.push([name, value]);
+  });
+  params.sort((a, b) => (a[0] === b[0] ? a[1].localeCompare(b[1]) : a[0].localeCompare(b[0])));
+  parsed.search = params.length > 0
+    ? `?${params.map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`).join('&')}`
+    : '';
+
+  parsed.pathname = parsed.pathname.replace(/\/{2,}/g, '/');
+  if (parsed.pathname.length > 1) {
+    parsed.pathname = parsed.pathname.replace(/\/$/, '');
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Builds the key used to detect duplicate sources: the canonical URL without scheme or "www.".
+ *
+ * @param {string} url - The URL
+ * @returns {string} Duplicate-detection key
+ */
+export function sourceDedupeKey(url: string): string {
+  return canonicalizeUrl(url).replace(/^https?:\/\//, '').replace(/^www\./, '');
+}
+
+/**
+ * Decodes the HTML entities commonly found in page titles and text.
+ *
+ * @param {string} value - Raw text
+ * @returns {string} Decoded, whitespace-collapsed text
+ */
+export function decodeHtmlText(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lsquo;/g, '\u2018')
+    .replace(/&rsquo;/g, '\u2019')
+    .replace(/&ldquo;/g, '\u201C')
+    .replace(/&rdquo;/g, '\u201D')
+    .replace(/&ndash;/g, '\u2013')
+    .replace(/&mdash;/g, '\u2014')
+    .replace(/&hellip;/g, '\u2026')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Extracts the page title from HTML, preferring `og:title` over `<title>`.
+ *
+ * @param {string} html - The start of the HTML document
+ * @returns {string | null} The title, or null if none was found
+ */
+export function extractHtmlTitle(html: string): string | null {
+  const og = html.match(/<meta[^>]+property=["']og:title["'][^>]*content=["']([^"']+)["']/i) ||
+    html.match(/<meta[^>]+content=["']([^"']+)["'][^>]*property=["']og:title["']/i);
+  const title = og ? og[1] : html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const decoded = title ? decodeHtmlText(title) : '';
+  return decoded.length > 0 ? decoded.slice(0, 300) : null;
+}
+
+/**
+ * Extracts the article's publication time from common metadata: `article:published_time`,
+ * other publish-date meta tags, schema.org `datePublished`, or the first `<time datetime>`.
+ *
+ * @param {string} html - The start of the HTML document
+ * @returns {string | null} ISO timestamp, or null if none was found
+ */
+export function extractHtmlPublishedAt(html: string): string | null {
+  const patterns = [
+    /<meta[^>]+(?:property|name|itemprop)=["'](?:article:published_time|og:published_time|datePublished|pubdate|publish-date|parsely-pub-date|date)["'][^>]*content=["']([^"']+)["']/i,
+    /<meta[^>]+content=["']([^"']+)["'][^>]*(?:property|name|itemprop)=["'](?:article:published_time|og:published_time|datePublished|pubdate|publish-date|parsely-pub-date|date)["']/i,
+    /"datePublished"\s*:\s*"([^"]+)"/,
+    /<time[^>]+datetime=["']([^"']+)["']/i
+  ];
+  for (const pattern of patterns) {
+    const match = html.match(pattern);
+    const date = match ? new Date(match[1]) : null;
+    if (date && !isNaN(date.getTime())) return date.toISOString();
+  }
+  return null;
+}
+
+/**
+ * Checks whether a grounding title is just the publisher's domain (as Gemini returns it)
+ * rather than a real page title.
+ *
+ * @param {string | null} title - The title to check
+ * @returns {boolean} True if the title is missing or looks like a bare domain
+ */
+function isPlaceholderTitle(title: string | null): boolean {
+  return !title || /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(title.trim());
+}
+
+/**
+ * Creates a resolver that turns grounding links into canonical publisher URLs.
+ * Links on a redirect host are followed hop by hop (each hop checked against private
+ * networks) and the destination page's title is read; results are cached per instance.
+ * Links that fail to resolve are kept as they were.
+ *
+ * @param {SourceResolverOptions} options - Timeouts, redirect hosts and cache settings
+ * @returns {SourceResolver} The resolver
+ */
+export function createSourceResolver(options: SourceResolverOptions = {}): SourceResolver {
+  const timeoutMs = options.timeoutMs ?? 3000;
+  const maxRedirects = options.maxRedirects ?? 5;
+  const redirectHosts = (options.redirectHosts ?? DEFAULT_REDIRECT_HOSTS).map((h) => h.toLowerCase());
+  const cacheTtlMs = options.cacheTtlMs ?? 24 * 60 * 60 * 1000;
+  const maxCacheEntries = options.maxCacheEntries ?? 1000;
+  const cache = new Map<string, { resolution: Resolution; expiresAt: number }>();
+
+  function isRedirectLink(url: URL): boolean {
+    return redirectHosts.includes(url.host.toLowerCase()) || redirectHosts.includes(url.hostname.toLowerCase());
+  }
+
+  function remember(key: string, resolution: Resolution, ttlMs: number) {
+    if (cache.size >= maxCacheEntries) {
+      // Map iterates in insertion order, so the first key is the oldest entry
+      const oldest = cache.keys().next().value;
+      if (oldest !== undefined) cache.delete(oldest);
+    }
+    cache.set(key, { resolution, expiresAt: Date.now() + ttlMs });
+  }
+
+  /**
+   * Follows redirects from `url` and reads the destination's title and publication time.
+   */
+  async function follow(url: string): Promise<Resolution> {
+    const page = await safeFetch(url, {
+      timeoutMs,
+      maxRedirects,
+      maxBytes: MAX_METADATA_BYTES,
+      readTypes: ['html'],
+      allowPrivateHosts: options.allowPrivateHosts
+    });
+    return { url: canonicalizeUrl(page.url), title: extractHtmlTitle(page.body), publishedAt: extractHtmlPublishedAt(page.body) };
+  }
+
+  async function resolveOne(source: ResolvableSource): Promise<ResolvableSource> {
+    let parsed: URL;
+    try {
+      parsed = new URL(source.url);
+    } catch {
+      return source;
+    }
+
+    // Direct links with a real title need no network round trip
+    if (!isRedirectLink(parsed) && !isPlaceholderTitle(source.title)) {
+      return { ...source, url: canonicalizeUrl(source.url) };
+    }
+
+    const cached = cache.get(source.url);
+    let resolution: Resolution;
+    if (cached && cached.expiresAt > Date.now()) {
+      resolution = cached.resolution;
+    } else {
+      try {
+        resolution = await follow(source.url);
+        remember(source.url, resolution, cacheTtlMs);
+      } catch (error: any) {
+        console.warn('Source resolution failed:', source.url, error?.message || error);
+        resolution = { url: canonicalizeUrl(source.url), title: null, publishedAt: null };
+        remember(source.url, resolution, FAILED_RESOLUTION_TTL_MS);
+      }
+    }
+
+    return {
+      url: resolution.url,
+      title: resolution.title || source.title,
+      publishedAt: resolution.publishedAt || source.publishedAt || null
+    };
+  }
+
+  return {
+    async resolve(sources: ResolvableSource[]) {
+      const resolved = await Promise.all(sources.map(resolveOne));
+
+      // Different redirect links often land on the same article
+      const seen = new Set<string>();
+      return resolved.filter((source) => {
+        const key = sourceDedupeKey(source.url);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+  };
+}
+
+let cachedResolver: SourceResolver | null = null;
+
+/**
+ * Returns the resolver configured from the environment: SOURCE_RESOLVER_TIMEOUT_MS
+ * (default 3000), SOURCE_RESOLVER_REDIRECT_HOSTS (comma-separated, default the Gemini
+ * grounding redirect host) and SOURCE_RESOLVER_ALLOW_PRIVATE_HOSTS. Created once per server instance.
+ *
+ * @returns {SourceResolver} The configured resolver
+ */
+export function getSourceResolver(): SourceResolver {
+  if (!cachedResolver) {
+    const timeoutMs = parseInt(process.env.SOURCE_RESOLVER_TIMEOUT_MS || '3000', 10);
+    const redirectHosts = process.env.SOURCE_RESOLVER_REDIRECT_HOSTS
+      ?.split(',')
+      .map((h) => h.trim())
+      .filter((h) => h.length > 0);
+    cachedResolver = createSourceResolver({
+      timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : 3000,
+      redirectHosts: redirectHosts && redirectHosts.length > 0 ? redirectHosts : undefined,
+      allowPrivateHosts: process.env.SOURCE_RESOLVER_ALLOW_PRIVATE_HOSTS === 'true'
+    });
+  }
+  return cachedResolver;
+}
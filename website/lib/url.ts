@@ -0,0 +1,35 @@
+/**
+ * Validates if a string is a valid HTTP or HTTPS URL.
+ * Checks for proper protocol, valid URL format, and absence of invalid characters.
+ * 
+ * @param {string} url - The URL string to validate
+ * @returns {boolean} True if the URL is valid, false otherwise
+ */
+export function isValidUrl(url: string): boolean {
+  try {
+    // Check if url is a string and not empty
+    if (!url || typeof url !== 'string' || url.trim().length === 0) {
+      return false;
+    }
+    
+    const urlObj = new URL(url);
+    const isValidProtocol = urlObj.protocol === 'http:' || urlObj.protocol === 'https:';
+    
+    // Additional validation for common issues
+    if (!isValidProtocol) {
+      console.warn('Invalid URL protocol:', url);
+      return false;
+    }
+    
+    // Check for malformed URLs that might cause issues
+    if (url.includes(' ') || url.includes('\n') || url.includes('\t')) {
+      console.warn('URL contains invalid characters:', url);
+      return false;
+    }
+    
+    return true;
+  } catch (error) {
+    console.warn('URL validation failed:', url, error);
+    return false;
+  }
+}
@@ -0,0 +1,155 @@
+import { createHmac } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeFirestore } from '@/test/fake-firestore';
+
+vi.mock('./firebaseAdmin', async () => {
+  const { FakeFirestore } = await import('@/test/fake-firestore');
+  return { db: new FakeFirestore(), adminAuth: {} };
+});
+
+import { db } from './firebaseAdmin';
+import { createWebhook, emitWebhookEvent, listWebhookDeliveries, runWebhookWorker } from './webhooks';
+
+const UID = 'user123';
+
+interface ReceivedRequest {
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+let server: Server;
+let baseUrl: string;
+let received: ReceivedRequest[] = [];
+let respond: (req: IncomingMessage, res: ServerResponse) => void;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      received.push({ path: req.url || '', headers: req.headers, body });
+      respond(req, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  (db as unknown as FakeFirestore).clear();
+  received = [];
+  respond = (req, res) => res.writeHead(204).end();
+  process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS = 'true';
+  process.env.JOB_INLINE_WORKER = 'false';
+  process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+  process.env.WEBHOOK_RETRY_BASE_MS = '100';
+  process.env.WEBHOOK_TIMEOUT_MS = '2000';
+});
+
+/**
+ * Registers an endpoint on the local receiver and queues one `check.completed` event.
+ *
+ * @returns {Promise<{ secret: string, webhookId: string }>} The endpoint's secret and ID
+ */
+async function emitToReceiver(): Promise<{ secret: string; webhookId: string }> {
+  const { secret, webhook } = await createWebhook(UID, `${baseUrl}/hook`, ['check.completed'], 'local');
+  expect(await emitWebhookEvent(UID, 'check.completed', 'job_1', { source: 'job', job: { id: '1' } })).toBe(1);
+  return { secret, webhookId: webhook.id };
+}
+
+/**
+ * Runs the delivery worker once with a single loop.
+ *
+ * @returns {Promise<number>} Number of delivery attempts made
+ */
+async function runWorker(): Promise<number> {
+  return (await runWebhookWorker({ budgetMs: 5000, concurrency: 1 })).delivered;
+}
+
+describe('webhook deliveries', () => {
+  it('signs the body and timestamp with the endpoint secret', async () => {
+    const { secret, webhookId } = await emitToReceiver();
+    expect(await runWorker()).toBe(1);
+
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    const timestamp = request.headers['x-webhook-timestamp'] as string;
+    const expected = 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${request.body}`).digest('hex');
+    expect(request.headers['x-webhook-signature']).toBe(expected);
+    expect(request.headers['x-webhook-id']).toBe('job_1');
+    expect(request.headers['x-webhook-event']).toBe('check.completed');
+    expect(JSON.parse(request.body)).toMatchObject({ id: 'job_1', type: 'check.completed', data: { job: { id: '1' } } });
+
+    const [delivery] = (await listWebhookDeliveries(UID, webhookId))!;
+    expect(delivery.status).toBe('succeeded');
+  });
+
+  it('retries a 500 after the backoff delay', async () => {
+    let calls = 0;
+    respond = (req, res) => res.writeHead(++calls === 1 ? 500 : 200).end();
+    const { webhookId } = await emitToReceiver();
+
+    expect(await runWorker()).toBe(1);
+    let [delivery] = (await listWebhookDeliveries(UID, webhookId))!;
+    expect(delivery.status).toBe('pending');
+    expect(delivery.attempts).toHaveLength(1);
+    expect(delivery.attempts[0]).toMatchObject({ statusCode: 500, error: 'Endpoint responded with 500' });
+    const delay = new Date(delivery.nextAttemptAt!).getTime() - new Date(delivery.attempts[0].at).getTime();
+    expect(delay).toBeGreaterThanOrEqual(100);
+    expect(delay).toBeLessThan(1000);
+
+    // Not due before the backoff has passed
+    expect(await runWorker()).toBe(0);
+    await sleep(new Date(delivery.nextAttemptAt!).getTime() - Date.now() + 20);
+
+    expect(await runWorker()).toBe(1);
+    [delivery] = (await listWebhookDeliveries(UID, webhookId))!;
+    expect(delivery.status).toBe('succeeded');
+    expect(delivery.attempts.map((attempt) => attempt.statusCode)).toEqual([500, 200]);
+    expect(received).toHaveLength(2);
+    expect(received[1].body).toBe(received[0].body);
+  });
+
+  it('does not follow redirects', async () => {
+    respond = (req, res) => {
+      if (req.url === '/hook') res.writeHead(302, { Location: '/elsewhere' }).end();
+      else res.writeHead(200).end();
+    };
+    const { webhookId } = await emitToReceiver();
+
+    expect(await runWorker()).toBe(1);
+    expect(received.map((request) => request.path)).toEqual(['/hook']);
+    const [delivery] = (await listWebhookDeliveries(UID, webhookId))!;
+    expect(delivery.status).toBe('pending');
+    expect(delivery.attempts[0]).toMatchObject({ statusCode: null, error: 'Endpoint redirected' });
+  });
+
+  it('logs every attempt and fails once attempts run out', async () => {
+    respond = (req, res) => res.writeHead(503).end();
+    const { webhookId } = await emitToReceiver();
+
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      expect(await runWorker()).toBe(1);
+      const [delivery] = (await listWebhookDeliveries(UID, webhookId))!;
+      expect(delivery.attempts).toHaveLength(attempt);
+      if (delivery.nextAttemptAt) await sleep(new Date(delivery.nextAttemptAt).getTime() - Date.now() + 20);
+    }
+
+    const [delivery] = (await listWebhookDeliveries(UID, webhookId))!;
+    expect(delivery.status).toBe('failed');
+    expect(delivery.completedAt).not.toBeNull();
+    expect(delivery.attempts.map((attempt) => attempt.statusCode)).toEqual([503, 503, 503]);
+    expect(delivery.attempts.every((attempt) => attempt.durationMs >= 0 && !!attempt.at)).toBe(true);
+    expect(received).toHaveLength(3);
+    expect(await runWorker()).toBe(0);
+  });
+});
@@ -0,0 +1,616 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { db } from './firebaseAdmin';
+import { isValidUrl } from './url';
+import { assertPublicHost, isPrivateHost, safeFetch } from './safe-fetch';
+
+/**
+ * Events a webhook endpoint can subscribe to. `check.completed` and `check.failed` are sent
+ * when a job or batch finishes; `quota.exhausted` when a metered request uses the last unit
+ * of a daily or monthly limit.
+ */
+export const WEBHOOK_EVENTS = ['check.completed', 'check.failed', 'quota.exhausted'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'succeeded' | 'failed';
+
+/**
+ * A webhook endpoint, stored at users/{uid}/webhooks/{id}. The signing secret is stored
+ * as-is because it is needed to sign every delivery; it is only returned at creation.
+ */
+interface StoredWebhook {
+  url: string;
+  events: WebhookEvent[];
+  description: string;
+  secret: string;
+  createdAt: string; // ISO timestamp
+}
+
+/**
+ * What the owner sees of a webhook endpoint.
+ */
+export interface WebhookView {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  description: string;
+  createdAt: string;
+}
+
+/**
+ * One attempt to deliver an event.
+ */
+export interface WebhookAttempt {
+  at: string; // ISO timestamp
+  statusCode: number | null; // null if no response was received
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * A delivery of one event to one endpoint, stored at webhookDeliveries/{id}. `body` is the
+ * exact JSON that is signed and sent, so every retry carries the same payload.
+ */
+interface StoredDelivery {
+  ownerUid: string;
+  webhookId: string;
+  eventId: string;
+  event: WebhookEvent;
+  body: string;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  maxAttempts: number;
+  runAfter: string; // ISO timestamp
+  leaseId: string | null;
+  leaseExpiresAt: string | null; // ISO timestamp
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  expireAt: Date; // Firestore TTL field
+}
+
+/**
+ * What the owner sees of a delivery in the delivery log.
+ */
+export interface WebhookDeliveryView {
+  id: string;
+  eventId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export type WebhookRequestValidation =
+  | { ok: true; url: string; events: WebhookEvent[]; description: string }
+  | { ok: false; errors: string[] };
+
+interface ClaimedDelivery {
+  id: string;
+  leaseId: string;
+  delivery: StoredDelivery;
+}
+
+export const MAX_WEBHOOKS = 5;
+
+const DELIVERY_COLLECTION = 'webhookDeliveries';
+const SECRET_PREFIX = 'whsec_';
+const MAX_DESCRIPTION_LENGTH = 100;
+const MAX_URL_LENGTH = 2048;
+const MAX_RESPONSE_BYTES = 1024;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const CLAIM_CANDIDATES = 5;
+const DELIVERY_LOG_LIMIT = 50;
+
+/**
+ * Returns how many times a delivery is attempted from WEBHOOK_MAX_ATTEMPTS (default 8).
+ *
+ * @returns {number} Maximum attempts per delivery
+ */
+function webhookMaxAttempts(): number {
+  const n = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10);
+  return Number.isFinite(n) && n > 0 ? n : 8;
+}
+
+/**
+ * Returns the delay before the first retry from WEBHOOK_RETRY_BASE_MS (default 30 seconds).
+ * Each further retry waits twice as long, up to six hours.
+ *
+ * @returns {number} Base retry delay in milliseconds
+ */
+function webhookRetryBaseMs(): number {
+  const n = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '30000', 10);
+  return Number.isFinite(n) && n >= 0 ? n : 30000;
+}
+
+/**
+ * Returns the time budget of one delivery attempt from WEBHOOK_TIMEOUT_MS (default 10 seconds).
+ *
+ * @returns {number} Timeout in milliseconds
+ */
+function webhookTimeoutMs(): number {
+  const n = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10);
+  return Number.isFinite(n) && n > 0 ? n : 10000;
+}
+
+/**
+ * Checks whether endpoints may be on localhost or private networks, over plain http.
+ * Only meant for local testing against a local HTTP receiver.
+ *
+ * @returns {boolean} True if WEBHOOK_ALLOW_PRIVATE_HOSTS is "true"
+ */
+function allowPrivateHosts(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === 'true';
+}
+
+/**
+ * Checks whether deliveries are started in the server process right away. Shares
+ * JOB_INLINE_WORKER with the job queue; when disabled, the scheduled worker endpoint
+ * delivers them.
+ *
+ * @returns {boolean} True if the inline worker is enabled
+ */
+function inlineWorkerEnabled(): boolean {
+  return process.env.JOB_INLINE_WORKER !== 'false';
+}
+
+/**
+ * Returns the user's webhook endpoints collection.
+ *
+ * @param {string} uid - The user's ID
+ * @returns {FirebaseFirestore.CollectionReference} The users/{uid}/webhooks collection
+ */
+function webhooksCollection(uid: string) {
+  return db.collection('users').doc(uid).collection('webhooks');
+}
+
+/**
+ * Returns the deliveries collection.
+ *
+ * @returns {FirebaseFirestore.CollectionReference} The webhookDeliveries collection
+ */
+function deliveriesCollection() {
+  return db.collection(DELIVERY_COLLECTION);
+}
+
+/**
+ * Checks whether a value is a webhook event (exact match).
+ *
+ * @param {unknown} value - The raw value
+ * @returns {boolean} True if the value is a webhook event
+ */
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+/**
+ * Validates a request to register a webhook endpoint: an https URL (http and private
+ * hosts only with WEBHOOK_ALLOW_PRIVATE_HOSTS), at least one known event and an
+ * optional description.
+ *
+ * @param {any} body - The parsed request body
+ * @returns {WebhookRequestValidation} The normalized request, or the list of problems
+ */
+export function readWebhookRequest(body: any): WebhookRequestValidation {
+  const errors: string[] = [];
+  const url = typeof body?.url === 'string' ? body.url.trim() : '';
+  const events = Array.isArray(body?.events) ? Array.from(new Set(body.events)) : [];
+  const description = typeof body?.description === 'string' ? body.description.trim() : '';
+
+  if (!url || url.length > MAX_URL_LENGTH || !isValidUrl(url)) {
+    errors.push('url must be a valid http(s) URL');
+  } else if (!allowPrivateHosts()) {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:') errors.push('url must use https');
+    if (isPrivateHost(parsed.hostname)) errors.push('url must not point to a private network');
+  }
+  if (events.length === 0 || !events.every(isWebhookEvent)) {
+    errors.push(`events must be a non-empty list of ${WEBHOOK_EVENTS.join(', ')}`);
+  }
+  if (body?.description !== undefined && typeof body.description !== 'string') {
+    errors.push('description must be a string');
+  } else if (description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.push(`description must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, url, events: events as WebhookEvent[], description };
+}
+
+/**
+ * Builds the owner's view of a stored endpoint.
+ *
+ * @param {string} id - The endpoint ID
+ * @param {StoredWebhook} webhook - The stored endpoint
+ * @returns {WebhookView} The endpoint without its secret
+ */
+function toWebhookView(id: string, webhook: StoredWebhook): WebhookView {
+  return {
+    id,
+    url: webhook.url,
+    events: webhook.events,
+    description: webhook.description || '',
+    createdAt: webhook.createdAt
+  };
+}
+
+/**
+ * Builds the owner's view of a stored delivery. The payload is not echoed back.
+ *
+ * @param {string} id - The delivery ID
+ * @param {StoredDelivery} delivery - The stored delivery
+ * @returns {WebhookDeliveryView} The delivery view
+ */
+function toDeliveryView(id: string, delivery: StoredDelivery): WebhookDeliveryView {
+  return {
+    id,
+    eventId: delivery.eventId,
+    event: delivery.event,
+    status: delivery.status,
+    attempts: delivery.attempts || [],
+    maxAttempts: delivery.maxAttempts,
+    nextAttemptAt: delivery.status === 'pending' ? delivery.runAfter : null,
+    createdAt: delivery.createdAt,
+    completedAt: delivery.completedAt || null
+  };
+}
+
+/**
+ * Registers a webhook endpoint and generates its signing secret.
+ *
+ * @param {string} uid - The owner's ID
+ * @param {string} url - Validated endpoint URL from `readWebhookRequest`
+ * @param {WebhookEvent[]} events - Events to send to the endpoint
+ * @param {string} description - Free-form label
+ * @returns {Promise<{ secret: string, webhook: WebhookView }>} The secret (shown only here) and the endpoint
+ * @throws {Error} Throws error with message "TOO_MANY_WEBHOOKS" if the user already has the maximum,
+ *   or "PRIVATE_HOST" if the URL resolves to a private network
+ */
+export async function createWebhook(
+  uid: string,
+  url: string,
+  events: WebhookEvent[],
+  description: string
+): Promise<{ secret: string; webhook: WebhookView }> {
+  if (!allowPrivateHosts()) {
+    await assertPublicHost(new URL(url).hostname).catch(() => {
+      throw new Error("PRIVATE_HOST");
+    });
+  }
+
+  const existing = await webhooksCollection(uid).get();
+  if (existing.size >= MAX_WEBHOOKS) throw new Error("TOO_MANY_WEBHOOKS");
+
+  const secret = SECRET_PREFIX + randomBytes(32).toString('base64url');
+  const webhook: StoredWebhook = { url, events, description, secret, createdAt: new Date().toISOString() };
+  const ref = await webhooksCollection(uid).add(webhook);
+  return { secret, webhook: toWebhookView(ref.id, webhook) };
+}
+
+/**
+ * Lists the user's webhook endpoints, oldest first.
+ *
+ * @param {string} uid - The owner's ID
+ * @returns {Promise<WebhookView[]>} The endpoints
+ */
+export async function listWebhooks(uid: string): Promise<WebhookView[]> {
+  const snapshot = await webhooksCollection(uid).orderBy('createdAt').get();
+  return snapshot.docs.map((doc) => toWebhookView(doc.id, doc.data() as StoredWebhook));
+}
+
+/**
+ * Deletes one of the user's webhook endpoints. Pending deliveries to it fail on their
+ * next attempt; its delivery log is kept until it expires.
+ *
+ * @param {string} uid - The owner's ID
+ * @param {string} id - The endpoint ID
+ * @returns {Promise<boolean>} False if the endpoint does not exist
+ */
+export async function deleteWebhook(uid: string, id: string): Promise<boolean> {
+  const ref = webhooksCollection(uid).doc(id);
+  const doc = await ref.get();
+  if (!doc.exists) return false;
+  await ref.delete();
+  return true;
+}
+
+/**
+ * Lists the most recent deliveries to one of the user's endpoints, newest first.
+ * Needs a composite index on (`webhookId` ASC, `createdAt` DESC).
+ *
+ * @param {string} uid - The owner's ID
+ * @param {string} webhookId - The endpoint ID
+ * @returns {Promise<WebhookDeliveryView[] | null>} The deliveries, or null if the endpoint does not exist
+ */
+export async function listWebhookDeliveries(uid: string, webhookId: string): Promise<WebhookDeliveryView[] | null> {
+  const webhook = await webhooksCollection(uid).doc(webhookId).get();
+  if (!webhook.exists) return null;
+
+  const snapshot = await deliveriesCollection()
+    .where('webhookId', '==', webhookId)
+    .orderBy('createdAt', 'desc')
+    .limit(DELIVERY_LOG_LIMIT)
+    .get();
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, delivery: doc.data() as StoredDelivery }))
+    .filter(({ delivery }) => delivery.ownerUid === uid)
+    .map(({ id, delivery }) => toDeliveryView(id, delivery));
+}
+
+/**
+ * Signs a payload the way receivers verify it: hex HMAC-SHA256 of `{timestamp}.{body}`
+ * with the endpoint's secret. Including the timestamp lets receivers reject replays.
+ *
+ * @param {string} secret - The endpoint's signing secret
+ * @param {string} timestamp - Unix time in seconds, as sent in X-Webhook-Timestamp
+ * @param {string} body - The exact request body
+ * @returns {string} The X-Webhook-Signature header value
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Queues an event for every endpoint of the user that subscribes to it. The event ID
+ * makes emitting idempotent: emitting the same ID again does not deliver it twice.
+ *
+ * @param {string} uid - The user's ID
+ * @param {WebhookEvent} event - The event type
+ * @param {string} eventId - Stable ID of this occurrence, sent as X-Webhook-Id
+ * @param {any} data - Event data, sent as `data` in the payload
+ * @returns {Promise<number>} Number of deliveries queued
+ */
+export async function emitWebhookEvent(uid: string, event: WebhookEvent, eventId: string, data: any): Promise<number> {
+  const endpoints = await webhooksCollection(uid).where('events', 'array-contains', event).get();
+  if (endpoints.empty) return 0;
+
+  const now = new Date();
+  const body = JSON.stringify({ id: eventId, type: event, createdAt: now.toISOString(), data });
+  let queued = 0;
+  for (const endpoint of endpoints.docs) {
+    const delivery: StoredDelivery = {
+      ownerUid: uid,
+      webhookId: endpoint.id,
+      eventId,
+      event,
+      body,
+      status: 'pending',
+      attempts: [],
+      maxAttempts: webhookMaxAttempts(),
+      runAfter: now.toISOString(),
+      leaseId: null,
+      leaseExpiresAt: null,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      completedAt: null,
+      expireAt: new Date(now.getTime() + DELIVERY_RETENTION_MS)
+    };
+    const id = createHash('sha256').update(`${uid}:${endpoint.id}:${eventId}`).digest('hex');
+    try {
+      await deliveriesCollection().doc(id).create(delivery);
+      queued++;
+    } catch (error: any) {
+      // ALREADY_EXISTS: this event was emitted to this endpoint before
+      if (error?.code !== 6) throw error;
+    }
+  }
+
+  if (queued > 0 && inlineWorkerEnabled()) kickWebhookWorker();
+  return queued;
+}
+
+/**
+ * Emits an event without letting a failure affect the caller: webhook delivery is a
+ * side channel of the work that triggered it.
+ *
+ * @param {string} uid - The user's ID
+ * @param {WebhookEvent} event - The event type
+ * @param {string} eventId - Stable ID of this occurrence
+ * @param {any} data - Event data
+ * @returns {Promise<void>}
+ */
+export async function notifyWebhooks(uid: string, event: WebhookEvent, eventId: string, data: any): Promise<void> {
+  try {
+    await emitWebhookEvent(uid, event, eventId, data);
+  } catch (error) {
+    console.error(`Failed to queue ${event} webhooks:`, error);
+  }
+}
+
+/**
+ * Returns the delay before the next attempt: exponential backoff with up to 20% jitter.
+ *
+ * @param {number} attempts - Attempts made so far (1 after the first failure)
+ * @returns {number} Delay in milliseconds
+ */
+function retryDelayMs(attempts: number): number {
+  const delay = Math.min(webhookRetryBaseMs() * Math.pow(2, attempts - 1), MAX_RETRY_DELAY_MS);
+  return Math.round(delay * (1 + Math.random() * 0.2));
+}
+
+/**
+ * Tries to claim a delivery for this worker inside a transaction. Deliveries whose lease
+ * ran out are claimed again; the lost attempt is not counted.
+ *
+ * @param {FirebaseFirestore.DocumentReference} ref - The candidate delivery
+ * @param {Date} now - The current time
+ * @returns {Promise<ClaimedDelivery | null>} The claimed delivery, or null if another worker got it first
+ */
+async function tryClaim(ref: FirebaseFirestore.DocumentReference, now: Date): Promise<ClaimedDelivery | null> {
+  const nowIso = now.toISOString();
+  return db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) return null;
+    const delivery = doc.data() as StoredDelivery;
+
+    const due = delivery.status === 'pending' && delivery.runAfter <= nowIso;
+    const abandoned = delivery.status === 'delivering' && !!delivery.leaseExpiresAt && delivery.leaseExpiresAt <= nowIso;
+    if (!due && !abandoned) return null;
+
+    const leaseId = randomBytes(12).toString('hex');
+    const update: Partial<StoredDelivery> = {
+      status: 'delivering',
+      leaseId,
+      leaseExpiresAt: new Date(now.getTime() + DELIVERY_LEASE_MS).toISOString(),
+      updatedAt: nowIso
+    };
+    tx.update(ref, update);
+    return { id: ref.id, leaseId, delivery: { ...delivery, ...update } };
+  });
+}
+
+/**
+ * Claims the next due delivery, oldest first, including deliveries abandoned by a dead worker.
+ * Needs composite indexes on (`status` ASC, `runAfter` ASC) and (`status` ASC, `leaseExpiresAt` ASC).
+ *
+ * @returns {Promise<ClaimedDelivery | null>} The claimed delivery, or null if none is due
+ */
+async function claimNextDelivery(): Promise<ClaimedDelivery | null> {
+  const now = new Date();
+  const nowIso = now.toISOString();
+  const [pending, abandoned] = await Promise.all([
+    deliveriesCollection().where('status', '==', 'pending').where('runAfter', '<=', nowIso)
+      .orderBy('runAfter').limit(CLAIM_CANDIDATES).get(),
+    deliveriesCollection().where('status', '==', 'delivering').where('leaseExpiresAt', '<=', nowIso)
+      .orderBy('leaseExpiresAt').limit(CLAIM_CANDIDATES).get()
+  ]);
+
+  for (const doc of [...abandoned.docs, ...pending.docs]) {
+    const claimed = await tryClaim(doc.ref, now);
+    if (claimed) return claimed;
+  }
+  return null;
+}
+
+/**
+ * Sends one signed delivery. Redirects are not followed, so a 3xx counts as a failure.
+ *
+ * @param {StoredWebhook} webhook - The endpoint
+ * @param {StoredDelivery} delivery - The delivery to send
+ * @returns {Promise<WebhookAttempt & { ok: boolean }>} The attempt, and whether the endpoint answered 2xx
+ */
+async function sendDelivery(webhook: StoredWebhook, delivery: StoredDelivery): Promise<WebhookAttempt & { ok: boolean }> {
+  const started = Date.now();
+  const timestamp = String(Math.floor(started / 1000));
+  try {
+    const response = await safeFetch(webhook.url, {
+      method: 'POST',
+      timeoutMs: webhookTimeoutMs(),
+      maxBytes: MAX_RESPONSE_BYTES,
+      maxRedirects: 0,
+      accept: '*/*',
+      allowPrivateHosts: allowPrivateHosts(),
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'FactChecker-Webhooks/1.0',
+        'X-Webhook-Id': delivery.eventId,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': signWebhookPayload(webhook.secret, timestamp, delivery.body)
+      },
+      body: delivery.body
+    });
+    const ok = response.status >= 200 && response.status < 300;
+    return {
+      ok,
+      at: new Date(started).toISOString(),
+      statusCode: response.status,
+      error: ok ? null : `Endpoint responded with ${response.status}`,
+      durationMs: Date.now() - started
+    };
+  } catch (error: any) {
+    const message = error?.name === 'AbortError' ? 'Timed out'
+      : error?.message === 'TOO_MANY_REDIRECTS' ? 'Endpoint redirected'
+      : error?.message === 'PRIVATE_HOST' ? 'Endpoint resolves to a private network'
+      : 'Could not connect to endpoint';
+    return { ok: false, at: new Date(started).toISOString(), statusCode: null, error: message, durationMs: Date.now() - started };
+  }
+}
+
+/**
+ * Sends a claimed delivery and records the attempt: success, a retry with backoff, or
+ * failure once attempts run out or the endpoint was deleted. Nothing is written if the
+ * lease was lost to another worker in the meantime.
+ *
+ * @param {ClaimedDelivery} claimed - The claimed delivery
+ * @returns {Promise<void>}
+ */
+async function runClaimedDelivery(claimed: ClaimedDelivery): Promise<void> {
+  const { delivery } = claimed;
+  const endpoint = await webhooksCollection(delivery.ownerUid).doc(delivery.webhookId).get();
+  const attempt = endpoint.exists
+    ? await sendDelivery(endpoint.data() as StoredWebhook, delivery)
+    : { ok: false, at: new Date().toISOString(), statusCode: null, error: 'Endpoint was deleted', durationMs: 0 };
+
+  const ref = deliveriesCollection().doc(claimed.id);
+  await db.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    const current = doc.data() as StoredDelivery | undefined;
+    if (!current || current.leaseId !== claimed.leaseId) return;
+
+    const now = new Date();
+    const nowIso = now.toISOString();
+    const { ok, ...logged } = attempt;
+    const attempts = [...(current.attempts || []), logged];
+    const released = { attempts, leaseId: null, leaseExpiresAt: null, updatedAt: nowIso };
+
+    if (ok) {
+      tx.update(ref, { ...released, status: 'succeeded', completedAt: nowIso });
+    } else if (endpoint.exists && attempts.length < current.maxAttempts) {
+      tx.update(ref, {
+        ...released,
+        status: 'pending',
+        runAfter: new Date(now.getTime() + retryDelayMs(attempts.length)).toISOString()
+      });
+    } else {
+      tx.update(ref, { ...released, status: 'failed', completedAt: nowIso });
+    }
+  });
+}
+
+/**
+ * Claims and sends due deliveries until none are left or the time budget is spent.
+ * Used by the scheduled worker endpoint and the inline worker.
+ *
+ * @param {{ budgetMs?: number, concurrency?: number }} options - Time budget (default 50 seconds) and number of parallel loops (default 2)
+ * @returns {Promise<{ delivered: number }>} Number of delivery attempts made
+ */
+export async function runWebhookWorker(options: { budgetMs?: number; concurrency?: number } = {}): Promise<{ delivered: number }> {
+  const deadline = Date.now() + (options.budgetMs ?? 50000);
+  let delivered = 0;
+
+  async function loop() {
+    while (Date.now() < deadline) {
+      const claimed = await claimNextDelivery();
+      if (!claimed) return;
+      await runClaimedDelivery(claimed);
+      delivered++;
+    }
+  }
+
+  const loops = [];
+  for (let i = 0; i < Math.max(1, options.concurrency ?? 2); i++) {
+    loops.push(loop());
+  }
+  await Promise.all(loops);
+  return { delivered };
+}
+
+let inlineWorker: Promise<unknown> | null = null;
+
+/**
+ * Starts the inline delivery worker unless it is already running in this process.
+ * Retries scheduled after it stops are left for the next event or the scheduled worker endpoint.
+ */
+function kickWebhookWorker(): void {
+  if (inlineWorker) return;
+  inlineWorker = runWebhookWorker()
+    .catch((error) => console.error('Inline webhook worker failed:', error))
+    .then(() => { inlineWorker = null; });
+}
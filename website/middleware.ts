@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyCors, preflightResponse } from '@/lib/cors';
+
+/**
+ * Applies the CORS policy in `lib/cors.ts` to every API route: preflights are answered
+ * here, and other requests continue to their route with the CORS headers added.
+ *
+ * @param {NextRequest} request - The incoming request object
+ * @returns {NextResponse} The preflight response, or the request passed on to the route
+ */
+export function middleware(request: NextRequest) {
+  if (request.method === 'OPTIONS') {
+    return preflightResponse(request);
+  }
+  return applyCors(request, NextResponse.next());
+}
+
+export const config = {
+  matcher: '/api/:path*'
+};
@@ -0,0 +1,358 @@
+/**
+ * In-memory stand-in for the parts of the Firestore Admin API the server code uses:
+ * documents and subcollections, `where` / `orderBy` / `limit` queries, write batches and
+ * transactions. Transactions run one at a time, so they are serializable like the real
+ * ones. Only for tests; mock `lib/firebaseAdmin` with `{ db: new FakeFirestore() }`.
+ */
+
+type Data = Record<string, any>;
+type Operator = '==' | '<' | '<=' | '>' | '>=' | 'array-contains';
+
+interface Filter {
+  field: string;
+  op: Operator;
+  value: any;
+}
+
+/**
+ * Error with a gRPC status code, like the ones the Admin SDK throws.
+ */
+class FirestoreError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Reads a possibly dotted field path from a document.
+ *
+ * @param {Data} data - The document data
+ * @param {string} field - Field path, e.g. `meters.factCheck`
+ * @returns {any} The value, or undefined
+ */
+function readField(data: Data, field: string): any {
+  return field.split('.').reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), data as any);
+}
+
+/**
+ * Merges `patch` into `target` recursively, the way `set(..., { merge: true })` does.
+ *
+ * @param {Data} target - The existing data, modified in place
+ * @param {Data} patch - The fields to write
+ * @returns {Data} The target
+ */
+function deepMerge(target: Data, patch: Data): Data {
+  for (const [key, value] of Object.entries(patch)) {
+    const isObject = value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+    if (isObject && target[key] && typeof target[key] === 'object' && !Array.isArray(target[key])) {
+      deepMerge(target[key], value);
+    } else {
+      target[key] = isObject ? deepMerge({}, value) : value;
+    }
+  }
+  return target;
+}
+
+/**
+ * Applies an `update` with possibly dotted field paths.
+ *
+ * @param {Data} target - The existing data, modified in place
+ * @param {Data} patch - The fields to write
+ * @returns {Data} The target
+ */
+function applyUpdate(target: Data, patch: Data): Data {
+  for (const [field, value] of Object.entries(patch)) {
+    const keys = field.split('.');
+    let node = target;
+    for (const key of keys.slice(0, -1)) {
+      if (!node[key] || typeof node[key] !== 'object') node[key] = {};
+      node = node[key];
+    }
+    node[keys[keys.length - 1]] = value;
+  }
+  return target;
+}
+
+/**
+ * Compares two field values for ordering and range filters.
+ *
+ * @param {any} a - First value
+ * @param {any} b - Second value
+ * @returns {number} Negative, zero or positive
+ */
+function compare(a: any, b: any): number {
+  const x = a instanceof Date ? a.getTime() : a;
+  const y = b instanceof Date ? b.getTime() : b;
+  if (x === y) return 0;
+  if (x === undefined || x === null) return -1;
+  if (y === undefined || y === null) return 1;
+  return x < y ? -1 : 1;
+}
+
+/**
+ * Checks a document against one query filter.
+ *
+ * @param {Data} data - The document data
+ * @param {Filter} filter - The filter
+ * @returns {boolean} True if the document matches
+ */
+function matches(data: Data, filter: Filter): boolean {
+  const value = readField(data, filter.field);
+  switch (filter.op) {
+    case '==': return value !== undefined && compare(value, filter.value) === 0;
+    case '<': return value !== undefined && compare(value, filter.value) < 0;
+    case '<=': return value !== undefined && compare(value, filter.value) <= 0;
+    case '>': return value !== undefined && compare(value, filter.value) > 0;
+    case '>=': return value !== undefined && compare(value, filter.value) >= 0;
+    case 'array-contains': return Array.isArray(value) && value.includes(filter.value);
+  }
+}
+
+export class FakeDocumentSnapshot {
+  constructor(public ref: FakeDocumentReference, private stored: Data | undefined) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(): Data | undefined {
+    return this.stored === undefined ? undefined : structuredClone(this.stored);
+  }
+
+  get(field: string): any {
+    return this.stored === undefined ? undefined : structuredClone(readField(this.stored, field));
+  }
+}
+
+export class FakeQuerySnapshot {
+  constructor(public docs: FakeDocumentSnapshot[]) {}
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+
+  forEach(callback: (doc: FakeDocumentSnapshot) => void): void {
+    this.docs.forEach(callback);
+  }
+}
+
+export class FakeQuery {
+  constructor(
+    protected store: FakeFirestore,
+    public path: string,
+    private filters: Filter[] = [],
+    private order: { field: string; direction: 'asc' | 'desc' }[] = [],
+    private max: number | null = null
+  ) {}
+
+  where(field: string, op: Operator, value: any): FakeQuery {
+    return new FakeQuery(this.store, this.path, [...this.filters, { field, op, value }], this.order, this.max);
+  }
+
+  orderBy(field: string, direction: 'asc' | 'desc' = 'asc'): FakeQuery {
+    return new FakeQuery(this.store, this.path, this.filters, [...this.order, { field, direction }], this.max);
+  }
+
+  limit(max: number): FakeQuery {
+    return new FakeQuery(this.store, this.path, this.filters, this.order, max);
+  }
+
+  async get(): Promise<FakeQuerySnapshot> {
+    return this.run();
+  }
+
+  /**
+   * Runs the query against the current data.
+   *
+   * @returns {FakeQuerySnapshot} The matching documents
+   */
+  run(): FakeQuerySnapshot {
+    let found = this.store.childrenOf(this.path)
+      .filter(({ data }) => this.filters.every((filter) => matches(data, filter)))
+      // Like Firestore, ordering by a field leaves out documents without it
+      .filter(({ data }) => this.order.every(({ field }) => readField(data, field) !== undefined));
+
+    found.sort((a, b) => {
+      for (const { field, direction } of this.order) {
+        const result = compare(readField(a.data, field), readField(b.data, field));
+        if (result !== 0) return direction === 'desc' ? -result : result;
+      }
+      return a.id.localeCompare(b.id);
+    });
+    if (this.max !== null) found = found.slice(0, this.max);
+    return new FakeQuerySnapshot(found.map(({ id, data }) =>
+      new FakeDocumentSnapshot(new FakeDocumentReference(this.store, `${this.path}/${id}`), data)));
+  }
+}
+
+export class FakeCollectionReference extends FakeQuery {
+  get id(): string {
+    return this.path.split('/').pop()!;
+  }
+
+  doc(id?: string): FakeDocumentReference {
+    return new FakeDocumentReference(this.store, `${this.path}/${id ?? this.store.autoId()}`);
+  }
+
+  async add(data: Data): Promise<FakeDocumentReference> {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+}
+
+export class FakeDocumentReference {
+  constructor(private store: FakeFirestore, public path: string) {}
+
+  get id(): string {
+    return this.path.split('/').pop()!;
+  }
+
+  collection(name: string): FakeCollectionReference {
+    return new FakeCollectionReference(this.store, `${this.path}/${name}`);
+  }
+
+  async get(): Promise<FakeDocumentSnapshot> {
+    return this.store.snapshot(this);
+  }
+
+  async set(data: Data, options?: { merge?: boolean }): Promise<void> {
+    this.store.write(this, 'set', data, options);
+  }
+
+  async update(data: Data): Promise<void> {
+    this.store.write(this, 'update', data);
+  }
+
+  async create(data: Data): Promise<void> {
+    this.store.write(this, 'create', data);
+  }
+
+  async delete(): Promise<void> {
+    this.store.write(this, 'delete');
+  }
+}
+
+type Write = () => void;
+
+export class FakeTransaction {
+  writes: Write[] = [];
+
+  constructor(private store: FakeFirestore) {}
+
+  async get(target: FakeDocumentReference | FakeQuery): Promise<any> {
+    if (this.writes.length > 0) throw new Error('Firestore transactions require all reads to be executed before all writes');
+    return target instanceof FakeDocumentReference ? this.store.snapshot(target) : target.run();
+  }
+
+  set(ref: FakeDocumentReference, data: Data, options?: { merge?: boolean }): this {
+    this.writes.push(() => this.store.write(ref, 'set', data, options));
+    return this;
+  }
+
+  update(ref: FakeDocumentReference, data: Data): this {
+    this.writes.push(() => this.store.write(ref, 'update', data));
+    return this;
+  }
+
+  create(ref: FakeDocumentReference, data: Data): this {
+    this.writes.push(() => this.store.write(ref, 'create', data));
+    return this;
+  }
+
+  delete(ref: FakeDocumentReference): this {
+    this.writes.push(() => this.store.write(ref, 'delete'));
+    return this;
+  }
+}
+
+export class FakeWriteBatch extends FakeTransaction {
+  async commit(): Promise<void> {
+    this.writes.forEach((write) => write());
+    this.writes = [];
+  }
+}
+
+export class FakeFirestore {
+  private documents = new Map<string, Data>();
+  private nextId = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  collection(path: string): FakeCollectionReference {
+    return new FakeCollectionReference(this, path);
+  }
+
+  batch(): FakeWriteBatch {
+    return new FakeWriteBatch(this);
+  }
+
+  /**
+   * Runs a transaction after any running one finishes. Writes are applied only if the
+   * callback resolves.
+   *
+   * @param {(tx: FakeTransaction) => Promise<T>} callback - The transaction body
+   * @returns {Promise<T>} The callback's result
+   */
+  runTransaction<T>(callback: (tx: FakeTransaction) => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => {
+      const tx = new FakeTransaction(this);
+      const result = await callback(tx);
+      tx.writes.forEach((write) => write());
+      return result;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Removes every document.
+   */
+  clear(): void {
+    this.documents.clear();
+  }
+
+  autoId(): string {
+    this.nextId++;
+    return `auto${String(this.nextId).padStart(6, '0')}`;
+  }
+
+  snapshot(ref: FakeDocumentReference): FakeDocumentSnapshot {
+    const stored = this.documents.get(ref.path);
+    return new FakeDocumentSnapshot(ref, stored === undefined ? undefined : structuredClone(stored));
+  }
+
+  childrenOf(collectionPath: string): { id: string; data: Data }[] {
+    const depth = collectionPath.split('/').length + 1;
+    const children: { id: string; data: Data }[] = [];
+    this.documents.forEach((data, path) => {
+      if (path.startsWith(`${collectionPath}/`) && path.split('/').length === depth) {
+        children.push({ id: path.split('/').pop()!, data: structuredClone(data) });
+      }
+    });
+    return children;
+  }
+
+  write(ref: FakeDocumentReference, kind: 'set' | 'update' | 'create' | 'delete', data: Data = {}, options?: { merge?: boolean }): void {
+    const existing = this.documents.get(ref.path);
+    const value = structuredClone(data);
+    if (kind === 'delete') {
+      this.documents.delete(ref.path);
+    } else if (kind === 'create') {
+      if (existing !== undefined) throw new FirestoreError(6, `ALREADY_EXISTS: ${ref.path}`);
+      this.documents.set(ref.path, value);
+    } else if (kind === 'update') {
+      if (existing === undefined) throw new FirestoreError(5, `NOT_FOUND: ${ref.path}`);
+      this.documents.set(ref.path, applyUpdate(existing, value));
+    } else {
+      this.documents.set(ref.path, options?.merge && existing !== undefined ? deepMerge(existing, value) : value);
+    }
+  }
+}